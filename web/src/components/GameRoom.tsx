@@ -1,8 +1,61 @@
-import { useEffect, useRef, useState } from "react";
-import type { OpSetVoxel } from "../../../worker/src/schema.js";
-import { connect } from "../net/ws.js";
+import { type ChangeEvent, useEffect, useRef, useState } from "react";
+import {
+    type ColorHex,
+    DEFAULT_DIMS,
+    type Dims,
+    type ImportRequest,
+    type OpSetVoxel,
+    type VoxelKey,
+} from "../../../worker/src/schema.js";
+import { type Change, UndoHistory } from "../net/history.js";
+import { createOpId, PendingOps } from "../net/pending.js";
+import {
+    DEFAULT_REPLAY_SPEED,
+    parseReplayParams,
+    type ReplayParams,
+    ReplayTimeline,
+    replayLink,
+    streamReplay,
+} from "../net/replay.js";
+import { type ConnectionStatus, connect } from "../net/ws.js";
 import { VoxelScene } from "../three/scene.js";
-import { unpack } from "../three/voxels.js";
+import type { SymmetryPlane } from "../three/symmetry.js";
+import { parsePiece, pieceToJSON } from "../three/transforms.js";
+import { readVox, type VoxModel, writeVox } from "../three/vox.js";
+import { ReplayControls } from "./ReplayControls.js";
+import { ServerErrorNotice } from "./ServerErrorNotice.js";
+import { SymmetryPicker } from "./SymmetryPicker.js";
+import { sceneTool, type ToolKind, ToolPicker } from "./ToolPicker.js";
+import { VoxImportDialog } from "./VoxImportDialog.js";
+
+const statusLabels: Record<ConnectionStatus, string> = {
+    connecting: "Connecting...",
+    live: "Live",
+    reconnecting: "Reconnecting...",
+    offline: "Offline",
+};
+
+interface ReplayState {
+    playing: boolean;
+    speed: number;
+    tint: boolean;
+    length: number; // frames received so far
+    loading: boolean;
+}
+
+const startingReplay = ({ speed, tint }: ReplayParams): ReplayState => ({
+    playing: true,
+    speed,
+    tint,
+    length: 0,
+    loading: true,
+});
+
+function helpText(isStatic: boolean, replaying: boolean): string {
+    if (replaying) return "Replaying the room's history • Drag to rotate • Wheel to zoom";
+    if (isStatic) return "Read-only static room • Drag to rotate • Wheel to zoom";
+    return "Click or drag to paint voxels • Shapes: click two corners, Esc to cancel • Recolour or Fill: click a voxel • Select: click two corners, then Ctrl+C/Ctrl+V, M to move, X/Y/Z to turn, Shift+X/Y/Z to mirror • Ctrl+drag or right click to erase • Use ✕ eraser tool • Ctrl+Z to undo, Ctrl+Shift+Z to redo • Right-drag to rotate • Wheel to zoom";
+}
 
 interface GameRoomProps {
     roomSlug: string;
@@ -31,100 +84,213 @@ export function GameRoom({ roomSlug, onLeaveRoom }: GameRoomProps) {
     const [currentColor, setCurrentColor] = useState(
         colors[Math.floor(Math.random() * colors.length)]
     );
-    const [connected, setConnected] = useState(false);
-    const wsRef = useRef<{ setOps: (ops: OpSetVoxel[]) => void } | null>(null);
-    const [voxelState, setVoxelState] = useState(new Map<number, string>());
+    const [tool, setTool] = useState<ToolKind | null>(null); // null paints freehand
+    const [filled, setFilled] = useState(true);
+    const [symmetry, setSymmetry] = useState<SymmetryPlane[]>([]);
+    const [dims, setDims] = useState<Dims>(DEFAULT_DIMS); // the room's, once welcomed
+    const [status, setStatus] = useState<ConnectionStatus>("connecting");
+    const [serverError, setServerError] = useState<string | null>(null); // its last refusal
+    const wsRef = useRef<{
+        setOps: (ops: OpSetVoxel[], atomic?: boolean) => void;
+        tick: () => number;
+    } | null>(null);
+    const pendingRef = useRef<PendingOps | null>(null);
+    const ticketRef = useRef<string | null>(null); // imports are credited to us with it
     const [isStatic, setIsStatic] = useState(false);
     const [isFreezing, setIsFreezing] = useState(false);
+    const voxInputRef = useRef<HTMLInputElement>(null);
+    const [voxImport, setVoxImport] = useState<{ fileName: string; model: VoxModel } | null>(null);
+    const [replay, setReplay] = useState<ReplayState | null>(null);
+    const [playhead, setPlayhead] = useState(0); // frames shown, fractional while one fades in
+    const timelineRef = useRef<ReplayTimeline | null>(null);
+    const replaying = replay !== null;
+    const replayingRef = useRef(replaying);
+    replayingRef.current = replaying;
 
-    // biome-ignore lint/correctness/useExhaustiveDependencies: currentColor intentionally not in deps to avoid scene recreation
+    // biome-ignore lint/correctness/useExhaustiveDependencies: currentColor, the tool and symmetry intentionally not in deps to avoid scene recreation
     useEffect(() => {
         if (!containerRef.current) return;
 
-        const scene = new VoxelScene(containerRef.current);
+        // ?renderer=greedy tries the chunked greedy-mesh renderer
+        const renderer = new URLSearchParams(window.location.search).get("renderer");
+        const scene = new VoxelScene(
+            containerRef.current,
+            renderer === "greedy" ? "greedy" : "instanced"
+        );
         sceneRef.current = scene;
 
         // Initialize with current color - this is intentionally not in dependency array
         // to avoid recreating scene on color changes
         scene.setCurrentColor(currentColor);
-        scene.setOnVoxelClick((k, color) => {
-            // Optimistic update
-            setVoxelState((currentVoxels) => {
-                const newVoxels = new Map(currentVoxels);
-                if (color === null) {
-                    newVoxels.delete(k);
-                } else {
-                    newVoxels.set(k, color);
-                }
-                return newVoxels;
-            });
+        scene.setTool(sceneTool(tool, filled));
+        scene.setSymmetry(symmetry);
+        // Server state plus our unconfirmed ops. Changes go straight to the scene,
+        // which redraws just the voxels at the keys they touch; replays own it meanwhile.
+        const pending = new PendingOps();
+        pendingRef.current = pending;
+        const refresh = (keys: number[]) => {
+            if (replayingRef.current) return;
+            scene.applyOps([...new Set(keys)].map((k) => ({ k, color: pending.colorAt(k) })));
+        };
+        let mySessionId = "";
+        let readOnly = false;
+        let shownDims = DEFAULT_DIMS;
+        const history = new UndoHistory();
+
+        // Send local edits, showing them straight away; atomic ones are applied
+        // by the room all together or not at all
+        const edit = (
+            edits: Array<{ k: number; color: string | null; expect?: string | null }>,
+            atomic = false
+        ) => {
+            if (!wsRef.current || !edits.length) return;
+            const ops: OpSetVoxel[] = [];
+            for (const { k, color, expect } of edits) {
+                const op = {
+                    type: "set" as const,
+                    k,
+                    color,
+                    t: wsRef.current.tick(),
+                    by: localStorage.getItem("playerId") ?? undefined,
+                    id: createOpId(),
+                    expect,
+                };
+                // Optimistic update
+                pending.add(op);
+                ops.push(op);
+            }
+            refresh(ops.map((op) => op.k));
+            wsRef.current.setOps(ops, atomic);
+        };
 
-            if (wsRef.current) {
-                const ops: OpSetVoxel[] = [
-                    {
-                        type: "set" as const,
+        // A stroke's edits go out as it is drawn and are undone together
+        let stroke: Change[] = [];
+        scene.setOnStroke(
+            (changes, atomic) => {
+                const made = changes.map(({ k, color }) => ({
+                    k,
+                    before: pending.colorAt(k),
+                    after: color,
+                }));
+                stroke.push(...made);
+                // Atomic edits were worked out from what we see, so they only
+                // apply if none of it has changed by the time they reach the room
+                const expect = (before: string | null) => (atomic ? before : undefined);
+                edit(
+                    made.map(({ k, before, after }) => ({
                         k,
-                        color,
-                        t: Date.now(),
-                        by: localStorage.getItem("playerId"),
-                    },
-                ];
-                wsRef.current.setOps(ops);
+                        color: after,
+                        expect: expect(before),
+                    })),
+                    atomic
+                );
+            },
+            () => {
+                history.record(stroke);
+                stroke = [];
             }
-        });
+        );
+
+        // Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS)
+        const onKeyDown = (e: KeyboardEvent) => {
+            if (readOnly || !(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== "z") return;
+            if (replayingRef.current) return;
+            if (e.target instanceof HTMLInputElement) return;
+            e.preventDefault();
+            const colorAt = (k: number) => pending.colorAt(k);
+            edit((e.shiftKey ? history.redo(colorAt) : history.undo(colorAt)) ?? []);
+        };
+        window.addEventListener("keydown", onKeyDown);
+
+        // The selection goes to the system clipboard as JSON, so pieces can be
+        // carried between rooms, and comes back as a piece to put down
+        const onCopy = (e: ClipboardEvent) => {
+            if (e.target instanceof HTMLInputElement) return;
+            const piece = scene.copySelection();
+            if (!piece || !e.clipboardData) return;
+            e.preventDefault();
+            e.clipboardData.setData("text/plain", pieceToJSON(piece));
+        };
+        const onPaste = (e: ClipboardEvent) => {
+            if (readOnly || replayingRef.current || e.target instanceof HTMLInputElement) return;
+            const piece = parsePiece(e.clipboardData?.getData("text/plain") ?? "");
+            if (!piece) return;
+            e.preventDefault();
+            scene.paste(piece);
+        };
+        window.addEventListener("copy", onCopy);
+        window.addEventListener("paste", onPaste);
 
-        const { ws, setOps, sendPresence } = connect(
+        const { setOps, sendPresence, tick, close } = connect(
             roomSlug,
             (ops) => {
                 // Apply operations from server
-                setVoxelState((currentVoxels) => {
-                    const newVoxels = new Map(currentVoxels);
-                    for (const op of ops) {
-                        if (op.color === null) {
-                            newVoxels.delete(op.k);
-                        } else {
-                            newVoxels.set(op.k, op.color);
-                        }
-                    }
-                    return newVoxels;
-                });
+                pending.applyServer(ops);
+                refresh(ops.map((op) => op.k));
             },
             (welcomeMsg) => {
-                setConnected(true);
-                const voxelMap = unpack(welcomeMsg.state);
-                setVoxelState(voxelMap);
+                mySessionId = welcomeMsg.sessionId;
+                // Sized before anything is drawn; planes sat across the old canvas go
+                if (welcomeMsg.dims.some((d, i) => d !== shownDims[i])) {
+                    shownDims = welcomeMsg.dims;
+                    scene.setDims(shownDims);
+                    setDims(shownDims);
+                    setSymmetry([]);
+                }
+                pending.reset(welcomeMsg.state);
+                if (!replayingRef.current) scene.updateVoxels(pending.view());
 
                 // Check if this is a static room
                 // biome-ignore lint/suspicious/noExplicitAny: Welcome message type doesn't include isStatic property
                 if ((welcomeMsg as any).isStatic) {
+                    readOnly = true;
                     setIsStatic(true);
                 }
             },
             (players) => {
-                // Handle presence updates
-                const currentPlayerId = localStorage.getItem("playerId") || "";
-                if (sceneRef.current && currentPlayerId) {
-                    sceneRef.current.updatePlayerPresence(players, currentPlayerId);
+                // Handle presence updates; our other tabs show up like anyone else
+                if (sceneRef.current && mySessionId) {
+                    sceneRef.current.updatePlayerPresence(players, mySessionId);
                 }
+            },
+            setStatus,
+            {
+                onAck: (ids) => pending.ack(ids),
+                onNack: (ids) => {
+                    // Roll back ops the server refused
+                    refresh(pending.reject(ids));
+                },
+                onError: (_code, message) => setServerError(message),
+                onRemoteOps: (ops) => {
+                    // Edits from our other tabs, shown as ours until confirmed
+                    for (const op of ops) if (op.id) pending.add({ ...op, id: op.id }, true);
+                    refresh(ops.map((op) => op.k));
+                },
+                onTabsReset: () => {
+                    refresh(pending.dropRemote());
+                },
+                onTicket: (ticket) => {
+                    ticketRef.current = ticket;
+                },
             }
         );
 
-        wsRef.current = { setOps };
+        wsRef.current = { setOps, tick };
 
         // Set up cursor movement handling
         scene.setOnCursorMove((cursor) => {
             sendPresence(cursor);
         });
 
-        // Animation loop
-        const animate = () => {
-            requestAnimationFrame(animate);
-            scene.render();
-        };
-        animate();
-
+        // The scene draws itself whenever something changes
         return () => {
-            ws.close();
+            window.removeEventListener("keydown", onKeyDown);
+            window.removeEventListener("copy", onCopy);
+            window.removeEventListener("paste", onPaste);
+            close();
+            scene.dispose();
+            sceneRef.current = null;
+            pendingRef.current = null;
         };
     }, [roomSlug]);
 
@@ -135,16 +301,123 @@ export function GameRoom({ roomSlug, onLeaveRoom }: GameRoomProps) {
     }, [currentColor]);
 
     useEffect(() => {
-        if (sceneRef.current) {
-            sceneRef.current.updateVoxels(voxelState);
+        sceneRef.current?.setTool(sceneTool(tool, filled));
+    }, [tool, filled]);
+
+    useEffect(() => {
+        sceneRef.current?.setSymmetry(symmetry);
+    }, [symmetry]);
+
+    // Back from a replay, show the live canvas again
+    useEffect(() => {
+        if (sceneRef.current && pendingRef.current && !replaying) {
+            sceneRef.current.updateVoxels(pendingRef.current.view());
         }
-    }, [voxelState]);
+    }, [replaying]);
 
     useEffect(() => {
         if (sceneRef.current) {
-            sceneRef.current.setEditingEnabled(!isStatic);
+            sceneRef.current.setEditingEnabled(!isStatic && !replaying);
         }
-    }, [isStatic]);
+    }, [isStatic, replaying]);
+
+    // Replay links open straight into the replay
+    useEffect(() => {
+        const params = parseReplayParams(window.location.search);
+        if (!params) return;
+        setPlayhead(params.frame);
+        setReplay(startingReplay(params));
+    }, []);
+
+    // Stream the room's history while replaying; playback starts with the first frames
+    useEffect(() => {
+        if (!replaying) return;
+        const timeline = new ReplayTimeline();
+        timelineRef.current = timeline;
+        const abort = new AbortController();
+        streamReplay(
+            roomSlug,
+            (frame) => {
+                timeline.push(frame);
+                setReplay((r) => r && { ...r, length: timeline.length });
+            },
+            abort.signal
+        )
+            .catch((error) => {
+                if (!abort.signal.aborted) console.error("Error loading replay:", error);
+            })
+            .finally(() => {
+                if (!abort.signal.aborted) setReplay((r) => r && { ...r, loading: false });
+            });
+        return () => {
+            abort.abort();
+            timelineRef.current = null;
+        };
+    }, [replaying, roomSlug]);
+
+    // Advance the playhead at `speed` frames per second
+    const playing = replay?.playing ?? false;
+    const speed = replay?.speed ?? 0;
+    useEffect(() => {
+        if (!playing) return;
+        let last = performance.now();
+        let frame = 0;
+        const step = (now: number) => {
+            const length = timelineRef.current?.length ?? 0;
+            setPlayhead((p) => Math.min(length, p + ((now - last) / 1000) * speed));
+            last = now;
+            frame = requestAnimationFrame(step);
+        };
+        frame = requestAnimationFrame(step);
+        return () => cancelAnimationFrame(frame);
+    }, [playing, speed]);
+
+    // Pause at the end once everything has arrived
+    useEffect(() => {
+        if (replay?.playing && !replay.loading && playhead >= replay.length) {
+            setReplay({ ...replay, playing: false });
+        }
+    }, [replay, playhead]);
+
+    // Show the canvas at the playhead, the newest voxels fading in
+    useEffect(() => {
+        const timeline = timelineRef.current;
+        if (!sceneRef.current || !timeline || !replay) return;
+        const voxels = new Map<number, string>();
+        const fade = new Map<number, number>();
+        const owners = new Map<number, string>();
+        for (const [k, voxel] of timeline.seek(Math.ceil(playhead))) {
+            voxels.set(k, voxel.color);
+            fade.set(k, Math.min(1, Math.max(0, playhead - voxel.born)));
+            if (replay.tint && voxel.by) owners.set(k, voxel.by);
+        }
+        sceneRef.current.updateVoxels(voxels, { fade, owners });
+    }, [replay, playhead]);
+
+    const handleStartReplay = () => {
+        setPlayhead(0);
+        setReplay(startingReplay({ frame: 0, speed: DEFAULT_REPLAY_SPEED, tint: false }));
+    };
+
+    const handleExitReplay = () => {
+        setReplay(null);
+        if (window.location.search) window.history.replaceState({}, "", `/room/${roomSlug}`);
+    };
+
+    const handleShareReplay = async () => {
+        if (!replay) return;
+        const link = replayLink(window.location.origin, roomSlug, {
+            frame: playhead,
+            speed: replay.speed,
+            tint: replay.tint,
+        });
+        try {
+            await navigator.clipboard.writeText(link);
+            alert("Replay link copied!");
+        } catch {
+            prompt("Copy this replay link:", link);
+        }
+    };
 
     const handleFreezeRoom = async () => {
         if (isFreezing || isStatic) return;
@@ -174,6 +447,54 @@ export function GameRoom({ roomSlug, onLeaveRoom }: GameRoomProps) {
         }
     };
 
+    const handleExportVox = () => {
+        const url = URL.createObjectURL(
+            new Blob([writeVox(pendingRef.current?.view() ?? new Map(), dims)])
+        );
+        const link = document.createElement("a");
+        link.href = url;
+        link.download = `${roomSlug}.vox`;
+        link.click();
+        URL.revokeObjectURL(url);
+    };
+
+    const handleVoxFile = async (e: ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = ""; // so picking the same file again still fires
+        if (!file) return;
+        try {
+            const model = readVox(new Uint8Array(await file.arrayBuffer()));
+            setVoxImport({ fileName: file.name, model });
+        } catch (error) {
+            console.error("Error reading .vox file:", error);
+            alert(`Couldn't read ${file.name} as a MagicaVoxel model`);
+        }
+    };
+
+    // The room writes the model in bulk; it arrives here as ordinary apply messages
+    const handleImportVox = async (
+        voxels: Map<VoxelKey, ColorHex>,
+        mode: ImportRequest["mode"]
+    ) => {
+        setVoxImport(null);
+        try {
+            const response = await fetch(`/api/room/${roomSlug}/import`, {
+                method: "POST",
+                headers: { "content-type": "application/json" },
+                body: JSON.stringify({
+                    voxels: [...voxels],
+                    mode,
+                    ticket: ticketRef.current ?? undefined,
+                } satisfies ImportRequest),
+            });
+            const result = await response.json();
+            if (!result.success) alert(`Failed to import model: ${result.message}`);
+        } catch (error) {
+            console.error("Error importing model:", error);
+            alert("Error importing model");
+        }
+    };
+
     return (
         <div style={{ width: "100vw", height: "100vh", display: "flex", flexDirection: "column" }}>
             <div
@@ -223,18 +544,84 @@ export function GameRoom({ roomSlug, onLeaveRoom }: GameRoomProps) {
                         {isFreezing ? "Saving..." : "Save Static"}
                     </button>
                 )}
+                <button
+                    type="button"
+                    onClick={handleStartReplay}
+                    disabled={replaying}
+                    style={{
+                        padding: "6px 12px",
+                        background: replaying ? "#ccc" : "#43aa8b",
+                        color: "white",
+                        border: "none",
+                        borderRadius: "4px",
+                        cursor: replaying ? "not-allowed" : "pointer",
+                        fontSize: "12px",
+                        fontWeight: "500",
+                    }}
+                >
+                    Replay
+                </button>
+                <button
+                    type="button"
+                    onClick={handleExportVox}
+                    style={{
+                        padding: "6px 12px",
+                        background: "#4d908e",
+                        color: "white",
+                        border: "none",
+                        borderRadius: "4px",
+                        cursor: "pointer",
+                        fontSize: "12px",
+                        fontWeight: "500",
+                    }}
+                >
+                    Export .vox
+                </button>
+                {(["glb", "obj"] as const).map((format) => (
+                    <a
+                        key={format}
+                        href={`/api/room/${roomSlug}/export.${format}`}
+                        download
+                        style={{ color: "#4d908e", fontSize: "12px", fontWeight: "500" }}
+                    >
+                        .{format}
+                    </a>
+                ))}
+                {!isStatic && !replaying && (
+                    <button
+                        type="button"
+                        onClick={() => voxInputRef.current?.click()}
+                        style={{
+                            padding: "6px 12px",
+                            background: "#4d908e",
+                            color: "white",
+                            border: "none",
+                            borderRadius: "4px",
+                            cursor: "pointer",
+                            fontSize: "12px",
+                            fontWeight: "500",
+                        }}
+                    >
+                        Import .vox
+                    </button>
+                )}
+                <input
+                    ref={voxInputRef}
+                    type="file"
+                    accept=".vox"
+                    onChange={handleVoxFile}
+                    style={{ display: "none" }}
+                />
                 <span style={{ fontWeight: "600", color: "#577590" }}>ourcubes</span>
                 <span>•</span>
-                <span>
-                    Status:{" "}
-                    {isStatic ? "Static (Read-Only)" : connected ? "Connected" : "Connecting..."}
-                </span>
+                <span>Status: {isStatic ? "Static (Read-Only)" : statusLabels[status]}</span>
+                <ServerErrorNotice message={serverError} onDismiss={() => setServerError(null)} />
                 <span>•</span>
                 <span>
                     Room: <strong>{roomSlug}</strong>
                     {isStatic && <span style={{ color: "#f9844a", marginLeft: "4px" }}>🔒</span>}
                 </span>
-                {!isStatic && (
+                {!isStatic && !replaying && (
                     <>
                         <span style={{ marginLeft: "auto" }}>Color:</span>
                         {currentColor === "ERASER" ? (
@@ -256,53 +643,89 @@ export function GameRoom({ roomSlug, onLeaveRoom }: GameRoomProps) {
                                 style={{ width: "40px", height: "30px" }}
                             />
                         )}
+                        <div style={{ display: "flex", gap: "5px" }}>
+                            {colors.map((color) => (
+                                <button
+                                    key={color}
+                                    type="button"
+                                    onClick={() => setCurrentColor(color)}
+                                    style={{
+                                        width: "30px",
+                                        height: "30px",
+                                        backgroundColor: color === "ERASER" ? "#e0e0e0" : color,
+                                        border:
+                                            color === currentColor
+                                                ? "3px solid #333"
+                                                : "1px solid #ccc",
+                                        cursor: "pointer",
+                                        padding: 0,
+                                        position: "relative",
+                                        display: "flex",
+                                        alignItems: "center",
+                                        justifyContent: "center",
+                                        fontSize: "16px",
+                                        fontWeight: "bold",
+                                        color: "#666",
+                                    }}
+                                    aria-label={
+                                        color === "ERASER" ? "Eraser" : `Select color ${color}`
+                                    }
+                                >
+                                    {color === "ERASER" ? (
+                                        <div
+                                            style={{
+                                                width: "20px",
+                                                height: "20px",
+                                                background:
+                                                    "repeating-linear-gradient(45deg, transparent, transparent 2px, #999 2px, #999 4px)",
+                                                border: "1px solid #999",
+                                                borderRadius: "2px",
+                                            }}
+                                        />
+                                    ) : null}
+                                </button>
+                            ))}
+                        </div>
+                        <ToolPicker
+                            tool={tool}
+                            filled={filled}
+                            onToolChange={setTool}
+                            onFilledChange={setFilled}
+                        />
+                        <SymmetryPicker planes={symmetry} dims={dims} onChange={setSymmetry} />
                     </>
                 )}
-                {!isStatic && (
-                    <div style={{ display: "flex", gap: "5px" }}>
-                        {colors.map((color) => (
-                            <button
-                                key={color}
-                                type="button"
-                                onClick={() => setCurrentColor(color)}
-                                style={{
-                                    width: "30px",
-                                    height: "30px",
-                                    backgroundColor: color === "ERASER" ? "#e0e0e0" : color,
-                                    border:
-                                        color === currentColor
-                                            ? "3px solid #333"
-                                            : "1px solid #ccc",
-                                    cursor: "pointer",
-                                    padding: 0,
-                                    position: "relative",
-                                    display: "flex",
-                                    alignItems: "center",
-                                    justifyContent: "center",
-                                    fontSize: "16px",
-                                    fontWeight: "bold",
-                                    color: "#666",
-                                }}
-                                aria-label={color === "ERASER" ? "Eraser" : `Select color ${color}`}
-                            >
-                                {color === "ERASER" ? (
-                                    <div
-                                        style={{
-                                            width: "20px",
-                                            height: "20px",
-                                            background:
-                                                "repeating-linear-gradient(45deg, transparent, transparent 2px, #999 2px, #999 4px)",
-                                            border: "1px solid #999",
-                                            borderRadius: "2px",
-                                        }}
-                                    />
-                                ) : null}
-                            </button>
-                        ))}
-                    </div>
-                )}
             </div>
             <div ref={containerRef} style={{ flex: 1 }} />
+            {voxImport && (
+                <VoxImportDialog
+                    fileName={voxImport.fileName}
+                    model={voxImport.model}
+                    dims={dims}
+                    onImport={handleImportVox}
+                    onCancel={() => setVoxImport(null)}
+                />
+            )}
+            {replay && (
+                <ReplayControls
+                    playhead={playhead}
+                    length={replay.length}
+                    loading={replay.loading}
+                    playing={replay.playing}
+                    speed={replay.speed}
+                    tint={replay.tint}
+                    onPlayingChange={(playing) => {
+                        // Playing from the end starts over
+                        if (playing && playhead >= replay.length) setPlayhead(0);
+                        setReplay({ ...replay, playing });
+                    }}
+                    onSeek={setPlayhead}
+                    onSpeedChange={(speed) => setReplay({ ...replay, speed })}
+                    onTintChange={(tint) => setReplay({ ...replay, tint })}
+                    onShare={handleShareReplay}
+                    onExit={handleExitReplay}
+                />
+            )}
             <div
                 style={{
                     padding: "10px",
@@ -312,9 +735,7 @@ export function GameRoom({ roomSlug, onLeaveRoom }: GameRoomProps) {
                     borderTop: "1px solid #ddd",
                 }}
             >
-                {isStatic
-                    ? "Read-only static room • Drag to rotate • Wheel to zoom"
-                    : "Left click to place voxel • Ctrl+click or right click to erase • Use ✕ eraser tool • Drag to rotate • Wheel to zoom"}
+                {helpText(isStatic, replaying)}
             </div>
         </div>
     );
@@ -1,4 +1,7 @@
 import { useState } from "react";
+import { DEFAULT_DIMS, type Dims, MAX_DIM } from "../../../worker/src/schema.js";
+
+const AXES = ["x", "y", "z"] as const;
 
 interface HomePageProps {
     onJoinRoom: (roomName: string) => void;
@@ -6,6 +9,8 @@ interface HomePageProps {
 
 export function HomePage({ onJoinRoom }: HomePageProps) {
     const [roomName, setRoomName] = useState("");
+    const [dims, setDims] = useState<Dims>(DEFAULT_DIMS);
+    const [error, setError] = useState<string | null>(null);
 
     // Game color palette
     const colors = [
@@ -21,15 +26,33 @@ export function HomePage({ onJoinRoom }: HomePageProps) {
         "#277da1",
     ];
 
-    const handleSubmit = (e: React.FormEvent) => {
+    // Rooms other than 20 across are sized before anyone joins. One that already
+    // exists keeps its size, and is joined all the same.
+    const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
         if (roomName.trim()) {
-            onJoinRoom(
-                roomName
-                    .trim()
-                    .toLowerCase()
-                    .replace(/[^a-z0-9-]/g, "-")
-            );
+            const slug = roomName
+                .trim()
+                .toLowerCase()
+                .replace(/[^a-z0-9-]/g, "-");
+            if (dims.some((d, i) => d !== DEFAULT_DIMS[i])) {
+                try {
+                    const response = await fetch(`/api/room/${slug}/create`, {
+                        method: "POST",
+                        headers: { "Content-Type": "application/json" },
+                        body: JSON.stringify({ dims }),
+                    });
+                    if (response.status === 400) {
+                        setError((await response.json()).message);
+                        return;
+                    }
+                } catch (error) {
+                    console.error("Error creating room:", error);
+                    setError("Error creating room");
+                    return;
+                }
+            }
+            onJoinRoom(slug);
         }
     };
 
@@ -133,6 +156,38 @@ export function HomePage({ onJoinRoom }: HomePageProps) {
                             }}
                         />
                     </div>
+                    <div
+                        style={{
+                            display: "flex",
+                            gap: "8px",
+                            alignItems: "center",
+                            justifyContent: "center",
+                            marginBottom: "16px",
+                            color: "#666",
+                            fontSize: "0.9rem",
+                        }}
+                    >
+                        Size of a new room
+                        {AXES.map((axis, i) => (
+                            <label key={axis}>
+                                {axis}{" "}
+                                <input
+                                    type="number"
+                                    min={1}
+                                    max={MAX_DIM}
+                                    value={dims[i]}
+                                    onChange={(e) => {
+                                        const next = [...dims] as Dims;
+                                        next[i] = Math.trunc(Number(e.target.value)) || 1;
+                                        setDims(next);
+                                        setError(null);
+                                    }}
+                                    style={{ width: "50px" }}
+                                />
+                            </label>
+                        ))}
+                    </div>
+                    {error && <p style={{ color: colors[0], fontSize: "0.9rem" }}>{error}</p>}
                     <button
                         type="submit"
                         disabled={!roomName.trim()}
@@ -191,12 +246,16 @@ export function HomePage({ onJoinRoom }: HomePageProps) {
                                 type="button"
                                 onClick={() => handleQuickJoin(room)}
                                 style={{
+                                    display: "flex",
+                                    flexDirection: "column",
+                                    alignItems: "center",
+                                    gap: "4px",
                                     padding: "6px 12px",
                                     fontSize: "0.9rem",
                                     color: colors[8],
                                     background: "transparent",
                                     border: `1px solid ${colors[8]}`,
-                                    borderRadius: "20px",
+                                    borderRadius: "12px",
                                     cursor: "pointer",
                                     transition: "all 0.2s",
                                 }}
@@ -209,6 +268,16 @@ export function HomePage({ onJoinRoom }: HomePageProps) {
                                     e.currentTarget.style.color = colors[8];
                                 }}
                             >
+                                <img
+                                    src={`/api/room/${room}/thumbnail.png`}
+                                    alt=""
+                                    width={72}
+                                    height={72}
+                                    style={{ borderRadius: "8px" }}
+                                    onError={(e) => {
+                                        e.currentTarget.style.display = "none";
+                                    }}
+                                />
                                 {room}
                             </button>
                         ))}
@@ -0,0 +1,105 @@
+import { REPLAY_SPEEDS } from "../net/replay.js";
+
+interface ReplayControlsProps {
+    playhead: number;
+    length: number;
+    loading: boolean;
+    playing: boolean;
+    speed: number;
+    tint: boolean;
+    onPlayingChange: (playing: boolean) => void;
+    onSeek: (playhead: number) => void;
+    onSpeedChange: (speed: number) => void;
+    onTintChange: (tint: boolean) => void;
+    onShare: () => void;
+    onExit: () => void;
+}
+
+const buttonStyle = {
+    padding: "6px 12px",
+    background: "#577590",
+    color: "white",
+    border: "none",
+    borderRadius: "4px",
+    cursor: "pointer",
+    fontSize: "12px",
+    fontWeight: "500",
+};
+
+export function ReplayControls({
+    playhead,
+    length,
+    loading,
+    playing,
+    speed,
+    tint,
+    onPlayingChange,
+    onSeek,
+    onSpeedChange,
+    onTintChange,
+    onShare,
+    onExit,
+}: ReplayControlsProps) {
+    return (
+        <div
+            style={{
+                padding: "10px",
+                background: "#f0f0f0",
+                color: "#333",
+                display: "flex",
+                alignItems: "center",
+                gap: "10px",
+                borderTop: "1px solid #ddd",
+                fontSize: "12px",
+            }}
+        >
+            <button
+                type="button"
+                onClick={() => onPlayingChange(!playing)}
+                disabled={!length}
+                style={buttonStyle}
+            >
+                {playing ? "❚❚ Pause" : "▶ Play"}
+            </button>
+            <input
+                type="range"
+                min={0}
+                max={length}
+                step={0.01}
+                value={playhead}
+                onChange={(e) => onSeek(Number(e.target.value))}
+                aria-label="Replay position"
+                style={{ flex: 1 }}
+            />
+            <span style={{ minWidth: "90px", textAlign: "right" }}>
+                {Math.ceil(playhead)} / {length}
+                {loading ? "…" : ""}
+            </span>
+            <select
+                value={speed}
+                onChange={(e) => onSpeedChange(Number(e.target.value))}
+                aria-label="Replay speed"
+            >
+                {REPLAY_SPEEDS.map((s) => (
+                    <option key={s} value={s}>
+                        {s} edits/s
+                    </option>
+                ))}
+            </select>
+            <label style={{ display: "flex", alignItems: "center", gap: "4px" }}>
+                <input
+                    type="checkbox"
+                    checked={tint}
+                    onChange={(e) => onTintChange(e.target.checked)}
+                />
+                Colour by player
+            </label>
+            <button type="button" onClick={onShare} style={buttonStyle}>
+                Copy link
+            </button>
+            <button type="button" onClick={onExit} style={{ ...buttonStyle, background: "#999" }}>
+                Exit replay
+            </button>
+        </div>
+    );
+}
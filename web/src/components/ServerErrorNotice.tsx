@@ -0,0 +1,26 @@
+interface ServerErrorNoticeProps {
+    message: string | null; // the last message the server refused; nothing shown when null
+    onDismiss: () => void;
+}
+
+export function ServerErrorNotice({ message, onDismiss }: ServerErrorNoticeProps) {
+    if (message === null) return null;
+    return (
+        <button
+            type="button"
+            onClick={onDismiss}
+            title="Dismiss"
+            style={{
+                padding: "2px 8px",
+                background: "#fde2e2",
+                color: "#b42318",
+                border: "1px solid #f94144",
+                borderRadius: "4px",
+                cursor: "pointer",
+                fontSize: "12px",
+            }}
+        >
+            Server error: {message} ×
+        </button>
+    );
+}
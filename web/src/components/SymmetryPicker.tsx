@@ -0,0 +1,62 @@
+import type { Dims } from "../../../worker/src/schema.js";
+import { centre, type SymmetryPlane } from "../three/symmetry.js";
+
+interface SymmetryPickerProps {
+    planes: SymmetryPlane[];
+    dims: Dims; // of the canvas the planes cross
+    onChange: (planes: SymmetryPlane[]) => void;
+}
+
+const axes = ["X", "Y", "Z"];
+
+export function SymmetryPicker({ planes, dims, onChange }: SymmetryPickerProps) {
+    // Turn the plane across `axis` off (null) or put it at `at`
+    const setPlane = (axis: number, at: number | null) => {
+        const others = planes.filter((p) => p.axis !== axis);
+        onChange(at === null ? others : [...others, { axis, at }]);
+    };
+
+    return (
+        <div style={{ display: "flex", alignItems: "center", gap: "5px", fontSize: "12px" }}>
+            Mirror
+            {axes.map((name, axis) => {
+                const plane = planes.find((p) => p.axis === axis);
+                const layers = Array.from({ length: dims[axis] }, (_, i) => i);
+                return (
+                    <span key={name} style={{ display: "flex", gap: "2px" }}>
+                        <button
+                            type="button"
+                            title={`Mirror edits across ${name}`}
+                            onClick={() => setPlane(axis, plane ? null : centre(dims, axis))}
+                            style={{
+                                padding: "6px 10px",
+                                background: plane ? "#f8961e" : "white",
+                                color: plane ? "white" : "#333",
+                                border: "1px solid #ccc",
+                                borderRadius: "4px",
+                                cursor: "pointer",
+                                fontSize: "12px",
+                            }}
+                        >
+                            {name}
+                        </button>
+                        {plane && (
+                            <select
+                                title={`Where the ${name} plane sits`}
+                                value={plane.at}
+                                onChange={(e) => setPlane(axis, Number(e.target.value))}
+                            >
+                                <option value={centre(dims, axis)}>Centre</option>
+                                {layers.map((layer) => (
+                                    <option key={layer} value={layer}>
+                                        {layer}
+                                    </option>
+                                ))}
+                            </select>
+                        )}
+                    </span>
+                );
+            })}
+        </div>
+    );
+}
@@ -0,0 +1,67 @@
+import type { Tool } from "../three/scene.js";
+import type { ShapeKind } from "../three/shapes.js";
+
+export type ToolKind = Tool["kind"];
+
+interface ToolPickerProps {
+    tool: ToolKind | null; // null paints freehand
+    filled: boolean;
+    onToolChange: (tool: ToolKind | null) => void;
+    onFilledChange: (filled: boolean) => void;
+}
+
+const shapeKinds: ToolKind[] = ["line", "box", "sphere", "cylinder"];
+const isShape = (kind: ToolKind): kind is ShapeKind => shapeKinds.includes(kind);
+
+// The scene's tool for a choice in the picker
+export function sceneTool(kind: ToolKind | null, filled: boolean): Tool | null {
+    if (!kind) return null;
+    return isShape(kind) ? { kind, filled } : { kind };
+}
+
+const tools: Array<{ kind: ToolKind | null; label: string }> = [
+    { kind: null, label: "Brush" },
+    { kind: "line", label: "Line" },
+    { kind: "box", label: "Box" },
+    { kind: "sphere", label: "Sphere" },
+    { kind: "cylinder", label: "Cylinder" },
+    { kind: "recolor", label: "Recolour" },
+    { kind: "fill", label: "Fill" },
+    { kind: "select", label: "Select" },
+];
+
+export function ToolPicker({ tool, filled, onToolChange, onFilledChange }: ToolPickerProps) {
+    return (
+        <div style={{ display: "flex", alignItems: "center", gap: "5px" }}>
+            {tools.map(({ kind, label }) => (
+                <button
+                    key={label}
+                    type="button"
+                    onClick={() => onToolChange(kind)}
+                    style={{
+                        padding: "6px 10px",
+                        background: kind === tool ? "#577590" : "white",
+                        color: kind === tool ? "white" : "#333",
+                        border: "1px solid #ccc",
+                        borderRadius: "4px",
+                        cursor: "pointer",
+                        fontSize: "12px",
+                    }}
+                >
+                    {label}
+                </button>
+            ))}
+            {/* A line is the same filled or not */}
+            {tool && tool !== "line" && isShape(tool) && (
+                <label style={{ fontSize: "12px" }}>
+                    <input
+                        type="checkbox"
+                        checked={filled}
+                        onChange={(e) => onFilledChange(e.target.checked)}
+                    />{" "}
+                    Filled
+                </label>
+            )}
+        </div>
+    );
+}
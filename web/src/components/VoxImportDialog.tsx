@@ -0,0 +1,100 @@
+import { useState } from "react";
+import type { ColorHex, Dims, ImportRequest, VoxelKey } from "../../../worker/src/schema.js";
+import { defaultOffset, placeModel, type VoxModel } from "../three/vox.js";
+
+interface VoxImportDialogProps {
+    fileName: string;
+    model: VoxModel;
+    dims: Dims; // of the room's canvas
+    onImport: (voxels: Map<VoxelKey, ColorHex>, mode: ImportRequest["mode"]) => void;
+    onCancel: () => void;
+}
+
+const AXES = ["x", "y", "z"] as const;
+
+// Places a model read from a .vox file: where it goes, what gets clipped, and
+// whether it replaces the canvas or is painted over it
+export function VoxImportDialog({
+    fileName,
+    model,
+    dims,
+    onImport,
+    onCancel,
+}: VoxImportDialogProps) {
+    const [offset, setOffset] = useState(() => defaultOffset(model.size, dims));
+    const [mode, setMode] = useState<ImportRequest["mode"]>("merge");
+    const { voxels, clipped } = placeModel(model, offset, dims);
+
+    return (
+        <div
+            style={{
+                position: "fixed",
+                inset: 0,
+                background: "rgba(0, 0, 0, 0.3)",
+                display: "flex",
+                alignItems: "center",
+                justifyContent: "center",
+            }}
+        >
+            <div
+                style={{
+                    background: "white",
+                    color: "#333",
+                    padding: "20px",
+                    borderRadius: "8px",
+                    minWidth: "300px",
+                    fontSize: "14px",
+                }}
+            >
+                <h3 style={{ marginTop: 0 }}>Import {fileName}</h3>
+                <p>
+                    {model.voxels.length} voxels, {model.size.join(" × ")}
+                </p>
+                <div style={{ display: "flex", gap: "10px", marginBottom: "10px" }}>
+                    {AXES.map((axis, i) => (
+                        <label key={axis}>
+                            {axis}{" "}
+                            <input
+                                type="number"
+                                value={offset[i]}
+                                onChange={(e) => {
+                                    const next = [...offset] as [number, number, number];
+                                    next[i] = Math.trunc(Number(e.target.value)) || 0;
+                                    setOffset(next);
+                                }}
+                                style={{ width: "50px" }}
+                            />
+                        </label>
+                    ))}
+                </div>
+                <label style={{ display: "block", marginBottom: "10px" }}>
+                    <select
+                        value={mode}
+                        onChange={(e) => setMode(e.target.value as ImportRequest["mode"])}
+                    >
+                        <option value="merge">Paint over the canvas</option>
+                        <option value="replace">Replace the canvas</option>
+                    </select>
+                </label>
+                {clipped > 0 && (
+                    <p style={{ color: "#f94144" }}>
+                        {clipped} voxels fall outside the {dims.join("×")} canvas and will be
+                        clipped.
+                    </p>
+                )}
+                <div style={{ display: "flex", gap: "10px", justifyContent: "flex-end" }}>
+                    <button type="button" onClick={onCancel}>
+                        Cancel
+                    </button>
+                    <button
+                        type="button"
+                        onClick={() => onImport(voxels, mode)}
+                        disabled={!voxels.size && mode === "merge"}
+                    >
+                        Import {voxels.size} voxels
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
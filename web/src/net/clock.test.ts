@@ -0,0 +1,20 @@
+import { describe, expect, it } from "vitest";
+import { LamportClock } from "./clock.js";
+
+describe("LamportClock", () => {
+    it("should tick past every observed stamp", () => {
+        const clock = new LamportClock();
+        clock.observe(41);
+
+        expect(clock.tick()).toBe(42);
+        expect(clock.tick()).toBe(43);
+    });
+
+    it("should never move backwards", () => {
+        const clock = new LamportClock();
+        clock.observe(10);
+        clock.observe(3);
+
+        expect(clock.current).toBe(10);
+    });
+});
@@ -0,0 +1,18 @@
+// Logical clock for stamping ops. Seeded from the room's lamport and advanced past
+// every stamp we observe, so our ops are ordered after everything we've seen
+// regardless of what the wall clock says.
+export class LamportClock {
+    private value = 0;
+
+    get current(): number {
+        return this.value;
+    }
+
+    observe(t: number) {
+        if (t > this.value) this.value = t;
+    }
+
+    tick(): number {
+        return ++this.value;
+    }
+}
@@ -0,0 +1,133 @@
+import { describe, expect, it } from "vitest";
+import { UndoHistory } from "./history.js";
+
+// A canvas the tests edit directly, standing in for the optimistic view
+function canvas(initial: Record<number, string> = {}) {
+    const voxels = new Map(Object.entries(initial).map(([k, c]) => [Number(k), c]));
+    return {
+        colorAt: (k: number) => voxels.get(k) ?? null,
+        set(k: number, color: string | null) {
+            if (color === null) voxels.delete(k);
+            else voxels.set(k, color);
+        },
+        apply(edits: Array<{ k: number; color: string | null }> | null) {
+            for (const { k, color } of edits ?? []) this.set(k, color);
+        },
+    };
+}
+
+describe("UndoHistory", () => {
+    it("should revert the latest action to each voxel's previous value", () => {
+        const c = canvas({ 1: "#FF0000" });
+        const history = new UndoHistory();
+        history.record([
+            { k: 1, before: "#FF0000", after: "#00FF00" },
+            { k: 2, before: null, after: "#00FF00" },
+        ]);
+        c.set(1, "#00FF00");
+        c.set(2, "#00FF00");
+
+        expect(history.undo(c.colorAt)).toEqual([
+            { k: 1, color: "#FF0000", expect: "#00FF00" },
+            { k: 2, color: null, expect: "#00FF00" },
+        ]);
+    });
+
+    it("should redo what was undone", () => {
+        const c = canvas();
+        const history = new UndoHistory();
+        history.record([{ k: 1, before: null, after: "#FF0000" }]);
+        c.set(1, "#FF0000");
+        c.apply(history.undo(c.colorAt));
+
+        expect(history.redo(c.colorAt)).toEqual([{ k: 1, color: "#FF0000", expect: null }]);
+        expect(history.canRedo).toBe(false);
+        expect(history.canUndo).toBe(true);
+    });
+
+    it("should undo actions newest first", () => {
+        const c = canvas();
+        const history = new UndoHistory();
+        for (const k of [1, 2, 3]) {
+            history.record([{ k, before: null, after: "#FF0000" }]);
+            c.set(k, "#FF0000");
+        }
+
+        const order: number[] = [];
+        for (let edits = history.undo(c.colorAt); edits; edits = history.undo(c.colorAt)) {
+            order.push(edits[0].k);
+            c.apply(edits);
+        }
+        expect(order).toEqual([3, 2, 1]);
+    });
+
+    it("should skip voxels another player changed since", () => {
+        const c = canvas();
+        const history = new UndoHistory();
+        history.record([
+            { k: 1, before: null, after: "#FF0000" },
+            { k: 2, before: null, after: "#FF0000" },
+        ]);
+        c.set(1, "#FF0000");
+        c.set(2, "#0000FF"); // someone else painted over ours
+
+        expect(history.undo(c.colorAt)).toEqual([{ k: 1, color: null, expect: "#FF0000" }]);
+    });
+
+    it("should pass over actions others have entirely overwritten", () => {
+        const c = canvas();
+        const history = new UndoHistory();
+        history.record([{ k: 1, before: null, after: "#FF0000" }]);
+        history.record([{ k: 2, before: null, after: "#FF0000" }]);
+        c.set(1, "#FF0000");
+        c.set(2, null); // erased by someone else
+
+        expect(history.undo(c.colorAt)).toEqual([{ k: 1, color: null, expect: "#FF0000" }]);
+        expect(history.undo(c.colorAt)).toBeNull();
+    });
+
+    it("should only redo the voxels the undo actually reverted", () => {
+        const c = canvas();
+        const history = new UndoHistory();
+        history.record([
+            { k: 1, before: null, after: "#FF0000" },
+            { k: 2, before: null, after: "#FF0000" },
+        ]);
+        c.set(1, "#FF0000");
+        c.set(2, "#0000FF");
+        c.apply(history.undo(c.colorAt));
+
+        expect(history.redo(c.colorAt)).toEqual([{ k: 1, color: "#FF0000", expect: null }]);
+    });
+
+    it("should forget undone actions once a new one is recorded", () => {
+        const c = canvas();
+        const history = new UndoHistory();
+        history.record([{ k: 1, before: null, after: "#FF0000" }]);
+        c.set(1, "#FF0000");
+        c.apply(history.undo(c.colorAt));
+
+        history.record([{ k: 2, before: null, after: "#FF0000" }]);
+        expect(history.canRedo).toBe(false);
+    });
+
+    it("should ignore actions that changed nothing", () => {
+        const history = new UndoHistory();
+        history.record([{ k: 1, before: "#FF0000", after: "#FF0000" }]);
+        expect(history.canUndo).toBe(false);
+    });
+
+    it("should keep at most the configured number of actions", () => {
+        const c = canvas();
+        const history = new UndoHistory(2);
+        for (const k of [1, 2, 3]) {
+            history.record([{ k, before: null, after: "#FF0000" }]);
+            c.set(k, "#FF0000");
+        }
+
+        c.apply(history.undo(c.colorAt));
+        c.apply(history.undo(c.colorAt));
+        expect(history.undo(c.colorAt)).toBeNull();
+        expect(c.colorAt(1)).toBe("#FF0000");
+    });
+});
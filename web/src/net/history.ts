@@ -0,0 +1,79 @@
+import type { ColorHex, VoxelKey } from "../../../worker/src/schema.js";
+
+// One voxel changed by a local edit
+export interface Change {
+    k: VoxelKey;
+    before: ColorHex | null;
+    after: ColorHex | null;
+}
+
+// An edit to send: set `color` only if the voxel still holds `expect`
+export interface Revert {
+    k: VoxelKey;
+    color: ColorHex | null;
+    expect: ColorHex | null;
+}
+
+export const UNDO_LIMIT = 200;
+
+// This player's undo and redo stacks. Each entry is one action (a click, a
+// stroke) as the changes it made. Undoing only touches voxels that still hold
+// what the action left there, so other players' later edits are never reverted;
+// the server checks the same thing when the inverse ops arrive.
+export class UndoHistory {
+    private undoStack: Change[][] = [];
+    private redoStack: Change[][] = [];
+
+    constructor(private limit = UNDO_LIMIT) {}
+
+    get canUndo(): boolean {
+        return this.undoStack.length > 0;
+    }
+
+    get canRedo(): boolean {
+        return this.redoStack.length > 0;
+    }
+
+    // A new local action; it makes anything undone unreachable
+    record(changes: Change[]) {
+        const effective = changes.filter((c) => c.before !== c.after);
+        if (!effective.length) return;
+        this.undoStack.push(effective);
+        if (this.undoStack.length > this.limit) this.undoStack.shift();
+        this.redoStack = [];
+    }
+
+    // Ops reverting the latest action that still has something to revert, or
+    // null if none does. Actions entirely overwritten by others are dropped.
+    undo(colorAt: (k: VoxelKey) => ColorHex | null): Revert[] | null {
+        return this.step(this.undoStack, this.redoStack, colorAt, (c) => ({
+            k: c.k,
+            color: c.before,
+            expect: c.after,
+        }));
+    }
+
+    // Ops re-applying the latest undone action, skipping voxels changed since
+    redo(colorAt: (k: VoxelKey) => ColorHex | null): Revert[] | null {
+        return this.step(this.redoStack, this.undoStack, colorAt, (c) => ({
+            k: c.k,
+            color: c.after,
+            expect: c.before,
+        }));
+    }
+
+    private step(
+        from: Change[][],
+        to: Change[][],
+        colorAt: (k: VoxelKey) => ColorHex | null,
+        invert: (c: Change) => Revert
+    ): Revert[] | null {
+        for (let entry = from.pop(); entry; entry = from.pop()) {
+            const live = entry.filter((c) => colorAt(c.k) === invert(c).expect);
+            if (!live.length) continue;
+            to.push(live);
+            return live.map(invert);
+        }
+        return null;
+    }
+}
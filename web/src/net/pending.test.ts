@@ -0,0 +1,113 @@
+import { describe, expect, it } from "vitest";
+import type { OpSetVoxel } from "../../../worker/src/schema.js";
+import { createOpId, PendingOps } from "./pending.js";
+
+const op = (k: number, color: string | null, id?: string): OpSetVoxel => ({
+    type: "set",
+    k,
+    color,
+    t: 1,
+    id,
+});
+
+describe("PendingOps", () => {
+    it("should generate unique op ids", () => {
+        const ids = new Set(Array.from({ length: 100 }, () => createOpId()));
+        expect(ids.size).toBe(100);
+    });
+
+    it("should layer pending ops over the confirmed state", () => {
+        const pending = new PendingOps();
+        pending.reset([
+            [1, "#FF0000", 1],
+            [2, "#00FF00", 1],
+        ]);
+        pending.add({ ...op(2, null), id: "a" });
+        pending.add({ ...op(3, "#0000FF"), id: "b" });
+
+        expect(pending.view()).toEqual(
+            new Map([
+                [1, "#FF0000"],
+                [3, "#0000FF"],
+            ])
+        );
+    });
+
+    it("should apply later pending ops on top of earlier ones", () => {
+        const pending = new PendingOps();
+        pending.add({ ...op(1, "#FF0000"), id: "a" });
+        pending.add({ ...op(1, "#00FF00"), id: "b" });
+
+        expect(pending.view().get(1)).toBe("#00FF00");
+    });
+
+    it("should roll back rejected ops to the server state", () => {
+        const pending = new PendingOps();
+        pending.reset([[1, "#FF0000", 1]]);
+        pending.add({ ...op(1, "#00FF00"), id: "a" });
+
+        expect(pending.reject(["a", "unknown"])).toEqual([1]);
+        expect(pending.view().get(1)).toBe("#FF0000");
+        expect(pending.size).toBe(0);
+    });
+
+    it("should drop pending ops once the server applies them", () => {
+        const pending = new PendingOps();
+        pending.add({ ...op(1, "#00FF00"), id: "a" });
+        pending.applyServer([op(1, "#00FF00", "a")]);
+
+        expect(pending.size).toBe(0);
+        expect(pending.view().get(1)).toBe("#00FF00");
+    });
+
+    it("should keep showing our pending op over another player's write until it settles", () => {
+        const pending = new PendingOps();
+        pending.add({ ...op(1, "#00FF00"), id: "mine" });
+        pending.applyServer([op(1, "#FF0000", "theirs")]);
+
+        expect(pending.view().get(1)).toBe("#00FF00");
+
+        // Ours lost the LWW comparison: the other player's colour shows through
+        pending.reject(["mine"]);
+        expect(pending.view().get(1)).toBe("#FF0000");
+    });
+
+    it("should rebase pending ops onto a fresh snapshot", () => {
+        const pending = new PendingOps();
+        pending.add({ ...op(5, "#00FF00"), id: "a" });
+        pending.reset([[1, "#FF0000", 1]]);
+
+        expect(pending.view()).toEqual(
+            new Map([
+                [1, "#FF0000"],
+                [5, "#00FF00"],
+            ])
+        );
+    });
+
+    it("should report the colour shown at a voxel", () => {
+        const pending = new PendingOps();
+        pending.reset([
+            [1, "#FF0000", 1],
+            [2, "#00FF00", 1],
+        ]);
+        pending.add({ ...op(2, null), id: "a" });
+        pending.add({ ...op(3, "#0000FF"), id: "b" });
+        pending.add({ ...op(3, "#FFFFFF"), id: "c" });
+
+        expect(pending.colorAt(1)).toBe("#FF0000");
+        expect(pending.colorAt(2)).toBeNull();
+        expect(pending.colorAt(3)).toBe("#FFFFFF");
+        expect(pending.colorAt(4)).toBeNull();
+    });
+
+    it("should drop our other tabs' ops and say where they were", () => {
+        const pending = new PendingOps();
+        pending.add({ ...op(1, "#00FF00"), id: "mine" });
+        pending.add({ ...op(2, "#00FF00"), id: "other-tab" }, true);
+
+        expect(pending.dropRemote()).toEqual([2]);
+        expect(pending.view()).toEqual(new Map([[1, "#00FF00"]]));
+        expect(pending.dropRemote()).toEqual([]);
+    });
+});
@@ -0,0 +1,93 @@
+import type { OpSetVoxel, PackedState } from "../../../worker/src/schema.js";
+import { unpack } from "../three/voxels.js";
+
+// Unique per tab; the counter keeps ids short while staying unique within it
+const idPrefix = Math.random().toString(36).slice(2, 10);
+let idCounter = 0;
+
+export function createOpId(): string {
+    return `${idPrefix}-${(++idCounter).toString(36)}`;
+}
+
+// Optimistic voxel state: authoritative server state with this client's
+// not-yet-confirmed ops layered on top. Confirmed ops are folded into the base
+// as they arrive in apply messages; rejected ones are dropped, which rolls them back.
+export class PendingOps {
+    private confirmed = new Map<number, string>();
+    private pending = new Map<string, OpSetVoxel>(); // id -> op, in send order
+    private remote = new Set<string>(); // ids of pending ops made in our other tabs
+
+    reset(state: PackedState) {
+        this.confirmed = unpack(state);
+    }
+
+    // Local op, shown immediately until the server confirms or rejects it. Ops
+    // shared by another of our tabs are marked remote.
+    add(op: OpSetVoxel & { id: string }, remote = false) {
+        this.pending.set(op.id, op);
+        if (remote) this.remote.add(op.id);
+    }
+
+    // Forget other tabs' ops; they share whatever is still pending again.
+    // Returns the keys they were at, which may now show something else.
+    dropRemote(): number[] {
+        return this.forget([...this.remote]);
+    }
+
+    // Authoritative ops from an apply or catchup message, ours or anyone else's
+    applyServer(ops: OpSetVoxel[]) {
+        for (const op of ops) {
+            if (op.color === null) {
+                this.confirmed.delete(op.k);
+            } else {
+                this.confirmed.set(op.k, op.color);
+            }
+            if (op.id) this.forget([op.id]);
+        }
+    }
+
+    // Ops the server acknowledged; their effect already arrived via applyServer
+    ack(ids: string[]) {
+        this.forget(ids);
+    }
+
+    // Ops the server refused; dropping them reverts to whatever it holds.
+    // Returns the keys they were at.
+    reject(ids: string[]): number[] {
+        return this.forget(ids);
+    }
+
+    // The colour the view shows at k, without building the whole view
+    colorAt(k: number): string | null {
+        let color = this.confirmed.get(k) ?? null;
+        for (const op of this.pending.values()) if (op.k === k) color = op.color;
+        return color;
+    }
+
+    get size(): number {
+        return this.pending.size;
+    }
+
+    view(): Map<number, string> {
+        const voxels = new Map(this.confirmed);
+        for (const op of this.pending.values()) {
+            if (op.color === null) {
+                voxels.delete(op.k);
+            } else {
+                voxels.set(op.k, op.color);
+            }
+        }
+        return voxels;
+    }
+
+    private forget(ids: string[]): number[] {
+        const keys: number[] = [];
+        for (const id of ids) {
+            const op = this.pending.get(id);
+            if (op) keys.push(op.k);
+            this.pending.delete(id);
+            this.remote.delete(id);
+        }
+        return keys;
+    }
+}
@@ -0,0 +1,194 @@
+import { describe, expect, it } from "vitest";
+import type { OpSetVoxel } from "../../../worker/src/schema.js";
+import { BUCKET_CAPACITY, BUCKET_REFILL_MS, OutboundQueue } from "./queue.js";
+
+const op = (k: number, id: string): OpSetVoxel => ({ type: "set", k, color: "#FF0000", t: 1, id });
+const ops = (n: number, from = 0) =>
+    Array.from({ length: n }, (_, i) => op(from + i, `op${from + i}`));
+
+describe("OutboundQueue", () => {
+    it("should send up to a full bucket at once", () => {
+        const queue = new OutboundQueue(0);
+        queue.enqueue(ops(100));
+
+        expect(queue.take(0)).toHaveLength(BUCKET_CAPACITY);
+        expect(queue.size).toBe(20);
+        expect(queue.take(0)).toEqual([]);
+    });
+
+    it("should refill one token per interval", () => {
+        const queue = new OutboundQueue(0);
+        queue.enqueue(ops(100));
+        queue.take(0);
+
+        expect(queue.nextFlushDelay(10)).toBe(BUCKET_REFILL_MS - 10);
+        expect(queue.take(BUCKET_REFILL_MS * 3)).toHaveLength(3);
+    });
+
+    it("should keep partial refill progress between takes", () => {
+        const queue = new OutboundQueue(0);
+        queue.enqueue(ops(100));
+        queue.take(0);
+
+        expect(queue.take(75)).toHaveLength(1);
+        // 75ms + 25ms completes the second token
+        expect(queue.take(100)).toHaveLength(1);
+    });
+
+    it("should return null from nextFlushDelay when nothing is queued", () => {
+        expect(new OutboundQueue(0).nextFlushDelay(0)).toBeNull();
+    });
+
+    it("should coalesce writes to the same voxel and report the replaced id", () => {
+        const queue = new OutboundQueue(0);
+        queue.enqueue([op(1, "a")]);
+
+        expect(queue.enqueue([op(1, "b")])).toEqual(["a"]);
+        expect(queue.take(0)).toEqual([op(1, "b")]);
+    });
+
+    it("should pause for retryAfterMs and re-queue a rejected batch", () => {
+        const queue = new OutboundQueue(0);
+        queue.enqueue([op(1, "a"), op(2, "b")]);
+        queue.take(0);
+
+        expect(queue.retry(["a", "b"], 1000, 0)).toEqual([]);
+        expect(queue.take(999)).toEqual([]);
+        expect(queue.nextFlushDelay(500)).toBe(500);
+        expect(queue.take(1000 + BUCKET_REFILL_MS * 2)).toEqual([op(1, "a"), op(2, "b")]);
+    });
+
+    it("should drop a rejected op when a newer write to its voxel is queued", () => {
+        const queue = new OutboundQueue(0);
+        queue.enqueue([op(1, "a")]);
+        queue.take(0);
+        queue.enqueue([op(1, "b")]);
+
+        expect(queue.retry(["a"], 0, 0)).toEqual(["a"]);
+    });
+
+    it("should not re-send ops that were settled", () => {
+        const queue = new OutboundQueue(0);
+        queue.enqueue([op(1, "a"), op(2, "b")]);
+        queue.take(0);
+        queue.settle(["a"]);
+
+        queue.requeueInflight(10);
+        expect(queue.take(10)).toEqual([op(2, "b")]);
+    });
+
+    it("should start a fresh bucket after reconnecting", () => {
+        const queue = new OutboundQueue(0);
+        queue.enqueue(ops(BUCKET_CAPACITY));
+        queue.take(0);
+
+        queue.requeueInflight(10);
+        expect(queue.take(10)).toHaveLength(BUCKET_CAPACITY);
+    });
+
+    describe("transactions", () => {
+        it("should send a transaction in parts, only the first waiting for tokens", () => {
+            const queue = new OutboundQueue(0);
+            queue.enqueueTxn("t", ops(200));
+
+            const parts = [queue.takeTxnPart(0), queue.takeTxnPart(0), queue.takeTxnPart(0)];
+            expect(parts.map((p) => p?.txn)).toEqual([
+                { id: "t", part: 0, last: false },
+                { id: "t", part: 1, last: false },
+                { id: "t", part: 2, last: true },
+            ]);
+            expect(parts.flatMap((p) => p?.ops)).toEqual(ops(200));
+            expect(queue.takeTxnPart(0)).toBeNull();
+        });
+
+        it("should leave the bucket owing for the parts after the first", () => {
+            const queue = new OutboundQueue(0);
+            queue.enqueueTxn("t", ops(120));
+            queue.takeTxnPart(0);
+            queue.takeTxnPart(0);
+            queue.enqueue(ops(1, 500));
+
+            // 40 tokens in debt, and one more to send
+            expect(queue.nextFlushDelay(0)).toBe(41 * BUCKET_REFILL_MS);
+            expect(queue.take(40 * BUCKET_REFILL_MS)).toEqual([]);
+            expect(queue.take(41 * BUCKET_REFILL_MS)).toHaveLength(1);
+        });
+
+        it("should wait until the bucket holds the first part", () => {
+            const queue = new OutboundQueue(0);
+            queue.enqueue(ops(50, 500));
+            queue.take(0);
+            queue.enqueueTxn("t", ops(100));
+
+            expect(queue.takeTxnPart(0)).toBeNull();
+            expect(queue.nextFlushDelay(0)).toBe(50 * BUCKET_REFILL_MS);
+            expect(queue.takeTxnPart(50 * BUCKET_REFILL_MS)?.ops).toHaveLength(80);
+        });
+
+        it("should keep loose ops behind a transaction still going out", () => {
+            const queue = new OutboundQueue(0);
+            queue.enqueue(ops(5, 500));
+            queue.enqueueTxn("t", ops(100));
+
+            expect(queue.size).toBe(105);
+            expect(queue.take(0)).toEqual([]);
+            queue.takeTxnPart(0);
+            queue.takeTxnPart(0);
+            expect(queue.take(100 * BUCKET_REFILL_MS)).toEqual(ops(5, 500));
+        });
+
+        it("should replace queued writes to the transaction's voxels", () => {
+            const queue = new OutboundQueue(0);
+            queue.enqueue([op(1, "a"), op(2, "b")]);
+
+            expect(queue.enqueueTxn("t", [op(1, "c")])).toEqual(["a"]);
+            queue.takeTxnPart(0);
+            expect(queue.take(0)).toEqual([op(2, "b")]);
+        });
+
+        it("should start a transaction over after reconnecting", () => {
+            const queue = new OutboundQueue(0);
+            queue.enqueueTxn("t", ops(100));
+            queue.takeTxnPart(0);
+
+            queue.requeueInflight(10);
+            const part = queue.takeTxnPart(10);
+            expect(part?.txn).toEqual({ id: "t", part: 0, last: false });
+            expect(part?.ops).toEqual(ops(80));
+        });
+
+        it("should start a transaction over when its first part is rejected", () => {
+            const queue = new OutboundQueue(0);
+            queue.enqueueTxn("t", ops(10));
+            queue.takeTxnPart(0);
+
+            queue.retry(["op0"], 1000, 0);
+            expect(queue.takeTxnPart(999)).toBeNull();
+            expect(queue.takeTxnPart(1000 + 10 * BUCKET_REFILL_MS)?.ops).toEqual(ops(10));
+        });
+
+        it("should forget a transaction once every op is answered", () => {
+            const queue = new OutboundQueue(0);
+            queue.enqueueTxn("t", ops(10));
+            queue.takeTxnPart(0);
+            queue.settle(ops(10).map((o) => o.id as string));
+
+            queue.requeueInflight(10);
+            expect(queue.takeTxnPart(10)).toBeNull();
+            expect(queue.nextFlushDelay(10)).toBeNull();
+        });
+
+        it("should drop the rest of a transaction one of its ops failed in", () => {
+            const queue = new OutboundQueue(0);
+            queue.enqueueTxn("t", ops(100));
+            queue.takeTxnPart(0);
+
+            const rest = queue.abortTxns(["op0"]);
+            expect(rest).toHaveLength(99);
+            expect(rest).not.toContain("op0");
+            expect(queue.size).toBe(0);
+            expect(queue.takeTxnPart(0)).toBeNull();
+            expect(queue.abortTxns(["op1"])).toEqual([]);
+        });
+    });
+});
@@ -0,0 +1,200 @@
+import {
+    MAX_BATCH_OPS,
+    type OpSetVoxel,
+    type SetTxn,
+    type VoxelKey,
+} from "../../../worker/src/schema.js";
+
+// Mirrors VoxelRoomDO.checkBucket so we never send a batch the server would refuse
+export const BUCKET_CAPACITY = 80;
+export const BUCKET_REFILL_MS = 50; // one token per 50ms
+
+// Ops the room must apply together, kept until every one of them is answered
+interface QueuedTxn {
+    id: string;
+    ops: OpSetVoxel[];
+    sent: number; // how many ops have gone out
+    part: number; // the next part's number
+}
+
+// A part of a transaction, ready to send
+export interface TxnPart {
+    ops: OpSetVoxel[];
+    txn: SetTxn;
+}
+
+// Ops waiting to go out, coalesced per voxel, plus ops sent but not yet answered.
+// Transactions go out whole and in order, ahead of the loose ops queued with them.
+// Time is passed in so the bucket can be driven deterministically in tests.
+export class OutboundQueue {
+    private queued = new Map<VoxelKey, OpSetVoxel>();
+    private txns: QueuedTxn[] = [];
+    private inflight = new Map<string, OpSetVoxel>(); // id -> op
+    private tokens = BUCKET_CAPACITY;
+    private last: number;
+    private pausedUntil = 0; // set from a reject's retryAfterMs
+
+    constructor(now: number = Date.now()) {
+        this.last = now;
+    }
+
+    get size(): number {
+        let size = this.queued.size;
+        for (const txn of this.txns) size += txn.ops.length - txn.sent;
+        return size;
+    }
+
+    // Queue ops for sending. A later write to a voxel that hasn't gone out yet
+    // replaces the earlier one; the ids of replaced ops are returned.
+    enqueue(ops: OpSetVoxel[]): string[] {
+        const superseded: string[] = [];
+        for (const op of ops) {
+            const prev = this.queued.get(op.k);
+            if (prev?.id && prev.id !== op.id) superseded.push(prev.id);
+            this.queued.set(op.k, op);
+        }
+        return superseded;
+    }
+
+    // Queue ops to be applied all at once, as transaction `id`. Queued writes
+    // to the same voxels are replaced; their ids are returned.
+    enqueueTxn(id: string, ops: OpSetVoxel[]): string[] {
+        const superseded: string[] = [];
+        for (const op of ops) {
+            const prev = this.queued.get(op.k);
+            if (prev?.id) superseded.push(prev.id);
+            this.queued.delete(op.k);
+        }
+        this.txns.push({ id, ops, sent: 0, part: 0 });
+        return superseded;
+    }
+
+    // The next part of the oldest unsent transaction, if the bucket allows it. Only
+    // the first part waits for tokens: the room lets the rest run the bucket into debt.
+    takeTxnPart(now: number): TxnPart | null {
+        const txn = this.unsentTxn();
+        if (!txn || now < this.pausedUntil) return null;
+        this.refill(now);
+
+        const ops = txn.ops.slice(txn.sent, txn.sent + MAX_BATCH_OPS);
+        if (txn.part === 0 && ops.length > this.tokens) return null;
+        this.tokens -= ops.length;
+        for (const op of ops) if (op.id) this.inflight.set(op.id, op);
+        txn.sent += ops.length;
+        const part = { id: txn.id, part: txn.part++, last: txn.sent === txn.ops.length };
+        return { ops, txn: part };
+    }
+
+    // The next batch the bucket allows right now; those ops become in-flight.
+    // Nothing while a transaction is still going out, so it stays ahead.
+    take(now: number): OpSetVoxel[] {
+        if (now < this.pausedUntil || this.unsentTxn()) return [];
+        this.refill(now);
+
+        const batch: OpSetVoxel[] = [];
+        for (const [k, op] of this.queued) {
+            if (batch.length >= this.tokens) break;
+            batch.push(op);
+            this.queued.delete(k);
+            if (op.id) this.inflight.set(op.id, op);
+        }
+        this.tokens -= batch.length;
+        return batch;
+    }
+
+    // Ops the server answered (applied, acked or nacked)
+    settle(ids: string[]) {
+        for (const id of ids) this.inflight.delete(id);
+        this.txns = this.txns.filter((txn) => this.unsettled(txn).length > 0);
+    }
+
+    // Transactions holding any of `ids` can no longer apply whole: drop them and
+    // return the ids of their other unanswered ops
+    abortTxns(ids: string[]): string[] {
+        const aborted = new Set(ids);
+        const dropped: string[] = [];
+        this.txns = this.txns.filter((txn) => {
+            if (!txn.ops.some((op) => op.id && aborted.has(op.id))) return true;
+            for (const op of this.unsettled(txn)) {
+                if (!op.id || aborted.has(op.id)) continue;
+                this.inflight.delete(op.id);
+                dropped.push(op.id);
+            }
+            return false;
+        });
+        return dropped;
+    }
+
+    // A batch refused for rate: queue it again behind the advertised delay. Ops
+    // already replaced by a newer queued write to the same voxel are returned.
+    retry(ids: string[], retryAfterMs: number, now: number): string[] {
+        this.pausedUntil = Math.max(this.pausedUntil, now + retryAfterMs);
+        this.tokens = 0; // the server's bucket is evidently empty
+        this.last = this.pausedUntil;
+        return this.requeue(ids);
+    }
+
+    // After a reconnect nothing in flight can be answered any more, so send it again.
+    // The new socket also starts with a full bucket on the server.
+    requeueInflight(now: number): string[] {
+        this.pausedUntil = 0;
+        this.tokens = BUCKET_CAPACITY;
+        this.last = now;
+        return this.requeue([...this.inflight.keys()]);
+    }
+
+    // Milliseconds until take() could return something, or null if nothing is queued
+    nextFlushDelay(now: number): number | null {
+        const txn = this.unsentTxn();
+        if (this.queued.size === 0 && !txn) return null;
+        if (now < this.pausedUntil) return this.pausedUntil - now;
+        // A transaction's first part waits for a token per op; the rest go straight out
+        if (txn && txn.part > 0) return 0;
+        this.refill(now);
+        const needed = txn ? Math.min(txn.ops.length, MAX_BATCH_OPS) : 1;
+        if (this.tokens >= needed) return 0;
+        return (needed - this.tokens) * BUCKET_REFILL_MS - (now - this.last);
+    }
+
+    private unsentTxn(): QueuedTxn | undefined {
+        return this.txns.find((txn) => txn.sent < txn.ops.length);
+    }
+
+    // Ops of a transaction not yet sent, or sent and not yet answered
+    private unsettled(txn: QueuedTxn): OpSetVoxel[] {
+        return txn.ops.filter((op, i) => i >= txn.sent || (op.id && this.inflight.has(op.id)));
+    }
+
+    private requeue(ids: string[]): string[] {
+        // Transactions start over from their first part, with whatever is unanswered
+        const requeued = new Set(ids);
+        for (const txn of this.txns) {
+            if (!txn.ops.some((op) => op.id && requeued.has(op.id))) continue;
+            txn.ops = this.unsettled(txn);
+            for (const op of txn.ops) if (op.id) this.inflight.delete(op.id);
+            txn.sent = 0;
+            txn.part = 0;
+        }
+
+        const superseded: string[] = [];
+        for (const id of ids) {
+            const op = this.inflight.get(id);
+            if (!op) continue;
+            this.inflight.delete(id);
+            if (this.queued.has(op.k)) {
+                superseded.push(id);
+            } else {
+                this.queued.set(op.k, op);
+            }
+        }
+        return superseded;
+    }
+
+    private refill(now: number) {
+        const refill = Math.floor((now - this.last) / BUCKET_REFILL_MS);
+        if (refill <= 0) return;
+        this.tokens = Math.min(BUCKET_CAPACITY, this.tokens + refill);
+        // Carry partial progress toward the next token, as the server does
+        this.last = this.tokens === BUCKET_CAPACITY ? now : this.last + refill * BUCKET_REFILL_MS;
+    }
+}
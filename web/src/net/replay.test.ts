@@ -0,0 +1,120 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { OpSetVoxel, ReplayFrame } from "../../../worker/src/schema.js";
+import { parseReplayParams, ReplayTimeline, replayLink, streamReplay } from "./replay.js";
+
+const set = (k: number, color: string | null, by?: string): OpSetVoxel => ({
+    type: "set",
+    k,
+    color,
+    t: 1,
+    by,
+});
+
+// A fetch response whose body arrives in the given chunks
+function chunkedResponse(chunks: string[]) {
+    const encoder = new TextEncoder();
+    let i = 0;
+    return {
+        ok: true,
+        status: 200,
+        body: {
+            getReader: () => ({
+                read: async () =>
+                    i < chunks.length
+                        ? { value: encoder.encode(chunks[i++]), done: false }
+                        : { value: undefined, done: true },
+            }),
+        },
+    };
+}
+
+describe("streamReplay", () => {
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it("should hand over frames split across chunks", async () => {
+        const frames: ReplayFrame[] = [
+            { version: 1, ops: [set(1, "#FF0000", "alice")] },
+            { version: 2, ops: [set(1, null, "bob")] },
+        ];
+        const text = frames.map((f) => `${JSON.stringify(f)}\n`).join("");
+        const fetchMock = vi.fn(async () => chunkedResponse([text.slice(0, 30), text.slice(30)]));
+        vi.stubGlobal("fetch", fetchMock);
+
+        const received: ReplayFrame[] = [];
+        await streamReplay("room", (frame) => received.push(frame));
+
+        expect(fetchMock).toHaveBeenCalledWith("/api/room/room/replay", { signal: undefined });
+        expect(received).toEqual(frames);
+    });
+
+    it("should fail when the room has no replay", async () => {
+        vi.stubGlobal("fetch", async () => ({ ok: false, status: 404, body: null }));
+
+        await expect(streamReplay("room", () => {})).rejects.toThrow("404");
+    });
+});
+
+describe("ReplayTimeline", () => {
+    function timeline() {
+        const t = new ReplayTimeline();
+        t.push({ version: 1, ops: [set(1, "#FF0000", "alice"), set(2, "#00FF00", "alice")] });
+        t.push({ version: 2, ops: [set(1, null, "bob")] });
+        t.push({ version: 3, ops: [set(2, "#0000FF", "bob")] });
+        return t;
+    }
+
+    it("should show the canvas after each frame with who set each voxel and when", () => {
+        const t = timeline();
+
+        expect(t.length).toBe(3);
+        expect(t.seek(0).size).toBe(0);
+        expect([...t.seek(1)]).toEqual([
+            [1, { color: "#FF0000", by: "alice", born: 0 }],
+            [2, { color: "#00FF00", by: "alice", born: 0 }],
+        ]);
+        expect([...t.seek(3)]).toEqual([[2, { color: "#0000FF", by: "bob", born: 2 }]]);
+    });
+
+    it("should rebuild when seeking backwards", () => {
+        const t = timeline();
+        t.seek(3);
+
+        expect([...t.seek(1).keys()]).toEqual([1, 2]);
+    });
+
+    it("should clamp seeks to the frames received so far", () => {
+        const t = timeline();
+
+        expect(t.seek(10).get(2)?.born).toBe(2);
+        t.push({ version: 4, ops: [set(3, "#FFFFFF")] });
+        expect(t.seek(10).get(3)).toEqual({ color: "#FFFFFF", by: undefined, born: 3 });
+    });
+});
+
+describe("replay links", () => {
+    it("should round-trip through the URL", () => {
+        const link = replayLink("https://example.com", "my-room", {
+            frame: 12.7,
+            speed: 25,
+            tint: true,
+        });
+
+        expect(link).toBe("https://example.com/room/my-room?replay=1&t=12&speed=25&tint=1");
+        expect(parseReplayParams(new URL(link).search)).toEqual({
+            frame: 12,
+            speed: 25,
+            tint: true,
+        });
+    });
+
+    it("should ignore URLs without a replay and fall back on bad values", () => {
+        expect(parseReplayParams("")).toBeNull();
+        expect(parseReplayParams("?replay=1&t=-3&speed=7")).toEqual({
+            frame: 0,
+            speed: 10,
+            tint: false,
+        });
+    });
+});
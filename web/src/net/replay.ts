@@ -0,0 +1,100 @@
+import type { ColorHex, ReplayFrame, VoxelKey } from "../../../worker/src/schema.js";
+
+export const REPLAY_SPEEDS = [1, 5, 10, 25, 50, 100]; // frames per second
+export const DEFAULT_REPLAY_SPEED = 10;
+
+// A voxel as it stands at some point of the replay
+export interface ReplayVoxel {
+    color: ColorHex;
+    by?: string; // unknown for voxels that came from a snapshot frame
+    born: number; // index of the frame that last set it
+}
+
+// Fetches a room's history, handing over each frame as soon as its line arrives.
+// Works the same for live and frozen rooms; the worker serves both.
+export async function streamReplay(
+    roomSlug: string,
+    onFrame: (frame: ReplayFrame) => void,
+    signal?: AbortSignal
+) {
+    const res = await fetch(`/api/room/${roomSlug}/replay`, { signal });
+    if (!res.ok || !res.body) throw new Error(`replay: ${res.status}`);
+
+    const reader = res.body.getReader();
+    const decoder = new TextDecoder();
+    let buffered = "";
+    for (;;) {
+        const { value, done } = await reader.read();
+        buffered += decoder.decode(value, { stream: !done });
+        const lines = buffered.split("\n");
+        buffered = lines.pop() ?? "";
+        for (const line of lines) if (line) onFrame(JSON.parse(line));
+        if (done) break;
+    }
+    if (buffered) onFrame(JSON.parse(buffered));
+}
+
+// Frames received so far and the canvas after any number of them. Seeking
+// forward applies just the frames in between; seeking back replays from the start.
+export class ReplayTimeline {
+    private frames: ReplayFrame[] = [];
+    private voxels = new Map<VoxelKey, ReplayVoxel>();
+    private position = 0; // frames applied to `voxels`
+
+    push(frame: ReplayFrame) {
+        this.frames.push(frame);
+    }
+
+    get length(): number {
+        return this.frames.length;
+    }
+
+    // The canvas after the first `position` frames
+    seek(position: number): ReadonlyMap<VoxelKey, ReplayVoxel> {
+        const target = Math.max(0, Math.min(this.frames.length, Math.floor(position)));
+        if (target < this.position) {
+            this.voxels.clear();
+            this.position = 0;
+        }
+        for (; this.position < target; this.position++) {
+            for (const op of this.frames[this.position].ops) {
+                if (op.color === null) {
+                    this.voxels.delete(op.k);
+                } else {
+                    this.voxels.set(op.k, { color: op.color, by: op.by, born: this.position });
+                }
+            }
+        }
+        return this.voxels;
+    }
+}
+
+export interface ReplayParams {
+    frame: number;
+    speed: number;
+    tint: boolean;
+}
+
+// Shareable link that opens the room straight into its replay
+export function replayLink(origin: string, roomSlug: string, params: ReplayParams): string {
+    const search = new URLSearchParams({
+        replay: "1",
+        t: String(Math.floor(params.frame)),
+        speed: String(params.speed),
+    });
+    if (params.tint) search.set("tint", "1");
+    return `${origin}/room/${roomSlug}?${search}`;
+}
+
+// The replay a room URL asks for, or null if it doesn't
+export function parseReplayParams(search: string): ReplayParams | null {
+    const params = new URLSearchParams(search);
+    if (params.get("replay") !== "1") return null;
+    const frame = Number(params.get("t"));
+    const speed = Number(params.get("speed"));
+    return {
+        frame: Number.isInteger(frame) && frame > 0 ? frame : 0,
+        speed: REPLAY_SPEEDS.includes(speed) ? speed : DEFAULT_REPLAY_SPEED,
+        tint: params.get("tint") === "1",
+    };
+}
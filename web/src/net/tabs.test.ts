@@ -0,0 +1,101 @@
+import { describe, expect, it, vi } from "vitest";
+import type { OpSetVoxel } from "../../../worker/src/schema.js";
+import { TabCoordinator, type TabEnvironment, type TabHandlers, type TabMsg } from "./tabs.js";
+
+// In-process stand-ins for BroadcastChannel and Web Locks. Messages reach every
+// other open channel; the lock goes to waiting requests in order as holders release.
+function fakeBrowser() {
+    const channels = new Set<TabEnvironment["channel"]>();
+    const waiting: Array<() => Promise<void>> = [];
+    let held = false;
+
+    const grantNext = () => {
+        const next = waiting.shift();
+        held = next !== undefined;
+        next?.().then(grantNext);
+    };
+
+    const locks: TabEnvironment["locks"] = {
+        request: ((_name: string, callback: () => Promise<void>) => {
+            waiting.push(callback);
+            if (!held) {
+                held = true;
+                queueMicrotask(grantNext);
+            }
+            return Promise.resolve();
+        }) as TabEnvironment["locks"]["request"],
+    };
+
+    return (): TabEnvironment => {
+        const channel: TabEnvironment["channel"] = {
+            onmessage: null,
+            postMessage(msg: TabMsg) {
+                for (const other of channels) {
+                    if (other !== channel) other.onmessage?.({ data: msg } as MessageEvent<TabMsg>);
+                }
+            },
+            close() {
+                channels.delete(channel);
+            },
+        };
+        channels.add(channel);
+        return { channel, locks };
+    };
+}
+
+function handlers(): TabHandlers {
+    return { onOps: vi.fn(), onAck: vi.fn(), onNack: vi.fn(), onLeaderChange: vi.fn() };
+}
+
+const op: OpSetVoxel = { type: "set", k: 1, color: "#FF0000", t: 1, id: "a" };
+
+describe("TabCoordinator", () => {
+    it("should lead on its own without BroadcastChannel or Web Locks", () => {
+        const tab = new TabCoordinator("room", handlers(), null);
+
+        expect(tab.isLeader).toBe(true);
+        expect(tab.shared).toBe(false);
+    });
+
+    it("should elect exactly one leader among tabs", async () => {
+        const env = fakeBrowser();
+        const first = new TabCoordinator("room", handlers(), env());
+        const second = new TabCoordinator("room", handlers(), env());
+        await Promise.resolve();
+
+        expect(first.isLeader).toBe(true);
+        expect(second.isLeader).toBe(false);
+    });
+
+    it("should share ops and results with the other tabs", async () => {
+        const env = fakeBrowser();
+        const first = new TabCoordinator("room", handlers(), env());
+        const h = handlers();
+        new TabCoordinator("room", h, env());
+
+        first.post({ type: "ops", ops: [op] });
+        first.post({ type: "ops", ops: [op], txn: "t" });
+        first.post({ type: "ack", ids: ["a"], version: 3 });
+        first.post({ type: "nack", ids: ["b"], reason: "stale" });
+
+        expect(h.onOps).toHaveBeenCalledWith([op], undefined);
+        expect(h.onOps).toHaveBeenCalledWith([op], "t");
+        expect(h.onAck).toHaveBeenCalledWith(["a"], 3);
+        expect(h.onNack).toHaveBeenCalledWith(["b"], "stale");
+    });
+
+    it("should hand leadership over when the leader tab closes", async () => {
+        const env = fakeBrowser();
+        const first = new TabCoordinator("room", handlers(), env());
+        const h = handlers();
+        const second = new TabCoordinator("room", h, env());
+        await Promise.resolve();
+        vi.mocked(h.onLeaderChange).mockClear();
+
+        first.close();
+        await new Promise((resolve) => setTimeout(resolve, 0));
+
+        expect(second.isLeader).toBe(true);
+        expect(h.onLeaderChange).toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,94 @@
+import type { OpSetVoxel } from "../../../worker/src/schema.js";
+
+export type TabMsg =
+    | { type: "ops"; ops: OpSetVoxel[]; txn?: string } // a tab's new local ops; txn: sent as that transaction
+    | { type: "ack"; ids: string[]; version: number } // relayed from the leader's socket
+    | { type: "nack"; ids: string[]; reason: string }
+    | { type: "leader"; from: string }; // a tab took over the outbound queue
+
+export interface TabHandlers {
+    onOps: (ops: OpSetVoxel[], txn?: string) => void; // another tab's local ops
+    onAck: (ids: string[], version: number) => void;
+    onNack: (ids: string[], reason: string) => void;
+    onLeaderChange: () => void; // called on every tab, including the new leader
+}
+
+export interface TabEnvironment {
+    channel: Pick<BroadcastChannel, "postMessage" | "close"> & {
+        onmessage: ((ev: MessageEvent<TabMsg>) => void) | null;
+    };
+    locks: Pick<LockManager, "request">;
+}
+
+function browserEnvironment(name: string): TabEnvironment | null {
+    if (typeof BroadcastChannel === "undefined" || !navigator.locks) return null;
+    return { channel: new BroadcastChannel(name), locks: navigator.locks };
+}
+
+// Coordinates the tabs a player has open on the same room. They share optimistic
+// state by broadcasting their local ops, and one of them — whichever holds the
+// Web Lock — owns the outbound queue so the room sees a single stream of writes
+// from the player. Without BroadcastChannel or Web Locks every tab stands alone.
+export class TabCoordinator {
+    readonly tabId = Math.random().toString(36).slice(2, 10);
+    isLeader = false;
+    private env: TabEnvironment | null;
+    private release?: () => void;
+
+    constructor(
+        name: string,
+        private handlers: TabHandlers,
+        env: TabEnvironment | null = browserEnvironment(name)
+    ) {
+        this.env = env;
+        if (!env) {
+            this.isLeader = true;
+            return;
+        }
+
+        env.channel.onmessage = (ev) => this.receive(ev.data);
+        // Held until this tab closes; the next waiting tab then takes over
+        env.locks
+            .request(
+                name,
+                () =>
+                    new Promise<void>((resolve) => {
+                        this.release = resolve;
+                        this.isLeader = true;
+                        this.post({ type: "leader", from: this.tabId });
+                        handlers.onLeaderChange();
+                    })
+            )
+            .catch(() => {});
+    }
+
+    get shared(): boolean {
+        return this.env !== null;
+    }
+
+    post(msg: TabMsg) {
+        this.env?.channel.postMessage(msg);
+    }
+
+    close() {
+        this.release?.();
+        this.env?.channel.close();
+    }
+
+    private receive(msg: TabMsg) {
+        switch (msg.type) {
+            case "ops":
+                this.handlers.onOps(msg.ops, msg.txn);
+                break;
+            case "ack":
+                this.handlers.onAck(msg.ids, msg.version);
+                break;
+            case "nack":
+                this.handlers.onNack(msg.ids, msg.reason);
+                break;
+            case "leader":
+                this.handlers.onLeaderChange();
+                break;
+        }
+    }
+}
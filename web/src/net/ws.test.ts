@@ -1,6 +1,7 @@
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { encodeServerMsg, WIRE_VERSION } from "../../../worker/src/wire.js";
 import type { ApplyHandler, PresenceHandler } from "./ws.js";
-import { connect } from "./ws.js";
+import { backoffDelay, connect } from "./ws.js";
 
 // Mock WebSocket
 class MockWebSocket {
@@ -40,13 +41,27 @@ class MockWebSocket {
     }
 
     // Helper to simulate receiving messages
-    simulateMessage(data: string) {
+    simulateMessage(data: string | ArrayBuffer) {
         if (this.onmessage) {
             this.onmessage(new MessageEvent("message", { data }));
         }
     }
 }
 
+// Stands in for the WebSocket constructor, with the readyState constants ws.ts
+// compares against
+function stubWebSocket(factory: object) {
+    vi.stubGlobal(
+        "WebSocket",
+        Object.assign(factory, {
+            CONNECTING: MockWebSocket.CONNECTING,
+            OPEN: MockWebSocket.OPEN,
+            CLOSING: MockWebSocket.CLOSING,
+            CLOSED: MockWebSocket.CLOSED,
+        })
+    );
+}
+
 // Mock localStorage
 const mockLocalStorage = {
     store: {} as Record<string, string>,
@@ -65,24 +80,15 @@ const mockLocalStorage = {
 describe("WebSocket Connection", () => {
     beforeEach(() => {
         // Mock global objects
-        global.WebSocket = MockWebSocket as typeof WebSocket;
-        // Ensure WebSocket constants are available globally
-        // biome-ignore lint/suspicious/noExplicitAny: Required for test mocking
-        (global.WebSocket as any).OPEN = MockWebSocket.OPEN;
-        // biome-ignore lint/suspicious/noExplicitAny: Required for test mocking
-        (global.WebSocket as any).CLOSED = MockWebSocket.CLOSED;
-        // biome-ignore lint/suspicious/noExplicitAny: Required for test mocking
-        (global.WebSocket as any).CONNECTING = MockWebSocket.CONNECTING;
-        // biome-ignore lint/suspicious/noExplicitAny: Required for test mocking
-        (global.WebSocket as any).CLOSING = MockWebSocket.CLOSING;
-        global.localStorage = mockLocalStorage as Storage;
+        stubWebSocket(MockWebSocket);
+        vi.stubGlobal("localStorage", mockLocalStorage);
 
         // Mock location object
-        global.location = {
+        vi.stubGlobal("location", {
             hostname: "localhost",
             host: "localhost:3000",
             protocol: "http:",
-        } as Location;
+        });
 
         // Clear localStorage mock
         mockLocalStorage.store = {};
@@ -91,6 +97,7 @@ describe("WebSocket Connection", () => {
 
     afterEach(() => {
         vi.restoreAllMocks();
+        vi.unstubAllGlobals();
     });
 
     it("should construct WebSocket with correct URL", () => {
@@ -101,7 +108,7 @@ describe("WebSocket Connection", () => {
         const mockWebSocketConstructor = vi
             .fn()
             .mockImplementation((url) => new MockWebSocket(url));
-        global.WebSocket = mockWebSocketConstructor;
+        stubWebSocket(mockWebSocketConstructor);
 
         connect("test-room", mockOnApply, mockOnWelcome);
 
@@ -122,7 +129,7 @@ describe("WebSocket Connection", () => {
         const sendSpy = vi.spyOn(mockWs, "send");
 
         // Mock the WebSocket constructor to return our mock
-        global.WebSocket = vi.fn().mockImplementation(() => mockWs);
+        stubWebSocket(vi.fn().mockImplementation(() => mockWs));
 
         connect("test-room", mockOnApply, mockOnWelcome);
 
@@ -143,7 +150,7 @@ describe("WebSocket Connection", () => {
         const mockOnWelcome = vi.fn();
 
         const mockWs = new MockWebSocket("ws://test");
-        global.WebSocket = vi.fn().mockImplementation(() => mockWs);
+        stubWebSocket(vi.fn().mockImplementation(() => mockWs));
 
         connect("test-room", mockOnApply, mockOnWelcome);
 
@@ -166,7 +173,7 @@ describe("WebSocket Connection", () => {
         const mockOnWelcome = vi.fn();
 
         const mockWs = new MockWebSocket("ws://test");
-        global.WebSocket = vi.fn().mockImplementation(() => mockWs);
+        stubWebSocket(vi.fn().mockImplementation(() => mockWs));
 
         connect("test-room", mockOnApply, mockOnWelcome);
 
@@ -195,7 +202,7 @@ describe("WebSocket Connection", () => {
         const mockOnPresence: PresenceHandler = vi.fn();
 
         const mockWs = new MockWebSocket("ws://test");
-        global.WebSocket = vi.fn().mockImplementation(() => mockWs);
+        stubWebSocket(vi.fn().mockImplementation(() => mockWs));
 
         connect("test-room", mockOnApply, mockOnWelcome, mockOnPresence);
 
@@ -221,22 +228,20 @@ describe("WebSocket Connection", () => {
 
         const mockWs = new MockWebSocket("ws://test");
         const sendSpy = vi.spyOn(mockWs, "send");
-        global.WebSocket = vi.fn().mockImplementation(() => mockWs);
+        stubWebSocket(vi.fn().mockImplementation(() => mockWs));
         // Add constants after overriding WebSocket constructor
-        // biome-ignore lint/suspicious/noExplicitAny: Required for test mocking
-        (global.WebSocket as any).OPEN = MockWebSocket.OPEN;
-        // biome-ignore lint/suspicious/noExplicitAny: Required for test mocking
-        (global.WebSocket as any).CLOSED = MockWebSocket.CLOSED;
-        // biome-ignore lint/suspicious/noExplicitAny: Required for test mocking
-        (global.WebSocket as any).CONNECTING = MockWebSocket.CONNECTING;
-        // biome-ignore lint/suspicious/noExplicitAny: Required for test mocking
-        (global.WebSocket as any).CLOSING = MockWebSocket.CLOSING;
 
         const { setOps, sendPresence } = connect("test-room", mockOnApply, mockOnWelcome);
 
         expect(typeof setOps).toBe("function");
         expect(typeof sendPresence).toBe("function");
 
+        // Ops are queued until the socket is open and the room has welcomed us
+        mockWs.readyState = MockWebSocket.OPEN;
+        mockWs.simulateMessage(
+            JSON.stringify({ type: "welcome", playerId: "p1", state: [], version: 1 })
+        );
+
         // Test setOps
         const testOps = [
             {
@@ -261,11 +266,11 @@ describe("WebSocket Connection", () => {
 
     it("should use production host in production", () => {
         // Mock production environment
-        global.location = {
+        vi.stubGlobal("location", {
             hostname: "example.com",
             host: "example.com",
             protocol: "https:",
-        } as Location;
+        });
 
         const mockOnApply: ApplyHandler = vi.fn();
         const mockOnWelcome = vi.fn();
@@ -274,7 +279,7 @@ describe("WebSocket Connection", () => {
         const mockWebSocketConstructor = vi
             .fn()
             .mockImplementation((url) => new MockWebSocket(url));
-        global.WebSocket = mockWebSocketConstructor;
+        stubWebSocket(mockWebSocketConstructor);
 
         connect("test-room", mockOnApply, mockOnWelcome);
 
@@ -290,7 +295,7 @@ describe("WebSocket Connection", () => {
         const mockWs = new MockWebSocket("ws://test");
         const sendSpy = vi.spyOn(mockWs, "send");
         mockWs.readyState = MockWebSocket.CONNECTING; // Not open
-        global.WebSocket = vi.fn().mockImplementation(() => mockWs);
+        stubWebSocket(vi.fn().mockImplementation(() => mockWs));
 
         const { sendPresence } = connect("test-room", mockOnApply, mockOnWelcome);
 
@@ -301,4 +306,415 @@ describe("WebSocket Connection", () => {
             JSON.stringify({ type: "presence", cursor: [5, 10, 15] })
         );
     });
+
+    describe("reconnection", () => {
+        beforeEach(() => {
+            vi.useFakeTimers();
+        });
+
+        afterEach(() => {
+            vi.useRealTimers();
+        });
+
+        it("should back off exponentially with jitter up to a cap", () => {
+            expect(backoffDelay(0, () => 0)).toBe(250);
+            expect(backoffDelay(0, () => 1)).toBe(500);
+            expect(backoffDelay(3, () => 0)).toBe(2000);
+            expect(backoffDelay(3, () => 1)).toBe(4000);
+            expect(backoffDelay(20, () => 1)).toBe(15000);
+        });
+
+        it("should reopen the socket and resume from the last seen version", () => {
+            const sockets: MockWebSocket[] = [];
+            stubWebSocket(
+                vi.fn().mockImplementation((url) => {
+                    const socket = new MockWebSocket(url);
+                    sockets.push(socket);
+                    return socket;
+                })
+            );
+            vi.spyOn(Math, "random").mockReturnValue(1); // longest backoff: 500ms
+            const onApply: ApplyHandler = vi.fn();
+            const onStatus = vi.fn();
+
+            connect("test-room", onApply, vi.fn(), undefined, onStatus);
+            expect(onStatus).toHaveBeenLastCalledWith("connecting");
+
+            vi.advanceTimersByTime(10);
+            sockets[0].simulateMessage(
+                JSON.stringify({ type: "welcome", playerId: "p1", state: [], version: 7 })
+            );
+            expect(onStatus).toHaveBeenLastCalledWith("live");
+
+            sockets[0].close();
+            expect(onStatus).toHaveBeenLastCalledWith("reconnecting");
+            expect(sockets).toHaveLength(1);
+
+            vi.advanceTimersByTime(500);
+            expect(sockets).toHaveLength(2);
+
+            const sendSpy = vi.spyOn(sockets[1], "send");
+            vi.advanceTimersByTime(10);
+            expect(sendSpy).toHaveBeenCalledWith(expect.stringMatching(/"since":7/));
+
+            const missed = [{ type: "set", k: 1, color: "#00FF00", t: 9 }];
+            sockets[1].simulateMessage(
+                JSON.stringify({ type: "catchup", playerId: "p1", ops: missed, version: 8 })
+            );
+            expect(onApply).toHaveBeenCalledWith(missed, 8);
+            expect(onStatus).toHaveBeenLastCalledWith("live");
+        });
+
+        it("should not reconnect after close() is called", () => {
+            const socketFactory = vi.fn().mockImplementation((url) => new MockWebSocket(url));
+            stubWebSocket(socketFactory);
+
+            const { close } = connect("test-room", vi.fn(), vi.fn());
+            close();
+            vi.advanceTimersByTime(60000);
+
+            expect(socketFactory).toHaveBeenCalledTimes(1);
+        });
+
+        it("should not reconnect to a static room", () => {
+            const mockWs = new MockWebSocket("ws://test");
+            const socketFactory = vi.fn().mockImplementation(() => mockWs);
+            stubWebSocket(socketFactory);
+
+            connect("test-room", vi.fn(), vi.fn());
+            mockWs.simulateMessage(
+                JSON.stringify({
+                    type: "welcome",
+                    playerId: "static-viewer",
+                    state: [],
+                    version: 3,
+                    isStatic: true,
+                })
+            );
+            mockWs.close();
+            vi.advanceTimersByTime(60000);
+
+            expect(socketFactory).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    describe("acknowledgements", () => {
+        afterEach(() => {
+            vi.useRealTimers();
+        });
+
+        it("should report acked and nacked op ids", () => {
+            const mockWs = new MockWebSocket("ws://test");
+            stubWebSocket(vi.fn().mockImplementation(() => mockWs));
+            const onAck = vi.fn();
+            const onNack = vi.fn();
+
+            connect("test-room", vi.fn(), vi.fn(), undefined, undefined, { onAck, onNack });
+            mockWs.simulateMessage(JSON.stringify({ type: "ack", ids: ["a"], version: 4 }));
+            mockWs.simulateMessage(JSON.stringify({ type: "nack", ids: ["b"], reason: "stale" }));
+
+            expect(onAck).toHaveBeenCalledWith(["a"], 4);
+            expect(onNack).toHaveBeenCalledWith(["b"], "stale");
+        });
+
+        it("should hand on the ticket the server sends this connection", () => {
+            const mockWs = new MockWebSocket("ws://test");
+            stubWebSocket(vi.fn().mockImplementation(() => mockWs));
+            const onTicket = vi.fn();
+
+            connect("test-room", vi.fn(), vi.fn(), undefined, undefined, { onTicket });
+            mockWs.simulateMessage(JSON.stringify({ type: "ticket", ticket: "t-1" }));
+
+            expect(onTicket).toHaveBeenCalledWith("t-1");
+        });
+
+        it("should roll back ops carried by a refused message", () => {
+            const mockWs = new MockWebSocket("ws://test");
+            stubWebSocket(vi.fn().mockImplementation(() => mockWs));
+            const onNack = vi.fn();
+            const onError = vi.fn();
+
+            connect("test-room", vi.fn(), vi.fn(), undefined, undefined, { onNack, onError });
+            mockWs.simulateMessage(
+                JSON.stringify({
+                    type: "error",
+                    code: "bad_field",
+                    message: "ops[0].color must be #RRGGBB or null",
+                    ids: ["a"],
+                })
+            );
+
+            expect(onNack).toHaveBeenCalledWith(["a"], "invalid");
+            expect(onError).toHaveBeenCalledWith(
+                "bad_field",
+                "ops[0].color must be #RRGGBB or null"
+            );
+        });
+
+        it("should resend unanswered ops after reconnecting", () => {
+            vi.useFakeTimers();
+            vi.spyOn(Math, "random").mockReturnValue(1); // longest backoff: 500ms
+            const sockets: MockWebSocket[] = [];
+            stubWebSocket(
+                vi.fn().mockImplementation((url) => {
+                    const socket = new MockWebSocket(url);
+                    sockets.push(socket);
+                    return socket;
+                })
+            );
+
+            const { setOps } = connect("test-room", vi.fn(), vi.fn());
+            vi.advanceTimersByTime(10);
+            sockets[0].simulateMessage(
+                JSON.stringify({ type: "welcome", playerId: "p1", state: [], version: 1 })
+            );
+            const answered = { type: "set" as const, k: 1, color: "#FF0000", t: 1, id: "a" };
+            const lost = { type: "set" as const, k: 2, color: "#FF0000", t: 1, id: "b" };
+            setOps([answered, lost]);
+
+            sockets[0].close();
+            vi.advanceTimersByTime(510);
+            const sendSpy = vi.spyOn(sockets[1], "send");
+            sockets[1].simulateMessage(
+                JSON.stringify({
+                    type: "catchup",
+                    playerId: "p1",
+                    ops: [{ ...answered, t: 5 }],
+                    version: 2,
+                })
+            );
+
+            expect(sendSpy).toHaveBeenCalledWith(JSON.stringify({ type: "set", ops: [lost] }));
+            vi.useRealTimers();
+        });
+    });
+
+    describe("outbound queue", () => {
+        let mockWs: MockWebSocket;
+        let sendSpy: ReturnType<typeof vi.spyOn>;
+
+        const setOp = (k: number, id: string, color = "#FF0000") => ({
+            type: "set" as const,
+            k,
+            color,
+            t: 1,
+            id,
+        });
+        const sentBatches = () =>
+            sendSpy.mock.calls
+                .map(([data]) => JSON.parse(data as string))
+                .filter((msg) => msg.type === "set")
+                .map((msg) => msg.ops);
+
+        function connectLive(options = {}) {
+            mockWs = new MockWebSocket("ws://test");
+            sendSpy = vi.spyOn(mockWs, "send");
+            stubWebSocket(vi.fn().mockImplementation(() => mockWs));
+            const connection = connect(
+                "test-room",
+                vi.fn(),
+                vi.fn(),
+                undefined,
+                undefined,
+                options
+            );
+            mockWs.readyState = MockWebSocket.OPEN;
+            mockWs.simulateMessage(
+                JSON.stringify({ type: "welcome", playerId: "p1", state: [], version: 1 })
+            );
+            return connection;
+        }
+
+        beforeEach(() => {
+            vi.useFakeTimers();
+        });
+
+        afterEach(() => {
+            vi.useRealTimers();
+        });
+
+        it("should hold ops until the room has welcomed us", () => {
+            mockWs = new MockWebSocket("ws://test");
+            sendSpy = vi.spyOn(mockWs, "send");
+            stubWebSocket(vi.fn().mockImplementation(() => mockWs));
+
+            const { setOps } = connect("test-room", vi.fn(), vi.fn());
+            setOps([setOp(1, "a")]);
+            expect(sentBatches()).toEqual([]);
+
+            mockWs.readyState = MockWebSocket.OPEN;
+            mockWs.simulateMessage(
+                JSON.stringify({ type: "welcome", playerId: "p1", state: [], version: 1 })
+            );
+            expect(sentBatches()).toEqual([[setOp(1, "a")]]);
+        });
+
+        it("should pace a long stroke to the server's token bucket", () => {
+            const { setOps } = connectLive();
+            setOps(Array.from({ length: 100 }, (_, i) => setOp(i, `op${i}`)));
+
+            expect(sentBatches().flat()).toHaveLength(80);
+
+            vi.advanceTimersByTime(50 * 20);
+            expect(sentBatches().flat()).toHaveLength(100);
+            expect(
+                new Set(
+                    sentBatches()
+                        .flat()
+                        .map((op) => op.k)
+                ).size
+            ).toBe(100);
+        });
+
+        it("should coalesce queued writes to the same voxel", () => {
+            const onNack = vi.fn();
+            const { setOps } = connectLive({ onNack });
+            setOps(Array.from({ length: 80 }, (_, i) => setOp(i, `op${i}`)));
+
+            setOps([setOp(500, "first", "#00FF00")]);
+            setOps([setOp(500, "second", "#0000FF")]);
+            expect(onNack).toHaveBeenCalledWith(["first"], "superseded");
+
+            vi.advanceTimersByTime(50);
+            expect(sentBatches().pop()).toEqual([setOp(500, "second", "#0000FF")]);
+        });
+
+        it("should send atomic ops as the parts of one transaction", () => {
+            const { setOps } = connectLive();
+            setOps(
+                Array.from({ length: 200 }, (_, i) => setOp(i, `op${i}`)),
+                true
+            );
+            vi.advanceTimersByTime(1);
+
+            const sets = sendSpy.mock.calls
+                .map(([data]) => JSON.parse(data as string))
+                .filter((msg) => msg.type === "set");
+            expect(sets.map((msg) => msg.ops.length)).toEqual([80, 80, 40]);
+            expect(new Set(sets.map((msg) => msg.txn.id)).size).toBe(1);
+            expect(sets.map((msg) => [msg.txn.part, msg.txn.last])).toEqual([
+                [0, false],
+                [1, false],
+                [2, true],
+            ]);
+        });
+
+        it("should give up on the rest of a transaction the room refused part of", () => {
+            const onNack = vi.fn();
+            const { setOps } = connectLive({ onNack });
+            setOps(
+                Array.from({ length: 100 }, (_, i) => setOp(i, `op${i}`)),
+                true
+            );
+            vi.advanceTimersByTime(1);
+
+            const ids = Array.from({ length: 20 }, (_, i) => `op${80 + i}`);
+            mockWs.simulateMessage(
+                JSON.stringify({ type: "error", code: "incomplete", message: "lost", ids })
+            );
+
+            expect(onNack).toHaveBeenCalledWith(ids, "invalid");
+            expect(onNack.mock.calls[1][1]).toBe("invalid");
+            expect(onNack.mock.calls[1][0]).toHaveLength(80);
+        });
+
+        it("should re-send a rejected batch after the advertised delay", () => {
+            const onNack = vi.fn();
+            const { setOps } = connectLive({ onNack });
+            setOps([setOp(1, "a"), setOp(2, "b")]);
+            sendSpy.mockClear();
+
+            mockWs.simulateMessage(
+                JSON.stringify({
+                    type: "reject",
+                    reason: "rate",
+                    retryAfterMs: 1000,
+                    ids: ["a", "b"],
+                })
+            );
+            vi.advanceTimersByTime(999);
+            expect(sentBatches()).toEqual([]);
+
+            vi.advanceTimersByTime(51);
+            expect(sentBatches().flat()).toContainEqual(setOp(1, "a"));
+            vi.advanceTimersByTime(50);
+            expect(sentBatches().flat()).toEqual([setOp(1, "a"), setOp(2, "b")]);
+            expect(onNack).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("clock sync", () => {
+        it("should stamp local ops after the room's lamport clock", () => {
+            const mockWs = new MockWebSocket("ws://test");
+            stubWebSocket(vi.fn().mockImplementation(() => mockWs));
+
+            const { tick } = connect("test-room", vi.fn(), vi.fn());
+            mockWs.simulateMessage(
+                JSON.stringify({
+                    type: "welcome",
+                    playerId: "p1",
+                    state: [],
+                    version: 1,
+                    lamport: 500,
+                    now: Date.now(),
+                })
+            );
+            expect(tick()).toBe(501);
+
+            mockWs.simulateMessage(
+                JSON.stringify({ type: "apply", ops: [], version: 2, lamport: 900 })
+            );
+            expect(tick()).toBe(901);
+        });
+    });
+
+    describe("binary protocol", () => {
+        const binary = (msg: Parameters<typeof encodeServerMsg>[0]) =>
+            (encodeServerMsg(msg) as Uint8Array).slice().buffer;
+
+        it("should offer the binary protocol in hello", async () => {
+            const mockWs = new MockWebSocket("ws://test");
+            const sendSpy = vi.spyOn(mockWs, "send");
+            stubWebSocket(vi.fn().mockImplementation(() => mockWs));
+
+            connect("test-room", vi.fn(), vi.fn());
+            await new Promise((resolve) => setTimeout(resolve, 20));
+
+            expect(JSON.parse(sendSpy.mock.calls[0][0] as string).wire).toBe(WIRE_VERSION);
+        });
+
+        it("should decode binary frames alongside JSON ones", () => {
+            // Keeps the socket's simulated open from firing after the test run ends
+            vi.useFakeTimers();
+            const mockWs = new MockWebSocket("ws://test");
+            stubWebSocket(vi.fn().mockImplementation(() => mockWs));
+            const onApply = vi.fn();
+            const onWelcome = vi.fn();
+            const onAck = vi.fn();
+
+            connect("test-room", onApply, onWelcome, undefined, undefined, { onAck });
+            mockWs.simulateMessage(
+                binary({
+                    type: "welcome",
+                    playerId: "p1",
+                    sessionId: "s1",
+                    state: [[1, "#FF0000", 3]],
+                    dims: [20, 20, 20],
+                    version: 1,
+                    lamport: 3,
+                    now: Date.now(),
+                })
+            );
+            const op = { type: "set" as const, k: 2, color: "#00FF00", t: 4, id: "x" };
+            mockWs.simulateMessage(binary({ type: "apply", ops: [op], version: 2, lamport: 4 }));
+            mockWs.simulateMessage(JSON.stringify({ type: "ack", ids: ["x"], version: 2 }));
+
+            expect(onWelcome).toHaveBeenCalledWith(
+                expect.objectContaining({ sessionId: "s1", state: [[1, "#FF0000", 3]] })
+            );
+            expect(onApply).toHaveBeenCalledWith([op], 2);
+            expect(onAck).toHaveBeenCalledWith(["x"], 2);
+            vi.useRealTimers();
+        });
+    });
 });
@@ -1,16 +1,51 @@
-import type { OpSetVoxel, PackedState } from "../../worker/src/schema.js";
+import type {
+    Dims,
+    ErrorCode,
+    OpSetVoxel,
+    PackedState,
+    PlayerPresence,
+    RoomClock,
+    ServerMsg,
+} from "../../../worker/src/schema.js";
+import { decodeServerMsg, WIRE_VERSION } from "../../../worker/src/wire.js";
+import { LamportClock } from "./clock.js";
+import { createOpId } from "./pending.js";
+import { OutboundQueue } from "./queue.js";
+import { TabCoordinator } from "./tabs.js";
 
 export type ApplyHandler = (ops: OpSetVoxel[], version: number) => void;
-export type PresenceHandler = (
-    players: Array<{ playerId: string; cursor?: [number, number, number] }>
-) => void;
+export type PresenceHandler = (players: PlayerPresence[]) => void;
+export type ConnectionStatus = "connecting" | "live" | "reconnecting" | "offline";
+export type StatusHandler = (status: ConnectionStatus) => void;
 
-export function connect(
-    slug: string,
-    onApply: ApplyHandler,
-    onWelcome: (state: { state: PackedState; playerId: string; version: number }) => void,
-    onPresence?: PresenceHandler
-) {
+export interface ConnectOptions {
+    onAck?: (ids: string[], version: number) => void;
+    // Ops the server will never apply, including ones replaced by a newer queued write
+    // to the same voxel before they were sent ("superseded")
+    onNack?: (ids: string[], reason: string) => void;
+    // A message the server refused as malformed: a bug on our side rather than a conflict
+    onError?: (code: ErrorCode, message: string) => void;
+    // Local ops from this player's other tabs, to show optimistically
+    onRemoteOps?: (ops: OpSetVoxel[]) => void;
+    // The tab owning the outbound queue changed. Ops other tabs shared before now
+    // should be dropped; the tabs that made them share them again.
+    onTabsReset?: () => void;
+    // This connection's pass for HTTP writes to the room, such as imports
+    onTicket?: (ticket: string) => void;
+}
+
+const RECONNECT_BASE_MS = 500;
+const RECONNECT_MAX_MS = 15000;
+const OFFLINE_AFTER_ATTEMPTS = 5; // report "offline" once this many reconnects have failed
+
+// Exponential backoff with "equal jitter": half the delay is fixed, half is random,
+// so a room full of clients dropped at once doesn't reconnect in lockstep
+export function backoffDelay(attempt: number, random: () => number = Math.random): number {
+    const delay = Math.min(RECONNECT_MAX_MS, RECONNECT_BASE_MS * 2 ** attempt);
+    return delay / 2 + random() * (delay / 2);
+}
+
+function socketUrl(slug: string): string {
     // In development, connect directly to the worker port
     // In production, connect to the deployed worker
     let workerHost: string;
@@ -22,33 +57,248 @@ export function connect(
         // For custom domains, assume the worker is on the same domain with /api
         workerHost = location.host;
     }
-    const ws = new WebSocket(
-        `${location.protocol === "https:" ? "wss" : "ws"}://${workerHost}/api/room/${slug}/ws`
-    );
-    const playerId = localStorage.getItem("playerId") || undefined;
-
-    ws.onopen = () =>
-        ws.send(
-            JSON.stringify({
-                type: "hello",
-                playerId,
-                clientClock: Date.now(),
-            })
-        );
-    ws.onmessage = (ev) => {
-        const msg = JSON.parse(ev.data);
-        if (msg.type === "welcome") {
-            if (msg.playerId) localStorage.setItem("playerId", msg.playerId);
-            onWelcome(msg);
-        } else if (msg.type === "apply") {
-            onApply(msg.ops, msg.version);
-        } else if (msg.type === "presence" && onPresence) {
-            onPresence(msg.players);
+    return `${location.protocol === "https:" ? "wss" : "ws"}://${workerHost}/api/room/${slug}/ws`;
+}
+
+export function connect(
+    slug: string,
+    onApply: ApplyHandler,
+    onWelcome: (state: {
+        state: PackedState;
+        playerId: string;
+        sessionId: string;
+        version: number;
+        dims: Dims;
+    }) => void,
+    onPresence?: PresenceHandler,
+    onStatus?: StatusHandler,
+    options: ConnectOptions = {}
+) {
+    let ws: WebSocket;
+    let version: number | undefined; // last version seen, sent as hello.since on reconnect
+    let attempt = 0;
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+    let closed = false; // set by close() or a static room; stops reconnecting
+    let live = false; // welcome or catchup received on the current socket
+    const queue = new OutboundQueue();
+    let flushTimer: ReturnType<typeof setTimeout> | undefined;
+    const lamport = new LamportClock();
+    const own = new Map<string, OpSetVoxel>(); // this tab's ops still awaiting a result
+    const ownTxns = new Map<string, string>(); // op id -> the transaction it went out in
+
+    // Only the leader tab feeds the outbound queue; the others hand it their ops
+    const tabs = new TabCoordinator(`ourcubes:${slug}`, {
+        onOps: (ops, txn) => {
+            options.onRemoteOps?.(ops);
+            if (tabs.isLeader) enqueue(ops, txn);
+        },
+        onAck: (ids, ackVersion) => {
+            forgetOwn(ids);
+            options.onAck?.(ids, ackVersion);
+        },
+        onNack: (ids, reason) => {
+            forgetOwn(ids);
+            options.onNack?.(ids, reason);
+        },
+        onLeaderChange: () => {
+            // Whatever the old leader still had queued is gone with it
+            options.onTabsReset?.();
+            // Shared again as they were made: loose, or as one transaction each
+            const batches = new Map<string | undefined, OpSetVoxel[]>();
+            for (const [id, op] of own) {
+                const txn = ownTxns.get(id);
+                batches.set(txn, [...(batches.get(txn) ?? []), op]);
+            }
+            for (const [txn, ops] of batches) share(ops, txn);
+        },
+    });
+
+    const setStatus = (status: ConnectionStatus) => onStatus?.(status);
+
+    function open() {
+        ws = new WebSocket(socketUrl(slug));
+        ws.binaryType = "arraybuffer";
+
+        ws.onopen = () =>
+            ws.send(
+                JSON.stringify({
+                    type: "hello",
+                    playerId: localStorage.getItem("playerId") || undefined,
+                    clientClock: Date.now(),
+                    since: version,
+                    wire: WIRE_VERSION,
+                })
+            );
+        // Bulk messages arrive binary once hello.wire is seen; the rest stay JSON
+        ws.onmessage = (ev) =>
+            handleMessage(
+                typeof ev.data === "string"
+                    ? JSON.parse(ev.data)
+                    : decodeServerMsg(new Uint8Array(ev.data))
+            );
+        ws.onclose = () => {
+            live = false;
+            if (closed) return;
+            scheduleReconnect();
+        };
+    }
+
+    function handleMessage(msg: ServerMsg & { isStatic?: boolean }) {
+        switch (msg.type) {
+            case "welcome":
+                if (msg.isStatic) closed = true;
+                goLive(msg);
+                onWelcome(msg);
+                flush();
+                break;
+            case "catchup":
+                settle(msg.ops);
+                goLive(msg);
+                if (msg.ops.length) onApply(msg.ops, msg.version);
+                flush();
+                break;
+            case "apply":
+                version = msg.version;
+                lamport.observe(msg.lamport);
+                settle(msg.ops);
+                onApply(msg.ops, msg.version);
+                break;
+            case "ack":
+                settleIds(msg.ids);
+                options.onAck?.(msg.ids, msg.version);
+                tabs.post(msg);
+                break;
+            case "nack":
+                nack(msg.ids, msg.reason);
+                break;
+            case "error":
+                // Any ops it carried are dead
+                if (msg.ids?.length) nack(msg.ids, "invalid");
+                options.onError?.(msg.code, msg.message);
+                break;
+            case "reject":
+                // Rate limited: send the same batch again once the server says it may
+                if (msg.ids?.length) {
+                    superseded(queue.retry(msg.ids, msg.retryAfterMs ?? 1000, Date.now()));
+                    flush();
+                }
+                break;
+            case "presence":
+                onPresence?.(msg.players);
+                break;
+            case "ticket":
+                options.onTicket?.(msg.ticket);
+                break;
+        }
+    }
+
+    function goLive(msg: RoomClock & { playerId: string }) {
+        if (msg.playerId) localStorage.setItem("playerId", msg.playerId);
+        attempt = 0;
+        version = msg.version;
+        live = true;
+        lamport.observe(msg.lamport);
+        // Ops sent on a socket that dropped before they were answered may never
+        // have arrived. Anything the catchup confirmed is settled by now; the
+        // rest goes out again on this socket.
+        superseded(queue.requeueInflight(Date.now()));
+        setStatus("live");
+    }
+
+    // Our ops that show up in apply/catchup are confirmed even if the ack was lost
+    function settle(ops: OpSetVoxel[]) {
+        const ids: string[] = [];
+        for (const op of ops) if (op.id) ids.push(op.id);
+        settleIds(ids);
+    }
+
+    function nack(ids: string[], reason: string) {
+        settleIds(ids);
+        options.onNack?.(ids, reason);
+        tabs.post({ type: "nack", ids, reason });
+        // What's left of a transaction can't apply without these
+        const rest = queue.abortTxns(ids);
+        if (rest.length) nack(rest, reason);
+    }
+
+    function settleIds(ids: string[]) {
+        queue.settle(ids);
+        forgetOwn(ids);
+    }
+
+    function forgetOwn(ids: string[]) {
+        for (const id of ids) {
+            own.delete(id);
+            ownTxns.delete(id);
         }
+    }
+
+    function superseded(ids: string[]) {
+        if (!ids.length) return;
+        forgetOwn(ids);
+        options.onNack?.(ids, "superseded");
+        tabs.post({ type: "nack", ids, reason: "superseded" });
+    }
+
+    function enqueue(ops: OpSetVoxel[], txn?: string) {
+        superseded(txn ? queue.enqueueTxn(txn, ops) : queue.enqueue(ops));
+        flush();
+    }
+
+    // Send as much of the queue as the rate limit allows, then wait for more tokens
+    function flush() {
+        clearTimeout(flushTimer);
+        flushTimer = undefined;
+        if (!live || ws.readyState !== WebSocket.OPEN) return;
+
+        const now = Date.now();
+        const part = queue.takeTxnPart(now);
+        const batch = part ? [] : queue.take(now);
+        if (part) ws.send(JSON.stringify({ type: "set", ...part }));
+        if (batch.length) ws.send(JSON.stringify({ type: "set", ops: batch }));
+
+        const delay = queue.nextFlushDelay(now);
+        if (delay !== null) flushTimer = setTimeout(flush, delay);
+    }
+
+    function scheduleReconnect() {
+        clearTimeout(reconnectTimer);
+        const offline = attempt >= OFFLINE_AFTER_ATTEMPTS || !navigator.onLine;
+        setStatus(offline ? "offline" : "reconnecting");
+        reconnectTimer = setTimeout(open, backoffDelay(attempt));
+        attempt++;
+    }
+
+    // Skip the remaining backoff as soon as the browser says we're back online
+    const handleOnline = () => {
+        if (closed || ws.readyState !== WebSocket.CLOSED) return;
+        clearTimeout(reconnectTimer);
+        attempt = 0;
+        setStatus("reconnecting");
+        open();
     };
+    window.addEventListener("online", handleOnline);
+
+    setStatus("connecting");
+    open();
 
-    function setOps(ops: OpSetVoxel[]) {
-        ws.send(JSON.stringify({ type: "set", ops }));
+    // Queue ops for sending; they go out as soon as the socket is live and the
+    // rate limit allows. Other tabs see them straight away, and if this isn't the
+    // leader tab the leader sends them. `atomic` ops go out as one transaction,
+    // which the room applies in a single version: others never see part of it.
+    function setOps(ops: OpSetVoxel[], atomic = false) {
+        const txn = atomic ? createOpId() : undefined;
+        for (const op of ops) {
+            if (!op.id) continue;
+            own.set(op.id, op);
+            if (txn) ownTxns.set(op.id, txn);
+        }
+        share(ops, txn);
+    }
+
+    function share(ops: OpSetVoxel[], txn?: string) {
+        tabs.post({ type: "ops", ops, txn });
+        if (tabs.isLeader) enqueue(ops, txn);
     }
 
     function sendPresence(cursor: [number, number, number] | null) {
@@ -57,5 +307,19 @@ export function connect(
         }
     }
 
-    return { ws, setOps, sendPresence };
+    // Lamport stamp for a new local op
+    function tick(): number {
+        return lamport.tick();
+    }
+
+    function close() {
+        closed = true;
+        clearTimeout(reconnectTimer);
+        clearTimeout(flushTimer);
+        tabs.close();
+        window.removeEventListener("online", handleOnline);
+        ws.close();
+    }
+
+    return { setOps, sendPresence, tick, close };
 }
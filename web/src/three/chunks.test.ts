@@ -0,0 +1,150 @@
+import * as THREE from "three";
+import { describe, expect, it } from "vitest";
+import type { Quad } from "../../../worker/src/mesh.js";
+import { ChunkedVoxels, chunkGeometry, chunkOf, touchedChunks } from "./chunks.js";
+import { key } from "./voxels.js";
+
+function filled(color = "#ff0000") {
+    const voxels = new Map<number, string>();
+    for (let k = 0; k < 8000; k++) voxels.set(k, color);
+    return voxels;
+}
+
+// The chunk meshes a ChunkedVoxels added to its scene
+function chunkMeshes(scene: THREE.Scene) {
+    const meshes = new Map<number, THREE.Mesh>();
+    for (const mesh of scene.children[0].children as THREE.Mesh[]) {
+        meshes.set(mesh.userData.chunk, mesh);
+    }
+    return meshes;
+}
+
+const triangles = (meshes: Map<number, THREE.Mesh>) =>
+    [...meshes.values()].reduce((n, m) => n + (m.geometry.index?.count ?? 0) / 3, 0);
+
+describe("touchedChunks", () => {
+    it("should touch only a voxel's own chunk away from chunk borders", () => {
+        expect([...touchedChunks([key(2, 2, 2)])]).toEqual([chunkOf(key(2, 2, 2))]);
+    });
+
+    it("should touch every chunk around a corner voxel", () => {
+        expect(touchedChunks([key(4, 4, 4)]).size).toBe(8);
+        expect(touchedChunks([key(0, 0, 0)]).size).toBe(1);
+    });
+});
+
+describe("chunkGeometry", () => {
+    it("should darken occluded corners and split quads along the evenly shaded diagonal", () => {
+        const corners: Quad["corners"] = [
+            [0, 1, 0],
+            [0, 1, 1],
+            [1, 1, 1],
+            [1, 1, 0],
+        ];
+        const geometry = chunkGeometry([
+            { normal: [0, 1, 0], corners, color: "#ffffff", occlusion: [3, 0, 0, 0] },
+        ]);
+
+        const colors = geometry.getAttribute("color");
+        expect(colors.getX(0)).toBeLessThan(colors.getX(1));
+        expect(colors.getX(1)).toBe(1);
+        expect([...(geometry.index?.array ?? [])]).toEqual([1, 2, 3, 1, 3, 0]);
+    });
+});
+
+describe("ChunkedVoxels", () => {
+    it("should draw a full canvas as a few hundred triangles", () => {
+        const scene = new THREE.Scene();
+        new ChunkedVoxels(scene).update(filled(), {});
+
+        // Only the canvas's outer faces show, merged within each chunk's side
+        const meshes = chunkMeshes(scene);
+        expect(meshes.size).toBe(56);
+        expect(triangles(meshes)).toBe(6 * 16 * 2);
+    });
+
+    it("should remesh only the chunks around a changed voxel", () => {
+        const scene = new THREE.Scene();
+        const voxels = new ChunkedVoxels(scene);
+        const state = filled();
+        voxels.update(state, {});
+        const before = new Map([...chunkMeshes(scene)].map(([c, m]) => [c, m.geometry]));
+
+        state.delete(key(7, 7, 7));
+        voxels.update(state, {});
+
+        const remeshed = [...chunkMeshes(scene)].filter(([c, m]) => before.get(c) !== m.geometry);
+        expect(remeshed.map(([c]) => c)).toEqual([chunkOf(key(7, 7, 7))]);
+    });
+
+    it("should remesh only the chunks around voxels changed by ops", () => {
+        const scene = new THREE.Scene();
+        const voxels = new ChunkedVoxels(scene);
+        voxels.update(filled(), {});
+        const before = new Map([...chunkMeshes(scene)].map(([c, m]) => [c, m.geometry]));
+
+        voxels.apply([{ k: key(0, 2, 2), color: "#00ff00" }]);
+
+        const remeshed = [...chunkMeshes(scene)].filter(([c, m]) => before.get(c) !== m.geometry);
+        expect(remeshed.map(([c]) => c)).toEqual([chunkOf(key(0, 2, 2))]);
+    });
+
+    it("should cut chunks short at the edges of a canvas that isn't whole chunks across", () => {
+        const dims: [number, number, number] = [12, 7, 3];
+        const scene = new THREE.Scene();
+        const state = new Map<number, string>();
+        for (let k = 0; k < 12 * 7 * 3; k++) state.set(k, "#ff0000");
+
+        new ChunkedVoxels(scene, dims).update(state, {});
+
+        // 3 × 2 × 1 chunks; each side of the canvas is one quad per chunk it crosses
+        const meshes = chunkMeshes(scene);
+        expect(meshes.size).toBe(6);
+        expect(triangles(meshes)).toBe((2 * 6 + 2 * 3 + 2 * 2) * 2);
+        expect(chunkOf(key(11, 6, 2, dims), dims)).toBe(5);
+    });
+
+    it("should drop a chunk's mesh once it is empty", () => {
+        const scene = new THREE.Scene();
+        const voxels = new ChunkedVoxels(scene);
+        voxels.update(new Map([[key(2, 2, 2), "#ff0000"]]), {});
+        expect(chunkMeshes(scene).size).toBe(1);
+
+        voxels.update(new Map(), {});
+        expect(chunkMeshes(scene).size).toBe(0);
+    });
+
+    it("should remesh when only the style changes", () => {
+        const scene = new THREE.Scene();
+        const voxels = new ChunkedVoxels(scene);
+        const state = new Map([[key(2, 2, 2), "#ff0000"]]);
+        voxels.update(state, {});
+        const [mesh] = chunkMeshes(scene).values();
+        const before = mesh.geometry;
+
+        voxels.update(state, { fade: new Map([[key(2, 2, 2), 0.5]]) });
+        expect(mesh.geometry).not.toBe(before);
+    });
+
+    it("should pick the voxel under a ray and the face it hits", () => {
+        const scene = new THREE.Scene();
+        const voxels = new ChunkedVoxels(scene);
+        voxels.update(
+            new Map([
+                [key(3, 4, 5), "#ff0000"],
+                [key(3, 4, 9), "#00ff00"],
+            ]),
+            {}
+        );
+
+        // Looking down -z at both voxels, the nearer one is hit on its +z face
+        const raycaster = new THREE.Raycaster(
+            new THREE.Vector3(3.2, 4.1, 30),
+            new THREE.Vector3(0, 0, -1)
+        );
+        const hit = voxels.pick(raycaster);
+
+        expect(hit?.k).toBe(key(3, 4, 9));
+        expect(hit?.normal.equals(new THREE.Vector3(0, 0, 1))).toBe(true);
+    });
+});
@@ -0,0 +1,195 @@
+import * as THREE from "three";
+import { greedyMesh, type Quad, type Vec3 } from "../../../worker/src/mesh.js";
+import { DEFAULT_DIMS, type Dims } from "../../../worker/src/schema.js";
+import { type VoxelChange, type VoxelMeshes, type VoxelStyle, voxelColor } from "./meshes.js";
+import { key, unpackKey } from "./voxels.js";
+
+export const CHUNK_SIZE = 5;
+
+// Brightness of a corner by how many voxels crowd it
+const OCCLUSION_SHADE = [1, 0.82, 0.68, 0.55];
+
+// Chunks along each axis of a canvas `dims` across, the last ones cut short
+// where a side isn't a whole number of chunks
+const chunksAcross = (dims: Dims) => dims.map((d) => Math.ceil(d / CHUNK_SIZE)) as Dims;
+
+// Chunks are numbered like voxels, x first, on the canvas's grid of chunks
+export const chunkOf = (k: number, dims: Dims = DEFAULT_DIMS) => {
+    const across = chunksAcross(dims);
+    const [x, y, z] = unpackKey(k, dims).map((c) => Math.floor(c / CHUNK_SIZE));
+    return x + across[0] * (y + across[1] * z);
+};
+
+// Chunks whose faces can change with these voxels: a voxel hides and shades
+// faces of its neighbours, diagonal ones included
+export function touchedChunks(keys: Iterable<number>, dims: Dims = DEFAULT_DIMS): Set<number> {
+    const chunks = new Set<number>();
+    for (const k of keys) {
+        const [x, y, z] = unpackKey(k, dims);
+        for (let dz = -1; dz <= 1; dz++) {
+            for (let dy = -1; dy <= 1; dy++) {
+                for (let dx = -1; dx <= 1; dx++) {
+                    const p = [x + dx, y + dy, z + dz];
+                    if (p.every((c, i) => c >= 0 && c < dims[i]))
+                        chunks.add(chunkOf(key(p[0], p[1], p[2], dims), dims));
+                }
+            }
+        }
+    }
+    return chunks;
+}
+
+// Two triangles per quad, split along the diagonal whose ends are shaded
+// alike so occlusion interpolates without creases
+export function chunkGeometry(quads: Quad[]): THREE.BufferGeometry {
+    const positions = new Float32Array(quads.length * 12);
+    const normals = new Float32Array(quads.length * 12);
+    const colors = new Float32Array(quads.length * 12);
+    const indices = new Uint16Array(quads.length * 6);
+    const color = new THREE.Color();
+    quads.forEach((q, n) => {
+        const base = new THREE.Color(q.color);
+        const o = q.occlusion ?? [0, 0, 0, 0];
+        q.corners.forEach((corner, c) => {
+            positions.set(corner, (n * 4 + c) * 3);
+            normals.set(q.normal, (n * 4 + c) * 3);
+            color.copy(base).multiplyScalar(OCCLUSION_SHADE[o[c]]);
+            colors.set([color.r, color.g, color.b], (n * 4 + c) * 3);
+        });
+        const v = n * 4;
+        const split =
+            o[0] + o[2] > o[1] + o[3]
+                ? [v + 1, v + 2, v + 3, v + 1, v + 3, v]
+                : [v, v + 1, v + 2, v, v + 2, v + 3];
+        indices.set(split, n * 6);
+    });
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute("position", new THREE.BufferAttribute(positions, 3));
+    geometry.setAttribute("normal", new THREE.BufferAttribute(normals, 3));
+    geometry.setAttribute("color", new THREE.BufferAttribute(colors, 3));
+    geometry.setIndex(new THREE.BufferAttribute(indices, 1));
+    geometry.computeBoundingSphere();
+    return geometry;
+}
+
+// The toon material with each voxel's edges darkened in the fragment shader,
+// which outlines voxels inside merged faces too
+function outlinedMaterial() {
+    const material = new THREE.MeshToonMaterial({ vertexColors: true });
+    material.onBeforeCompile = (shader) => {
+        shader.vertexShader = shader.vertexShader
+            .replace(
+                "#include <common>",
+                "#include <common>\nvarying vec3 vCell;\nvarying vec3 vFaceAxis;"
+            )
+            .replace(
+                "#include <begin_vertex>",
+                "#include <begin_vertex>\nvCell = position;\nvFaceAxis = abs(normal);"
+            );
+        shader.fragmentShader = shader.fragmentShader
+            .replace(
+                "#include <common>",
+                "#include <common>\nvarying vec3 vCell;\nvarying vec3 vFaceAxis;"
+            )
+            .replace(
+                "#include <color_fragment>",
+                `#include <color_fragment>
+                // Distance to the nearest voxel edge across the face, skipping the
+                // axis the face lies across
+                vec3 toEdge = abs(fract(vCell + 0.5) - 0.5) + vFaceAxis;
+                float edge = min(toEdge.x, min(toEdge.y, toEdge.z));
+                float blur = fwidth(edge);
+                diffuseColor.rgb *= 1.0 - 0.3 * (1.0 - smoothstep(0.03 - blur, 0.03 + blur, edge));`
+            );
+    };
+    return material;
+}
+
+// Greedy meshes of CHUNK_SIZE³ chunks with hidden faces culled and corners
+// shaded by ambient occlusion. An update remeshes only the chunks whose voxels
+// or their neighbours changed.
+export class ChunkedVoxels implements VoxelMeshes {
+    private group = new THREE.Group();
+    private material = outlinedMaterial();
+    private chunks = new Map<number, THREE.Mesh>();
+    private voxels = new Map<number, string>(); // as drawn, styled
+
+    constructor(
+        scene: THREE.Scene,
+        private readonly dims: Dims = DEFAULT_DIMS
+    ) {
+        // Meshes put voxel (x, y, z) between (x, y, z) and (x + 1, y + 1, z + 1);
+        // the scene centres it on (x, y, z)
+        this.group.position.setScalar(-0.5);
+        this.group.updateMatrixWorld();
+        scene.add(this.group);
+    }
+
+    update(voxels: Map<number, string>, style: VoxelStyle) {
+        const styled = Boolean(style.fade || style.owners);
+        const next = new Map<number, string>();
+        for (const [k, colorHex] of voxels) {
+            next.set(k, styled ? `#${voxelColor(k, colorHex, style).getHexString()}` : colorHex);
+        }
+        const changed: number[] = [];
+        for (const [k, color] of next) if (this.voxels.get(k) !== color) changed.push(k);
+        for (const k of this.voxels.keys()) if (!next.has(k)) changed.push(k);
+
+        this.voxels = next;
+        for (const chunk of touchedChunks(changed, this.dims)) this.remesh(chunk);
+    }
+
+    apply(changes: VoxelChange[]) {
+        for (const { k, color } of changes) {
+            if (color === null) {
+                this.voxels.delete(k);
+            } else {
+                this.voxels.set(k, color);
+            }
+        }
+        const touched = touchedChunks(
+            changes.map((c) => c.k),
+            this.dims
+        );
+        for (const chunk of touched) this.remesh(chunk);
+    }
+
+    private remesh(chunk: number) {
+        const from = unpackKey(chunk, chunksAcross(this.dims)).map((c) => c * CHUNK_SIZE) as Vec3;
+        const to = from.map((c, i) => Math.min(c + CHUNK_SIZE, this.dims[i])) as Vec3;
+        const quads = greedyMesh(this.voxels, this.dims, { from, to, occlusion: true });
+
+        const mesh = this.chunks.get(chunk);
+        mesh?.geometry.dispose();
+        if (!quads.length) {
+            if (mesh) this.group.remove(mesh);
+            this.chunks.delete(chunk);
+        } else if (mesh) {
+            mesh.geometry = chunkGeometry(quads);
+        } else {
+            const created = new THREE.Mesh(chunkGeometry(quads), this.material);
+            created.userData = { chunk };
+            this.group.add(created);
+            created.updateMatrixWorld();
+            this.chunks.set(chunk, created);
+        }
+    }
+
+    dispose() {
+        this.group.removeFromParent();
+        for (const mesh of this.chunks.values()) mesh.geometry.dispose();
+        this.chunks.clear();
+        this.material.dispose();
+    }
+
+    pick(raycaster: THREE.Raycaster) {
+        const [hit] = raycaster.intersectObjects([...this.chunks.values()], false);
+        if (!hit?.face) return null;
+
+        // Step half a voxel back from the face into the voxel showing it
+        const normal = hit.face.normal.clone();
+        const centre = hit.point.clone().addScaledVector(normal, -0.5);
+        const cell = [centre.x, centre.y, centre.z].map(Math.round) as Vec3;
+        return { k: key(...cell, this.dims), normal };
+    }
+}
@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest";
+import { connectedRegion, enclosedRegion } from "./fill.js";
+import { box } from "./shapes.js";
+import { key } from "./voxels.js";
+
+const RED = "#f94144";
+const BLUE = "#277da1";
+
+const canvas = (...parts: [cells: [number, number, number][], color: string][]) => {
+    const voxels = new Map<number, string>();
+    for (const [cells, color] of parts) for (const c of cells) voxels.set(key(...c), color);
+    return voxels;
+};
+
+// A ring of voxels on the floor around the 3x3 square from (1, 0, 1) to (3, 0, 3)
+const ring = () => box([0, 0, 0], [4, 0, 4]).filter(([x, , z]) => x % 4 === 0 || z % 4 === 0);
+
+describe("connectedRegion", () => {
+    it("should follow faces through voxels of the same colour", () => {
+        const voxels = canvas(
+            [box([0, 0, 0], [2, 0, 0]), RED],
+            [[[3, 0, 0]], BLUE],
+            [[[4, 0, 0]], RED]
+        );
+
+        expect(new Set(connectedRegion(voxels, key(0, 0, 0)))).toEqual(
+            new Set([key(0, 0, 0), key(1, 0, 0), key(2, 0, 0)])
+        );
+    });
+
+    it("should not join voxels that only touch at an edge", () => {
+        const voxels = canvas([
+            [
+                [0, 0, 0],
+                [1, 1, 0],
+            ],
+            RED,
+        ]);
+
+        expect(connectedRegion(voxels, key(0, 0, 0))).toEqual([key(0, 0, 0)]);
+    });
+
+    it("should climb across layers", () => {
+        const voxels = canvas([box([5, 0, 5], [5, 19, 5]), RED]);
+
+        expect(connectedRegion(voxels, key(5, 10, 5))).toHaveLength(20);
+    });
+
+    it("should give up past the limit or on an empty cell", () => {
+        const voxels = canvas([box([0, 0, 0], [9, 0, 9]), RED]);
+
+        expect(connectedRegion(voxels, key(0, 0, 0), 99)).toBeNull();
+        expect(connectedRegion(voxels, key(0, 0, 0), 100)).toHaveLength(100);
+        expect(connectedRegion(voxels, key(0, 1, 0))).toBeNull();
+    });
+});
+
+describe("enclosedRegion", () => {
+    it("should fill the hole a ring of voxels walls in", () => {
+        const voxels = canvas([ring(), RED]);
+
+        expect(new Set(enclosedRegion(voxels, key(2, 0, 2), 1))).toEqual(
+            new Set(box([1, 0, 1], [3, 0, 3]).map((c) => key(...c)))
+        );
+    });
+
+    it("should stay in its layer", () => {
+        const voxels = canvas([ring(), RED]);
+
+        // The layer above is open on every side
+        expect(enclosedRegion(voxels, key(2, 1, 2), 1)).toBeNull();
+        // Across x, the ring's row of cells is open at both ends
+        expect(enclosedRegion(voxels, key(2, 0, 2), 0)).toBeNull();
+    });
+
+    it("should refuse a region that leaks out of a gap", () => {
+        const voxels = canvas([ring().filter(([x, , z]) => !(x === 0 && z === 2)), RED]);
+
+        expect(enclosedRegion(voxels, key(2, 0, 2), 1)).toBeNull();
+    });
+
+    it("should treat any colour as a wall, and start only from an empty cell", () => {
+        const walls = ring();
+        const voxels = canvas([walls.slice(0, 8), RED], [walls.slice(8), BLUE]);
+
+        expect(enclosedRegion(voxels, key(2, 0, 2), 1)).toHaveLength(9);
+        expect(enclosedRegion(voxels, key(0, 0, 0), 1)).toBeNull();
+    });
+
+    it("should give up past the limit", () => {
+        // Walls around an 8x8 square
+        const walls = box([0, 0, 0], [9, 0, 9]).filter(([x, , z]) => x % 9 === 0 || z % 9 === 0);
+        const voxels = canvas([walls, RED]);
+
+        expect(enclosedRegion(voxels, key(4, 0, 4), 1, 63)).toBeNull();
+        expect(enclosedRegion(voxels, key(4, 0, 4), 1, 64)).toHaveLength(64);
+    });
+});
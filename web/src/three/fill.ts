@@ -0,0 +1,67 @@
+import { DEFAULT_DIMS, type Dims, MAX_TXN_OPS } from "../../../worker/src/schema.js";
+import { type Cell, NEIGHBOURS } from "./shapes.js";
+import { key, unpackKey } from "./voxels.js";
+
+// Most voxels one fill may change: it goes out as a single transaction
+export const FILL_LIMIT = MAX_TXN_OPS;
+
+// The key of the cell `step` away from `cell`, or null off the canvas
+function stepFrom(cell: Cell, step: Cell, dims: Dims): number | null {
+    const next = cell.map((c, i) => c + step[i]);
+    return next.every((c, i) => c >= 0 && c < dims[i])
+        ? key(next[0], next[1], next[2], dims)
+        : null;
+}
+
+// Breadth-first from `start` through the cells `within` accepts, taking `steps`.
+// Null once it finds more than `limit` cells or, if `enclosed`, steps off the canvas.
+function flood(
+    start: number,
+    steps: Cell[],
+    within: (k: number) => boolean,
+    limit: number,
+    enclosed: boolean,
+    dims: Dims
+): number[] | null {
+    const seen = new Set([start]);
+    const region = [start];
+    for (let i = 0; i < region.length; i++) {
+        const cell = unpackKey(region[i], dims);
+        for (const step of steps) {
+            const k = stepFrom(cell, step, dims);
+            if (k === null && enclosed) return null;
+            if (k === null || seen.has(k) || !within(k)) continue;
+            seen.add(k);
+            if (region.push(k) > limit) return null;
+        }
+    }
+    return region;
+}
+
+// The voxels joined to `start` face to face through voxels of its colour; null
+// if `start` is empty or there are more than `limit`
+export function connectedRegion(
+    voxels: Map<number, string>,
+    start: number,
+    limit = FILL_LIMIT,
+    dims: Dims = DEFAULT_DIMS
+): number[] | null {
+    const color = voxels.get(start);
+    if (color === undefined) return null;
+    return flood(start, NEIGHBOURS, (k) => voxels.get(k) === color, limit, false, dims);
+}
+
+// The empty cells around `start` in its layer across `axis`, walled in by
+// voxels; null if `start` is filled, the region runs off the canvas or there
+// are more than `limit` cells
+export function enclosedRegion(
+    voxels: Map<number, string>,
+    start: number,
+    axis: number,
+    limit = FILL_LIMIT,
+    dims: Dims = DEFAULT_DIMS
+): number[] | null {
+    if (voxels.has(start)) return null;
+    const steps = NEIGHBOURS.filter((step) => step[axis] === 0);
+    return flood(start, steps, (k) => !voxels.has(k), limit, true, dims);
+}
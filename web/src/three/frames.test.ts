@@ -0,0 +1,81 @@
+import { describe, expect, it, vi } from "vitest";
+import { RenderScheduler } from "./frames.js";
+
+// A stand-in for requestAnimationFrame that runs frames when told to
+function fakeFrames() {
+    const callbacks = new Map<number, () => void>();
+    let next = 1;
+    return {
+        schedule: (callback: () => void) => {
+            callbacks.set(next, callback);
+            return next++;
+        },
+        cancel: (handle: number) => callbacks.delete(handle),
+        run() {
+            const due = [...callbacks.values()];
+            callbacks.clear();
+            for (const callback of due) callback();
+        },
+        get waiting() {
+            return callbacks.size;
+        },
+    };
+}
+
+describe("RenderScheduler", () => {
+    it("should not render until asked to", () => {
+        const frames = fakeFrames();
+        const render = vi.fn();
+        new RenderScheduler(render, frames.schedule, frames.cancel);
+
+        frames.run();
+        expect(render).not.toHaveBeenCalled();
+        expect(frames.waiting).toBe(0);
+    });
+
+    it("should render once for many requests before the next frame", () => {
+        const frames = fakeFrames();
+        const render = vi.fn();
+        const scheduler = new RenderScheduler(render, frames.schedule, frames.cancel);
+
+        scheduler.request();
+        scheduler.request();
+        scheduler.request();
+        expect(scheduler.pending).toBe(true);
+        frames.run();
+
+        expect(render).toHaveBeenCalledTimes(1);
+        expect(scheduler.pending).toBe(false);
+
+        // Nothing more asked for, nothing more drawn
+        frames.run();
+        expect(render).toHaveBeenCalledTimes(1);
+    });
+
+    it("should render again for a request made after a frame", () => {
+        const frames = fakeFrames();
+        const render = vi.fn();
+        const scheduler = new RenderScheduler(render, frames.schedule, frames.cancel);
+
+        scheduler.request();
+        frames.run();
+        scheduler.request();
+        frames.run();
+
+        expect(render).toHaveBeenCalledTimes(2);
+    });
+
+    it("should cancel the waiting frame and ignore requests once disposed", () => {
+        const frames = fakeFrames();
+        const render = vi.fn();
+        const scheduler = new RenderScheduler(render, frames.schedule, frames.cancel);
+
+        scheduler.request();
+        scheduler.dispose();
+        scheduler.request();
+        frames.run();
+
+        expect(render).not.toHaveBeenCalled();
+        expect(frames.waiting).toBe(0);
+    });
+});
@@ -0,0 +1,30 @@
+// Draws a frame only when something asked for one since the last: any number
+// of requests before the next animation frame share a single render.
+export class RenderScheduler {
+    private frame: number | null = null;
+    private disposed = false;
+
+    constructor(
+        private render: () => void,
+        private schedule: (callback: () => void) => number = requestAnimationFrame,
+        private cancel: (handle: number) => void = cancelAnimationFrame
+    ) {}
+
+    request() {
+        if (this.frame !== null || this.disposed) return;
+        this.frame = this.schedule(() => {
+            this.frame = null;
+            this.render();
+        });
+    }
+
+    get pending(): boolean {
+        return this.frame !== null;
+    }
+
+    dispose() {
+        if (this.frame !== null) this.cancel(this.frame);
+        this.frame = null;
+        this.disposed = true;
+    }
+}
@@ -0,0 +1,124 @@
+import * as THREE from "three";
+import { describe, expect, it, vi } from "vitest";
+import { InstancedVoxels } from "./instanced.js";
+import { key } from "./voxels.js";
+
+function setup(count: number) {
+    const scene = new THREE.Scene();
+    const voxels = new InstancedVoxels(scene);
+    const state = new Map<number, string>();
+    for (let k = 0; k < count; k++) state.set(k, "#ff0000");
+    voxels.update(state, {});
+    const [mesh, border] = scene.children as THREE.InstancedMesh[];
+    // Pretend the renderer uploaded the full update
+    for (const attribute of [mesh, border].flatMap((m) => [m.instanceMatrix, m.instanceColor])) {
+        attribute?.onUploadCallback();
+    }
+    return { voxels, mesh, border };
+}
+
+// Floats the next render would send for an instance buffer: three's own updateRange,
+// plus whatever the upload callback writes to the still-bound buffer
+function uploaded(mesh: THREE.InstancedMesh, attribute: THREE.BufferAttribute) {
+    let floats = attribute.updateRange.count;
+    const gl = {
+        ARRAY_BUFFER: 0x8892,
+        bufferSubData: (_target: number, _offset: number, data: Float32Array) => {
+            floats += data.length;
+        },
+    };
+    // biome-ignore lint/suspicious/noExplicitAny: Required for test mocking
+    (mesh.onBeforeRender as (renderer: any) => void)({ getContext: () => gl });
+    attribute.onUploadCallback();
+    return floats;
+}
+
+// Where each voxel is drawn, read back from the instance matrices
+function drawn(mesh: THREE.InstancedMesh) {
+    const at = new Map<number, string>();
+    const matrix = new THREE.Matrix4();
+    const position = new THREE.Vector3();
+    const color = new THREE.Color();
+    for (let slot = 0; slot < mesh.count; slot++) {
+        mesh.getMatrixAt(slot, matrix);
+        position.setFromMatrixPosition(matrix);
+        mesh.getColorAt(slot, color);
+        at.set(key(position.x, position.y, position.z), `#${color.getHexString()}`);
+    }
+    return at;
+}
+
+describe("InstancedVoxels", () => {
+    it("should touch the same few instance slots for one op however full the canvas is", () => {
+        const touched = [10, 8000].map((count) => {
+            const { voxels, mesh, border } = setup(count);
+            const writes = [
+                vi.spyOn(mesh, "setMatrixAt"),
+                vi.spyOn(mesh, "setColorAt"),
+                vi.spyOn(border, "setMatrixAt"),
+                vi.spyOn(border, "setColorAt"),
+            ];
+
+            voxels.apply([{ k: 3, color: null }]);
+            voxels.apply([{ k: 5, color: "#00ff00" }]);
+
+            const { updateRange } = mesh.instanceMatrix;
+            return [...writes.map((w) => w.mock.calls.length), updateRange.count / 16];
+        });
+
+        expect(touched[0]).toEqual(touched[1]);
+        expect(Math.max(...touched[1])).toBeLessThanOrEqual(3);
+    });
+
+    it("should upload only the slots an op wrote, however far apart they are", () => {
+        const { voxels, mesh } = setup(7000);
+
+        // Slot 0 takes the last voxel, and the new one goes on the end
+        voxels.apply([{ k: 0, color: null }]);
+        voxels.apply([{ k: 7500, color: "#00ff00" }]);
+
+        expect(uploaded(mesh, mesh.instanceMatrix)).toBe(2 * 16);
+        expect(uploaded(mesh, mesh.instanceColor as THREE.BufferAttribute)).toBe(2 * 3);
+    });
+
+    it("should keep drawing every voxel once as they come and go", () => {
+        const { voxels, mesh } = setup(5);
+
+        voxels.apply([
+            { k: 1, color: null },
+            { k: 9, color: "#00ff00" },
+            { k: 4, color: null },
+            { k: 2, color: "#0000ff" },
+            { k: 7, color: null }, // not drawn to begin with
+        ]);
+
+        expect(drawn(mesh)).toEqual(
+            new Map([
+                [0, "#ff0000"],
+                [2, "#0000ff"],
+                [3, "#ff0000"],
+                [9, "#00ff00"],
+            ])
+        );
+    });
+
+    it("should widen the bounding sphere for a new voxel", () => {
+        const { voxels, mesh } = setup(1);
+
+        voxels.apply([{ k: key(19, 19, 19), color: "#00ff00" }]);
+
+        expect(mesh.boundingSphere?.containsPoint(new THREE.Vector3(19, 19, 19))).toBe(true);
+        expect(mesh.boundingSphere?.containsPoint(new THREE.Vector3(0, 0, 0))).toBe(true);
+    });
+
+    it("should pick a voxel added by an op", () => {
+        const { voxels } = setup(0);
+        voxels.apply([{ k: key(3, 4, 5), color: "#00ff00" }]);
+
+        const raycaster = new THREE.Raycaster(
+            new THREE.Vector3(3, 4, 30),
+            new THREE.Vector3(0, 0, -1)
+        );
+        expect(voxels.pick(raycaster)?.k).toBe(key(3, 4, 5));
+    });
+});
@@ -0,0 +1,228 @@
+import * as THREE from "three";
+import { cellCount, DEFAULT_DIMS, type Dims } from "../../../worker/src/schema.js";
+import { type VoxelChange, type VoxelMeshes, type VoxelStyle, voxelColor } from "./meshes.js";
+import { key, unpackKey } from "./voxels.js";
+
+const BORDER_SCALE = 1.02;
+
+// One cube per voxel, drawn twice: the voxel itself and a slightly larger,
+// faint copy behind it as its border. Voxels fill instance slots 0..count-1
+// in no particular order; clearing one moves the last into its slot. There are
+// slots enough for every cell of the canvas.
+export class InstancedVoxels implements VoxelMeshes {
+    private instancedMesh: THREE.InstancedMesh;
+    private borderMesh: THREE.InstancedMesh;
+    private dummy = new THREE.Object3D();
+    private keys: number[] = []; // slot -> voxel key
+    private slots = new Map<number, number>(); // voxel key -> slot
+    // Per instance buffer, the spans of slots written since it last uploaded
+    private dirty = new Map<THREE.BufferAttribute, [from: number, to: number][]>();
+    private gl?: WebGLRenderingContext | WebGL2RenderingContext;
+
+    constructor(
+        scene: THREE.Scene,
+        private readonly dims: Dims = DEFAULT_DIMS
+    ) {
+        // Create instanced mesh for voxels with soft toon material
+        const geometry = new THREE.BoxGeometry(1, 1, 1);
+        const material = new THREE.MeshToonMaterial({
+            color: 0xffffff,
+            transparent: false,
+        });
+        this.instancedMesh = new THREE.InstancedMesh(geometry, material, cellCount(dims));
+        this.instancedMesh.setColorAt(0, new THREE.Color()); // Allocate instance colours
+        this.instancedMesh.instanceMatrix.setUsage(THREE.DynamicDrawUsage);
+        this.instancedMesh.instanceColor?.setUsage(THREE.DynamicDrawUsage);
+        this.instancedMesh.count = 0; // Start with no instances
+        this.instancedMesh.frustumCulled = false; // Prevent culling when inside the box
+        this.instancedMesh.computeBoundingSphere(); // Ensure raycasting works
+        scene.add(this.instancedMesh);
+
+        // Create instanced mesh for voxel borders
+        const borderGeometry = new THREE.BoxGeometry(BORDER_SCALE, BORDER_SCALE, BORDER_SCALE);
+        const borderMaterial = new THREE.MeshBasicMaterial({
+            color: 0x000000,
+            transparent: true,
+            opacity: 0.1,
+        });
+        this.borderMesh = new THREE.InstancedMesh(borderGeometry, borderMaterial, cellCount(dims));
+        this.borderMesh.setColorAt(0, new THREE.Color());
+        this.borderMesh.instanceMatrix.setUsage(THREE.DynamicDrawUsage);
+        this.borderMesh.instanceColor?.setUsage(THREE.DynamicDrawUsage);
+        this.borderMesh.count = 0;
+        this.borderMesh.frustumCulled = false;
+        this.borderMesh.computeBoundingSphere();
+        scene.add(this.borderMesh);
+
+        // three uploads one range per buffer; the spans after the first go up here
+        this.instancedMesh.onBeforeRender = (renderer) => {
+            this.gl = renderer.getContext();
+        };
+        for (const attribute of this.attributes()) {
+            this.dirty.set(attribute, []);
+            attribute.onUpload(() => this.uploadRest(attribute));
+        }
+    }
+
+    private attributes(): THREE.BufferAttribute[] {
+        const meshes = [this.instancedMesh, this.borderMesh];
+        return meshes.flatMap(({ instanceMatrix, instanceColor }) =>
+            instanceColor ? [instanceMatrix, instanceColor] : [instanceMatrix]
+        );
+    }
+
+    update(voxels: Map<number, string>, style: VoxelStyle) {
+        this.keys = [...voxels.keys()];
+        this.slots = new Map(this.keys.map((k, slot) => [k, slot]));
+        this.instancedMesh.count = this.keys.length;
+        this.borderMesh.count = this.keys.length;
+
+        this.keys.forEach((k, slot) => {
+            // Fading voxels grow into place
+            this.place(slot, k, style.fade?.get(k) ?? 1);
+            this.paint(slot, voxelColor(k, voxels.get(k) as string, style));
+        });
+
+        this.markDirty(0, this.keys.length - 1);
+
+        // Update bounding spheres for raycasting
+        this.instancedMesh.computeBoundingSphere();
+        this.borderMesh.computeBoundingSphere();
+    }
+
+    apply(changes: VoxelChange[]) {
+        for (const { k, color } of changes) {
+            let slot = this.slots.get(k);
+            if (color !== null) {
+                if (slot === undefined) {
+                    slot = this.keys.push(k) - 1;
+                    this.slots.set(k, slot);
+                    this.place(slot, k, 1);
+                    this.grow(k);
+                }
+                this.paint(slot, voxelColor(k, color, {}));
+                this.markDirty(slot, slot);
+            } else if (slot !== undefined) {
+                this.remove(k, slot);
+            }
+        }
+        this.instancedMesh.count = this.keys.length;
+        this.borderMesh.count = this.keys.length;
+    }
+
+    // Swap-remove: the last instance moves into the freed slot
+    private remove(k: number, slot: number) {
+        const last = this.keys.length - 1;
+        const moved = this.keys[last];
+        if (slot !== last) {
+            const matrix = new THREE.Matrix4();
+            const color = new THREE.Color();
+            for (const mesh of [this.instancedMesh, this.borderMesh]) {
+                mesh.getMatrixAt(last, matrix);
+                mesh.setMatrixAt(slot, matrix);
+                mesh.getColorAt(last, color);
+                mesh.setColorAt(slot, color);
+            }
+            this.keys[slot] = moved;
+            this.slots.set(moved, slot);
+            this.markDirty(slot, slot);
+        }
+        this.keys.pop();
+        this.slots.delete(k);
+    }
+
+    private place(slot: number, k: number, scale: number) {
+        const [x, y, z] = unpackKey(k, this.dims);
+        this.dummy.position.set(x, y, z);
+        this.dummy.scale.setScalar(scale);
+        this.dummy.updateMatrix();
+        this.instancedMesh.setMatrixAt(slot, this.dummy.matrix);
+        this.borderMesh.setMatrixAt(slot, this.dummy.matrix);
+    }
+
+    private paint(slot: number, color: THREE.Color) {
+        // Use the exact color from the picker - no modifications
+        this.instancedMesh.setColorAt(slot, color);
+
+        // Set border color (darker version of the main color)
+        const borderColor = color.clone();
+        const hsl = { h: 0, s: 0, l: 0 };
+        borderColor.getHSL(hsl);
+        borderColor.setHSL(hsl.h, Math.min(1, hsl.s * 1.2), Math.max(0, hsl.l * 0.7)); // Darker
+        this.borderMesh.setColorAt(slot, borderColor);
+    }
+
+    // Widen the bounding spheres to take in a new voxel. Cleared voxels leave
+    // them loose until the next full update.
+    private grow(k: number) {
+        const centre = new THREE.Vector3(...unpackKey(k, this.dims));
+        const sphere = new THREE.Sphere(centre, (Math.sqrt(3) / 2) * BORDER_SCALE);
+        this.instancedMesh.boundingSphere?.union(sphere);
+        this.borderMesh.boundingSphere?.union(sphere);
+    }
+
+    // Upload only the slots written since the last upload. Each span is kept
+    // apart: merging them would upload everything between a low and a high slot.
+    private markDirty(from: number, to: number) {
+        if (to < from) return;
+        for (const [attribute, spans] of this.dirty) {
+            // Fold in any span this one overlaps or touches
+            const kept = spans.filter(([a, b]) => {
+                if (b < from - 1 || a > to + 1) return true;
+                from = Math.min(from, a);
+                to = Math.max(to, b);
+                return false;
+            });
+            kept.push([from, to]);
+            this.dirty.set(attribute, kept);
+            const [first, last] = kept[0];
+            attribute.updateRange = {
+                offset: first * attribute.itemSize,
+                count: (last - first + 1) * attribute.itemSize,
+            };
+            attribute.needsUpdate = true;
+        }
+    }
+
+    // Called with the attribute's buffer still bound, just after three wrote its updateRange
+    private uploadRest(attribute: THREE.BufferAttribute) {
+        const [, ...rest] = this.dirty.get(attribute) ?? [];
+        this.dirty.set(attribute, []);
+        const gl = this.gl;
+        if (!gl) return; // the first upload is the whole buffer
+        const array = attribute.array as Float32Array;
+        for (const [from, to] of rest) {
+            const offset = from * attribute.itemSize;
+            const end = (to + 1) * attribute.itemSize;
+            gl.bufferSubData(
+                gl.ARRAY_BUFFER,
+                offset * array.BYTES_PER_ELEMENT,
+                array.subarray(offset, end)
+            );
+        }
+    }
+
+    pick(raycaster: THREE.Raycaster) {
+        if (this.instancedMesh.count === 0) return null;
+
+        const [intersect] = raycaster.intersectObject(this.instancedMesh, false);
+        if (intersect?.instanceId === undefined || !intersect.face) return null;
+
+        // Get the position of the hit voxel
+        const matrix = new THREE.Matrix4();
+        this.instancedMesh.getMatrixAt(intersect.instanceId, matrix);
+        const position = new THREE.Vector3().setFromMatrixPosition(matrix);
+
+        const [x, y, z] = [position.x, position.y, position.z].map(Math.round);
+        return { k: key(x, y, z, this.dims), normal: intersect.face.normal.clone() };
+    }
+
+    dispose() {
+        for (const mesh of [this.instancedMesh, this.borderMesh]) {
+            mesh.removeFromParent();
+            mesh.geometry.dispose();
+            (mesh.material as THREE.Material).dispose();
+            mesh.dispose();
+        }
+    }
+}
@@ -0,0 +1,46 @@
+import * as THREE from "three";
+import type { OpSetVoxel } from "../../../worker/src/schema.js";
+
+export const BACKGROUND = 0xf8f8f8;
+
+// How the replay draws voxels: `fade` runs from 0 (just appeared) to 1, and
+// `owners` tints each voxel by the player who placed it
+export interface VoxelStyle {
+    fade?: Map<number, number>;
+    owners?: Map<number, string>;
+}
+
+// A voxel's new colour, null once it is cleared
+export type VoxelChange = Pick<OpSetVoxel, "k" | "color">;
+
+// A way of drawing the voxels, which VoxelScene also asks what is under the mouse
+export interface VoxelMeshes {
+    // Draw exactly these voxels, styled
+    update(voxels: Map<number, string>, style: VoxelStyle): void;
+    // Redraw only the changed voxels, unstyled
+    apply(changes: VoxelChange[]): void;
+    // The voxel a ray hits first and the normal of the face it hits
+    pick(raycaster: THREE.Raycaster): { k: number; normal: THREE.Vector3 } | null;
+    // Take the meshes out of the scene and free them
+    dispose(): void;
+}
+
+export function playerColor(playerId: string): number {
+    // Generate a consistent color based on playerId
+    let hash = 0;
+    for (let i = 0; i < playerId.length; i++) {
+        hash = ((hash << 5) - hash + playerId.charCodeAt(i)) & 0xffffffff;
+    }
+    // Convert to a nice color range
+    const hue = Math.abs(hash) % 360;
+    return new THREE.Color().setHSL(hue / 360, 0.7, 0.5).getHex();
+}
+
+// A voxel's colour once styled: its owner's if tinting, faded into the background
+export function voxelColor(k: number, colorHex: string, style: VoxelStyle): THREE.Color {
+    const owner = style.owners?.get(k);
+    const color = new THREE.Color(owner ? playerColor(owner) : colorHex);
+    const fade = style.fade?.get(k) ?? 1;
+    if (fade < 1) color.lerp(new THREE.Color(BACKGROUND), 1 - fade);
+    return color;
+}
@@ -1,30 +1,96 @@
 import * as THREE from "three";
 import { OrbitControls } from "three/examples/jsm/controls/OrbitControls.js";
+import {
+    cellCount,
+    DEFAULT_DIMS,
+    type Dims,
+    type PlayerPresence,
+} from "../../../worker/src/schema.js";
+import { ChunkedVoxels } from "./chunks.js";
+import { connectedRegion, enclosedRegion, FILL_LIMIT } from "./fill.js";
+import { RenderScheduler } from "./frames.js";
+import { InstancedVoxels } from "./instanced.js";
+import {
+    BACKGROUND,
+    playerColor,
+    type VoxelChange,
+    type VoxelMeshes,
+    type VoxelStyle,
+} from "./meshes.js";
+import { type Cell, rasterize, type Shape } from "./shapes.js";
+import { rayLayerCell, Stroke } from "./stroke.js";
+import { mirrorChanges, type SymmetryPlane } from "./symmetry.js";
+import { copyBox, mirror, type Piece, place, placeAround, rotate } from "./transforms.js";
 import { key, unpackKey } from "./voxels.js";
 
+const CLICK_SLOP = 4; // pixels a right-click may move before it counts as a rotation
+const ERASE_PREVIEW = 0xff3333;
+const SELECTION = 0x277da1;
+const SYMMETRY = 0xf8961e;
+
+// "instanced" draws a cube per voxel; "greedy" draws chunked greedy meshes
+export type VoxelRenderer = "instanced" | "greedy";
+
+// A bucket: "recolor" repaints the voxels joined to the one clicked in its
+// colour, "fill" fills the empty cells walled in around the one clicked
+export interface FillTool {
+    kind: "recolor" | "fill";
+    limit?: number; // most voxels one fill changes, FILL_LIMIT unless given
+}
+
+// Picks a box of voxels to copy, move, turn or mirror
+export interface SelectTool {
+    kind: "select";
+}
+
+// What a left click does besides painting freehand
+export type Tool = Shape | FillTool | SelectTool;
+
+// A piece following the cursor until a click puts it down
+interface Floating {
+    piece: Piece;
+    lifted: number[]; // the voxels it was lifted from, cleared when it is put down
+}
+
+const isFill = (tool: Tool): tool is FillTool => tool.kind === "recolor" || tool.kind === "fill";
+
 export class VoxelScene {
     private scene: THREE.Scene;
     private camera: THREE.PerspectiveCamera;
     private renderer: THREE.WebGLRenderer;
     private controls: OrbitControls;
-    private instancedMesh: THREE.InstancedMesh;
-    private borderMesh: THREE.InstancedMesh;
+    private voxelMeshes: VoxelMeshes;
+    private voxelRenderer: VoxelRenderer;
+    private dims: Dims = DEFAULT_DIMS; // cells across the canvas
     private voxelMap = new Map<number, string>();
-    private dummy = new THREE.Object3D();
     private raycaster = new THREE.Raycaster();
     private mouse = new THREE.Vector2();
     private currentColor = "#ff0000";
     private editingEnabled = true; // Controls whether voxel editing is allowed
-    private onVoxelClick?: (k: number, color: string | null) => void;
+    private onStroke?: (changes: VoxelChange[], atomic: boolean) => void;
+    private onStrokeEnd?: () => void;
+    private painting: { stroke: Stroke; color: string | null } | null = null; // null color erases
+    private rightDown: { x: number; y: number } | null = null; // where a right-click began
+    private tool: Tool | null = null; // null paints freehand
+    private anchor: Cell | null = null; // the shape's or selection's first corner, once clicked
+    private selection: [Cell, Cell] | null = null; // opposite corners of the selected box
+    private floating: Floating | null = null;
+    private preview: THREE.InstancedMesh;
+    private selectionBox: THREE.LineSegments;
+    private symmetry: SymmetryPlane[] = [];
+    private symmetryPlanes = new THREE.Group();
     private onCursorMove?: (cursor: [number, number, number] | null) => void;
     private lastCursorSent: [number, number, number] | null = null;
-    private highlightMesh: THREE.Mesh;
+    private highlightMesh: THREE.LineSegments;
     private gridPlanes: THREE.Mesh[] = [];
-    private otherPlayerCursors = new Map<string, THREE.Mesh>(); // playerId -> cursor mesh
+    private boundingBox?: THREE.LineSegments;
+    private otherPlayerCursors = new Map<string, THREE.LineSegments>(); // sessionId -> cursor mesh
+    private frames = new RenderScheduler(() => this.render());
+    private listeners = new AbortController(); // aborting removes every DOM listener
 
-    constructor(container: HTMLElement) {
+    constructor(container: HTMLElement, renderer: VoxelRenderer = "instanced") {
         this.scene = new THREE.Scene();
-        this.scene.background = new THREE.Color(0xf8f8f8);
+        this.scene.background = new THREE.Color(BACKGROUND);
 
         this.camera = new THREE.PerspectiveCamera(
             75,
@@ -32,8 +98,6 @@ export class VoxelScene {
             0.1,
             1000
         );
-        this.camera.position.set(30, 30, 30);
-        this.camera.lookAt(10, 10, 10);
 
         this.renderer = new THREE.WebGLRenderer({ antialias: true });
         this.renderer.setSize(container.clientWidth, container.clientHeight);
@@ -44,37 +108,17 @@ export class VoxelScene {
         container.appendChild(this.renderer.domElement);
 
         this.controls = new OrbitControls(this.camera, this.renderer.domElement);
-        this.controls.target.set(10, 10, 10);
-        this.controls.update();
+        // Left-drag paints, so the camera orbits on right-drag (pans with Shift)
+        this.controls.mouseButtons = {
+            LEFT: null,
+            MIDDLE: THREE.MOUSE.DOLLY,
+            RIGHT: THREE.MOUSE.ROTATE,
+        };
+        this.frameCamera();
+        this.controls.addEventListener("change", this.requestRender);
 
-        // Create instanced mesh for voxels with soft toon material
-        const geometry = new THREE.BoxGeometry(1, 1, 1);
-        const material = new THREE.MeshToonMaterial({
-            color: 0xffffff,
-            transparent: false,
-        });
-        this.instancedMesh = new THREE.InstancedMesh(geometry, material, 8000);
-        this.instancedMesh.instanceMatrix.setUsage(THREE.DynamicDrawUsage);
-        this.instancedMesh.instanceColor?.setUsage(THREE.DynamicDrawUsage);
-        this.instancedMesh.count = 0; // Start with no instances
-        this.instancedMesh.frustumCulled = false; // Prevent culling when inside the box
-        this.instancedMesh.computeBoundingSphere(); // Ensure raycasting works
-        this.scene.add(this.instancedMesh);
-
-        // Create instanced mesh for voxel borders
-        const borderGeometry = new THREE.BoxGeometry(1.02, 1.02, 1.02); // Slightly larger
-        const borderMaterial = new THREE.MeshBasicMaterial({
-            color: 0x000000,
-            transparent: true,
-            opacity: 0.1,
-        });
-        this.borderMesh = new THREE.InstancedMesh(borderGeometry, borderMaterial, 8000);
-        this.borderMesh.instanceMatrix.setUsage(THREE.DynamicDrawUsage);
-        this.borderMesh.instanceColor?.setUsage(THREE.DynamicDrawUsage);
-        this.borderMesh.count = 0;
-        this.borderMesh.frustumCulled = false;
-        this.borderMesh.computeBoundingSphere();
-        this.scene.add(this.borderMesh);
+        this.voxelRenderer = renderer;
+        this.voxelMeshes = this.createVoxelMeshes();
 
         // Create highlight mesh using edges only
         const highlightEdges = new THREE.EdgesGeometry(new THREE.BoxGeometry(1.05, 1.05, 1.05));
@@ -87,6 +131,18 @@ export class VoxelScene {
         this.scene.add(this.highlightMesh);
         this.highlightMesh.visible = false;
 
+        this.preview = previewMesh(cellCount(this.dims));
+        this.scene.add(this.preview);
+
+        // The selected box, its outline stretched over it
+        this.selectionBox = new THREE.LineSegments(
+            new THREE.EdgesGeometry(new THREE.BoxGeometry(1, 1, 1)),
+            new THREE.LineBasicMaterial({ color: SELECTION })
+        );
+        this.selectionBox.visible = false;
+        this.scene.add(this.selectionBox);
+        this.scene.add(this.symmetryPlanes);
+
         // Add bright, vivid lighting to make colors pop
         const ambientLight = new THREE.AmbientLight(0xffffff, 1.2); // Very bright ambient light
         this.scene.add(ambientLight);
@@ -115,21 +171,46 @@ export class VoxelScene {
         this.createBoundingBox();
 
         this.setupEventListeners();
-        this.updateInstancedMesh();
+        this.requestRender();
+    }
+
+    // Draw on the next animation frame; nothing is drawn unless something asks
+    requestRender = () => {
+        this.frames.request();
+    };
+
+    private createVoxelMeshes(): VoxelMeshes {
+        return this.voxelRenderer === "greedy"
+            ? new ChunkedVoxels(this.scene, this.dims)
+            : new InstancedVoxels(this.scene, this.dims);
+    }
+
+    // Look down on the canvas from its (+x, +y, +z) corner, orbiting its centre
+    private frameCamera() {
+        const [x, y, z] = this.dims.map((d) => (d - 1) / 2);
+        const reach = Math.max(...this.dims);
+        this.camera.position.set(x + reach, y + reach, z + reach);
+        this.controls.target.set(x, y, z);
+        this.controls.update();
     }
 
     private createGridPlanes() {
+        for (const plane of this.gridPlanes) this.scene.remove(plane);
+        if (this.gridPlanes.length) disposeObject(this.gridPlanes[0]); // they share both
+        this.gridPlanes = [];
+
         // Create invisible planes at each Y level for easier picking
-        const planeGeometry = new THREE.PlaneGeometry(20, 20);
+        const [width, height, depth] = this.dims;
+        const planeGeometry = new THREE.PlaneGeometry(width, depth);
         const invisibleMaterial = new THREE.MeshBasicMaterial({
             visible: false,
             transparent: true,
             opacity: 0,
         });
 
-        for (let y = 0; y < 20; y++) {
+        for (let y = 0; y < height; y++) {
             const plane = new THREE.Mesh(planeGeometry, invisibleMaterial);
-            plane.position.set(9.5, y, 9.5);
+            plane.position.set((width - 1) / 2, y, (depth - 1) / 2);
             plane.rotation.x = -Math.PI / 2;
             plane.userData = { isGridPlane: true, gridY: y };
             this.scene.add(plane);
@@ -138,78 +219,417 @@ export class VoxelScene {
     }
 
     private createBoundingBox() {
+        if (this.boundingBox) {
+            this.scene.remove(this.boundingBox);
+            disposeObject(this.boundingBox);
+        }
+
         // Create edge-only bounding box using LineSegments
-        const edges = new THREE.EdgesGeometry(new THREE.BoxGeometry(20, 20, 20));
+        const edges = new THREE.EdgesGeometry(new THREE.BoxGeometry(...this.dims));
         const lineMaterial = new THREE.LineBasicMaterial({
             color: 0xcccccc,
             transparent: true,
             opacity: 0.4,
         });
-        const boundingBox = new THREE.LineSegments(edges, lineMaterial);
-        boundingBox.position.set(9.5, 9.5, 9.5); // Center the box
-        this.scene.add(boundingBox);
+        this.boundingBox = new THREE.LineSegments(edges, lineMaterial);
+        const [x, y, z] = this.dims.map((d) => (d - 1) / 2);
+        this.boundingBox.position.set(x, y, z); // Center the box
+        this.scene.add(this.boundingBox);
     }
 
     private setupEventListeners() {
         const canvas = this.renderer.domElement;
+        const { signal } = this.listeners;
+
+        canvas.addEventListener(
+            "mousemove",
+            (event) => {
+                const rect = canvas.getBoundingClientRect();
+                this.mouse.x = ((event.clientX - rect.left) / rect.width) * 2 - 1;
+                this.mouse.y = -((event.clientY - rect.top) / rect.height) * 2 + 1;
+
+                this.continueStroke();
+                this.updateHighlight();
+                this.updatePreview();
+                this.updateSelectionBox();
+            },
+            { signal }
+        );
 
-        canvas.addEventListener("mousemove", (event) => {
-            const rect = canvas.getBoundingClientRect();
-            this.mouse.x = ((event.clientX - rect.left) / rect.width) * 2 - 1;
-            this.mouse.y = -((event.clientY - rect.top) / rect.height) * 2 + 1;
+        canvas.addEventListener(
+            "mousedown",
+            (event) => {
+                this.handleMouseDown(event);
+            },
+            { signal }
+        );
 
-            this.updateHighlight();
-        });
+        // On the window, so letting go outside the canvas still ends a stroke
+        window.addEventListener(
+            "mouseup",
+            (event) => {
+                this.handleMouseUp(event);
+            },
+            { signal }
+        );
 
-        canvas.addEventListener("mousedown", (event) => {
-            this.handleMouseDown(event);
-        });
+        canvas.addEventListener(
+            "contextmenu",
+            (event) => {
+                event.preventDefault();
+            },
+            { signal }
+        );
 
-        canvas.addEventListener("contextmenu", (event) => {
-            event.preventDefault();
-        });
+        window.addEventListener(
+            "keydown",
+            (event) => {
+                this.handleKeyDown(event);
+            },
+            { signal }
+        );
 
-        window.addEventListener("resize", () => {
-            this.camera.aspect = canvas.clientWidth / canvas.clientHeight;
-            this.camera.updateProjectionMatrix();
-            this.renderer.setSize(canvas.clientWidth, canvas.clientHeight);
-        });
+        window.addEventListener(
+            "resize",
+            () => {
+                this.camera.aspect = canvas.clientWidth / canvas.clientHeight;
+                this.camera.updateProjectionMatrix();
+                this.renderer.setSize(canvas.clientWidth, canvas.clientHeight);
+                this.requestRender();
+            },
+            { signal }
+        );
     }
 
     private handleMouseDown(event: MouseEvent) {
-        if (event.button === 0 || event.button === 2) {
+        if (event.button === 2) {
+            this.rightDown = { x: event.clientX, y: event.clientY };
+        } else if (event.button === 0) {
             event.preventDefault();
             event.stopPropagation();
 
-            if (event.button === 2 || (event.button === 0 && event.ctrlKey)) {
-                this.handleVoxelRemoval();
-            } else if (event.button === 0) {
-                this.handleVoxelPlacement();
+            const erase = event.ctrlKey || this.currentColor === "ERASER";
+            if (this.floating) {
+                this.putDown();
+            } else if (this.tool) {
+                this.applyTool(erase ? null : this.currentColor);
+            } else {
+                this.startStroke(erase ? null : this.currentColor);
             }
         }
     }
 
-    private handleVoxelRemoval() {
+    private handleMouseUp(event: MouseEvent) {
+        if (event.button === 0) {
+            this.endStroke();
+        } else if (event.button === 2 && this.rightDown) {
+            // A right-click that didn't orbit the camera erases
+            const moved = Math.hypot(
+                event.clientX - this.rightDown.x,
+                event.clientY - this.rightDown.y
+            );
+            this.rightDown = null;
+            if (moved < CLICK_SLOP) {
+                this.startStroke(null);
+                this.endStroke();
+            }
+        }
+    }
+
+    // Paint with `color`, or erase if it is null, in the layer under the cursor:
+    // the one a placed voxel would go in, or the one of the voxel to erase
+    private startStroke(color: string | null) {
         if (!this.editingEnabled) return;
 
-        const existingVoxelResult = this.getExistingVoxelAtMouse();
-        if (existingVoxelResult !== null) {
-            this.onVoxelClick?.(existingVoxelResult, null);
+        this.raycaster.setFromCamera(this.mouse, this.camera);
+        const start = color === null ? this.eraseStart() : this.paintStart();
+        if (!start) return;
+
+        const [cell, axis] = start;
+        this.painting = { stroke: new Stroke(axis, cell[axis], this.dims), color };
+        this.strokeTo(cell);
+    }
+
+    private paintStart(): [Cell, number] | null {
+        const hit = this.voxelMeshes.pick(this.raycaster);
+        if (!hit) {
+            const ground = this.getGroundPlacement();
+            return ground === null ? null : [unpackKey(ground, this.dims), 1];
         }
+        const placement = this.getAdjacentVoxelPlacement();
+        if (placement === null) return null;
+        return [unpackKey(placement, this.dims), normalAxis(hit.normal)];
     }
 
-    private handleVoxelPlacement() {
-        if (!this.editingEnabled) return;
+    private eraseStart(): [Cell, number] | null {
+        const hit = this.voxelMeshes.pick(this.raycaster);
+        return hit ? [unpackKey(hit.k, this.dims), normalAxis(hit.normal)] : null;
+    }
+
+    // Follow the cursor across the stroke's layer
+    private continueStroke() {
+        if (!this.painting) return;
+
+        this.raycaster.setFromCamera(this.mouse, this.camera);
+        const { origin, direction } = this.raycaster.ray;
+        const { axis, layer } = this.painting.stroke;
+        const cell = rayLayerCell(origin.toArray(), direction.toArray(), axis, layer, this.dims);
+        if (cell) this.strokeTo(cell);
+    }
+
+    // Send the cells newly reached that the stroke would change
+    private strokeTo(cell: Cell) {
+        if (!this.painting) return;
+
+        const { stroke, color } = this.painting;
+        const keys = this.changes(
+            stroke.to(cell).map((c) => key(...c, this.dims)),
+            color
+        );
+        if (keys.length)
+            this.onStroke?.(
+                keys.map((k) => ({ k, color })),
+                false
+            );
+    }
+
+    // The voxels that painting `color`, or erasing, would change, with their
+    // mirror images in the symmetry planes
+    private changes(keys: number[], color: string | null): number[] {
+        const mirrored = mirrorChanges(
+            keys.map((k) => ({ k, color })),
+            this.symmetry,
+            this.dims
+        );
+        return mirrored
+            .map(({ k }) => k)
+            .filter((k) =>
+                color === null ? this.voxelMap.has(k) : this.voxelMap.get(k) !== color
+            );
+    }
+
+    private endStroke() {
+        if (!this.painting) return;
+        this.painting = null;
+        this.onStrokeEnd?.();
+    }
+
+    // A fill changes everything at once. A shape's first click fixes one corner;
+    // the second draws it between the two. Either is sent as a single stroke, so
+    // it is one edit to undo, and a fill as a transaction nobody sees half of.
+    private applyTool(color: string | null) {
+        if (!this.editingEnabled || !this.tool) return;
+        if (this.tool.kind === "select") {
+            this.selectCorner();
+            return;
+        }
+
+        const fill = isFill(this.tool);
+        if (!fill && !this.anchor) {
+            this.anchor = this.shapeCell(color === null);
+            this.updatePreview();
+            return;
+        }
+
+        const keys = this.toolChanges(color);
+        this.anchor = null;
+        if (keys?.length) {
+            // Mirrored, a fill may no longer fit in one transaction
+            this.onStroke?.(
+                keys.map((k) => ({ k, color })),
+                fill && keys.length <= FILL_LIMIT
+            );
+            this.onStrokeEnd?.();
+        }
+        this.updatePreview();
+    }
+
+    // What the tool would change if clicked now, or null if it would do nothing
+    private toolChanges(color: string | null): number[] | null {
+        const tool = this.tool;
+        if (!tool) return null;
+        if (isFill(tool)) {
+            const region = this.fillRegion(tool);
+            return region && this.changes(region, color);
+        }
+
+        if (tool.kind === "select") return null;
+
+        const cell = this.anchor && this.shapeCell(color === null);
+        if (!this.anchor || !cell) return null;
+        const cells = rasterize(tool, this.anchor, cell);
+        return this.changes(
+            cells.map((c) => key(...c, this.dims)),
+            color
+        );
+    }
+
+    // The region the fill under the cursor covers: the voxel's in its colour,
+    // or the empty cells walled in within the layer a voxel would be placed in
+    private fillRegion(tool: FillTool): number[] | null {
+        this.raycaster.setFromCamera(this.mouse, this.camera);
+        const limit = tool.limit ?? FILL_LIMIT;
+        if (tool.kind === "recolor") {
+            const hit = this.voxelMeshes.pick(this.raycaster);
+            return hit && connectedRegion(this.voxelMap, hit.k, limit, this.dims);
+        }
+        const start = this.paintStart();
+        if (!start) return null;
+        const [cell, axis] = start;
+        return enclosedRegion(this.voxelMap, key(...cell, this.dims), axis, limit, this.dims);
+    }
+
+    // Where the cursor puts a shape's corner: on the voxel it erases, or the
+    // cell a placed voxel would go in
+    private shapeCell(erase: boolean): Cell | null {
+        this.raycaster.setFromCamera(this.mouse, this.camera);
+        if (erase) return this.eraseStart()?.[0] ?? null;
+        const k = this.getVoxelAtMouse();
+        return k === null ? null : unpackKey(k, this.dims);
+    }
 
-        if (this.currentColor === "ERASER") {
-            // When eraser is selected, act like removal
-            this.handleVoxelRemoval();
+    // The first click fixes one corner of the selection, the second the other
+    private selectCorner() {
+        const cell = this.selectCell();
+        if (!cell) return;
+        if (this.anchor) {
+            this.selection = [this.anchor, cell];
+            this.anchor = null;
         } else {
-            const k = this.getVoxelAtMouse();
-            if (k !== null) {
-                this.onVoxelClick?.(k, this.currentColor);
-            }
+            this.anchor = cell;
+            this.selection = null;
+        }
+        this.updateSelectionBox();
+    }
+
+    // Where the cursor puts a selection's corner: on the voxel under it, or the
+    // floor below
+    private selectCell(): Cell | null {
+        this.raycaster.setFromCamera(this.mouse, this.camera);
+        const hit = this.eraseStart();
+        if (hit) return hit[0];
+        const ground = this.getGroundPlacement();
+        return ground === null ? null : unpackKey(ground, this.dims);
+    }
+
+    // Stretch the outline over the selection, or from its first corner to the cursor
+    private updateSelectionBox() {
+        const choosing = this.anchor && this.tool?.kind === "select";
+        const cursor = choosing ? this.selectCell() : null;
+        const corners = this.selection ?? (this.anchor && cursor && [this.anchor, cursor]);
+        if (!corners && !this.selectionBox.visible) return;
+
+        this.selectionBox.visible = !!corners;
+        if (corners) {
+            const [a, b] = corners;
+            const centre = a.map((c, i) => (c + b[i]) / 2);
+            const size = a.map((c, i) => Math.abs(b[i] - c) + 1.1);
+            this.selectionBox.position.set(centre[0], centre[1], centre[2]);
+            this.selectionBox.scale.set(size[0], size[1], size[2]);
+        }
+        this.requestRender();
+    }
+
+    // Esc backs out of whatever is under way. With a selection or a floating
+    // piece, M lifts it to move, X, Y or Z turns it a quarter about that axis
+    // and Shift+X, Y or Z mirrors it along it.
+    private handleKeyDown(event: KeyboardEvent) {
+        if (event.target instanceof HTMLInputElement) return;
+        if (event.key === "Escape") {
+            this.cancel();
+            return;
+        }
+        if (!this.editingEnabled || event.ctrlKey || event.metaKey || event.altKey) return;
+
+        const name = event.key.toLowerCase();
+        const axis = ["x", "y", "z"].indexOf(name);
+        if (name !== "m" && axis < 0) return;
+        const floating = this.floating ?? this.lift();
+        if (!floating) return;
+        if (axis >= 0) {
+            floating.piece = event.shiftKey
+                ? mirror(floating.piece, axis)
+                : rotate(floating.piece, axis);
         }
+        this.updatePreview();
+    }
+
+    // Drops a floating piece, or else the shape or selection under way
+    private cancel() {
+        if (this.floating) this.floating = null;
+        else if (!this.anchor) this.selection = null;
+        this.cancelShape();
+    }
+
+    // Picks the selection up to follow the cursor. Its voxels stay where they
+    // are until it is put down.
+    private lift(): Floating | null {
+        if (!this.selection) return null;
+        const [a, b] = this.selection;
+        const piece = copyBox(this.voxelMap, a, b, this.dims);
+        const lo = a.map((c, i) => Math.min(c, b[i])) as Cell;
+        this.floating = { piece, lifted: [...place(piece, lo, this.dims).keys()] };
+        this.selection = null;
+        this.updateSelectionBox();
+        return this.floating;
+    }
+
+    // What putting the floating piece down around the cursor would change: its
+    // voxels where it lands, and those it was lifted from cleared. Null when the
+    // cursor is off the canvas.
+    private dropChanges({ piece, lifted }: Floating): VoxelChange[] | null {
+        const cell = this.shapeCell(false);
+        if (!cell) return null;
+        const changes = new Map<number, string | null>(lifted.map((k) => [k, null]));
+        const at = placeAround(piece, cell, this.dims);
+        for (const [k, color] of place(piece, at, this.dims)) changes.set(k, color);
+        return [...changes]
+            .filter(([k, color]) => (this.voxelMap.get(k) ?? null) !== color)
+            .map(([k, color]) => ({ k, color }));
+    }
+
+    // Sent as a single stroke, and a transaction when it fits in one
+    private putDown() {
+        if (!this.editingEnabled || !this.floating) return;
+        const changes = this.dropChanges(this.floating);
+        if (!changes) return;
+
+        this.floating = null;
+        if (changes.length) {
+            this.onStroke?.(changes, changes.length <= FILL_LIMIT);
+            this.onStrokeEnd?.();
+        }
+        this.updatePreview();
+    }
+
+    // What a click would change now
+    private plannedChanges(): VoxelChange[] {
+        if (!this.editingEnabled) return [];
+        if (this.floating) return this.dropChanges(this.floating) ?? [];
+        const color = this.currentColor === "ERASER" ? null : this.currentColor;
+        return (this.toolChanges(color) ?? []).map((k) => ({ k, color }));
+    }
+
+    private updatePreview() {
+        const changes = this.plannedChanges();
+        if (!changes.length && !this.preview.count) return;
+
+        const matrix = new THREE.Matrix4();
+        const color = new THREE.Color();
+        changes.forEach(({ k, color: hex }, i) => {
+            this.preview.setMatrixAt(i, matrix.makeTranslation(...unpackKey(k, this.dims)));
+            this.preview.setColorAt(i, color.set(hex ?? ERASE_PREVIEW));
+        });
+        this.preview.count = changes.length;
+        this.preview.instanceMatrix.needsUpdate = true;
+        if (this.preview.instanceColor) this.preview.instanceColor.needsUpdate = true;
+        this.requestRender();
+    }
+
+    private cancelShape() {
+        this.anchor = null;
+        this.updatePreview();
+        this.updateSelectionBox();
     }
 
     private getVoxelAtMouse(): number | null {
@@ -226,50 +646,33 @@ export class VoxelScene {
     }
 
     private getAdjacentVoxelPlacement(): number | null {
-        if (this.instancedMesh.count === 0) return null;
-
-        const voxelIntersects = this.raycaster.intersectObject(this.instancedMesh, false);
-        if (voxelIntersects.length === 0) return null;
-
-        const intersect = voxelIntersects[0];
-        const instanceId = intersect.instanceId;
-        if (instanceId === undefined || !intersect.face) return null;
-
-        const voxelPosition = this.getVoxelPosition(instanceId);
-        if (!voxelPosition) return null;
+        const hit = this.voxelMeshes.pick(this.raycaster);
+        if (!hit) return null;
 
-        const normal = intersect.face.normal.clone();
-        const newPos = voxelPosition.clone().add(normal);
+        const [x, y, z] = unpackKey(hit.k, this.dims);
         const coords = {
-            x: Math.round(newPos.x),
-            y: Math.round(newPos.y),
-            z: Math.round(newPos.z),
+            x: Math.round(x + hit.normal.x),
+            y: Math.round(y + hit.normal.y),
+            z: Math.round(z + hit.normal.z),
         };
 
         return this.validateVoxelPlacement(coords);
     }
 
-    private getVoxelPosition(instanceId: number): THREE.Vector3 | null {
-        const matrix = new THREE.Matrix4();
-        this.instancedMesh.getMatrixAt(instanceId, matrix);
-        const position = new THREE.Vector3();
-        matrix.decompose(position, new THREE.Quaternion(), new THREE.Vector3());
-        return position;
-    }
-
     private validateVoxelPlacement(coords: { x: number; y: number; z: number }): number | null {
+        const [width, height, depth] = this.dims;
         if (
             coords.x < 0 ||
-            coords.x >= 20 ||
+            coords.x >= width ||
             coords.y < 0 ||
-            coords.y >= 20 ||
+            coords.y >= height ||
             coords.z < 0 ||
-            coords.z >= 20
+            coords.z >= depth
         ) {
             return null;
         }
 
-        const newKey = key(coords.x, coords.y, coords.z);
+        const newKey = key(coords.x, coords.y, coords.z, this.dims);
         if (this.voxelMap.has(newKey)) {
             return null;
         }
@@ -282,47 +685,19 @@ export class VoxelScene {
         if (groundPlaneIntersects.length === 0) return null;
 
         const point = groundPlaneIntersects[0].point;
-        const x = Math.floor(Math.max(0, Math.min(19, point.x)));
-        const z = Math.floor(Math.max(0, Math.min(19, point.z)));
-        return key(x, 0, z);
-    }
-
-    private getExistingVoxelAtMouse(): number | null {
-        this.raycaster.setFromCamera(this.mouse, this.camera);
-
-        // Check if we're clicking directly on an existing voxel
-        if (this.instancedMesh.count > 0) {
-            const voxelIntersects = this.raycaster.intersectObject(this.instancedMesh, false);
-            if (voxelIntersects.length > 0) {
-                const intersect = voxelIntersects[0];
-                const instanceId = intersect.instanceId;
-                if (instanceId !== undefined) {
-                    // Get the position of the clicked voxel
-                    const matrix = new THREE.Matrix4();
-                    this.instancedMesh.getMatrixAt(instanceId, matrix);
-                    const position = new THREE.Vector3();
-                    matrix.decompose(position, new THREE.Quaternion(), new THREE.Vector3());
-
-                    const x = Math.round(position.x);
-                    const y = Math.round(position.y);
-                    const z = Math.round(position.z);
-
-                    return key(x, y, z);
-                }
-            }
-        }
-
-        return null;
+        const x = Math.floor(Math.max(0, Math.min(this.dims[0] - 1, point.x)));
+        const z = Math.floor(Math.max(0, Math.min(this.dims[2] - 1, point.z)));
+        return key(x, 0, z, this.dims);
     }
 
     private updateHighlight() {
         const k = this.getVoxelAtMouse();
         if (k !== null) {
-            const [x, y, z] = unpackKey(k);
+            const [x, y, z] = unpackKey(k, this.dims);
             this.highlightMesh.position.set(x, y, z);
             this.highlightMesh.visible = true;
 
-            // Send cursor position to other players (only if it changed)
+            // Send cursor position to other players and redraw (only if it changed)
             const newCursor: [number, number, number] = [x, y, z];
             if (
                 !this.lastCursorSent ||
@@ -332,6 +707,7 @@ export class VoxelScene {
             ) {
                 this.lastCursorSent = newCursor;
                 this.onCursorMove?.(newCursor);
+                this.requestRender();
             }
         } else {
             this.highlightMesh.visible = false;
@@ -340,64 +716,143 @@ export class VoxelScene {
             if (this.lastCursorSent !== null) {
                 this.lastCursorSent = null;
                 this.onCursorMove?.(null);
+                this.requestRender();
             }
         }
     }
 
     setCurrentColor(color: string) {
         this.currentColor = color;
+        this.updatePreview();
     }
 
     setEditingEnabled(enabled: boolean) {
         this.editingEnabled = enabled;
+        // With nothing to paint, left-drag orbits the camera again
+        this.controls.mouseButtons.LEFT = enabled ? null : THREE.MOUSE.ROTATE;
+        if (!enabled) {
+            this.endStroke();
+            this.floating = null;
+            this.cancelShape();
+        }
     }
 
-    setOnVoxelClick(callback: (k: number, color: string | null) => void) {
-        this.onVoxelClick = callback;
+    // Draw shapes or fill with a click, or paint freehand when null
+    setTool(tool: Tool | null) {
+        this.tool = tool;
+        this.cancelShape();
+    }
+
+    // Cells a stroke changes as it reaches them, and the end of the stroke.
+    // Atomic changes must reach the room all together.
+    setOnStroke(onStroke: (changes: VoxelChange[], atomic: boolean) => void, onEnd: () => void) {
+        this.onStroke = onStroke;
+        this.onStrokeEnd = onEnd;
+    }
+
+    // Mirror every painted or erased voxel in these planes, which are drawn
+    // across the canvas
+    setSymmetry(planes: SymmetryPlane[]) {
+        this.symmetry = planes;
+        for (const mesh of [...this.symmetryPlanes.children]) {
+            this.symmetryPlanes.remove(mesh);
+            disposeObject(mesh);
+        }
+        for (const plane of planes) this.symmetryPlanes.add(planeMesh(plane, this.dims));
+        this.updatePreview();
+        this.requestRender();
+    }
+
+    // The selected box, or the piece following the cursor
+    copySelection(): Piece | null {
+        if (this.floating) return this.floating.piece;
+        return this.selection && copyBox(this.voxelMap, ...this.selection, this.dims);
+    }
+
+    // Float a piece with the cursor until a click puts it down
+    paste(piece: Piece) {
+        if (!this.editingEnabled) return;
+        this.floating = { piece, lifted: [] };
+        this.updatePreview();
+    }
+
+    // Resize the canvas, which starts out 20 across. The voxels are cleared, so
+    // call this before drawing any, and whatever was under way is dropped.
+    setDims(dims: Dims) {
+        if (dims.every((d, i) => d === this.dims[i])) return;
+        this.dims = dims;
+        this.endStroke();
+        this.floating = null;
+        this.selection = null;
+
+        this.voxelMeshes.dispose();
+        this.voxelMeshes = this.createVoxelMeshes();
+        this.voxelMap = new Map();
+        this.scene.remove(this.preview);
+        disposeObject(this.preview);
+        this.preview = previewMesh(cellCount(dims));
+        this.scene.add(this.preview);
+        this.createGridPlanes();
+        this.createBoundingBox();
+        this.frameCamera();
+        this.setSymmetry(this.symmetry);
+        this.cancelShape();
     }
 
     setOnCursorMove(callback: (cursor: [number, number, number] | null) => void) {
         this.onCursorMove = callback;
     }
 
-    updateVoxels(voxels: Map<number, string>) {
+    updateVoxels(voxels: Map<number, string>, style: VoxelStyle = {}) {
         this.voxelMap = new Map(voxels);
-        this.updateInstancedMesh();
+        this.voxelMeshes.update(this.voxelMap, style);
+        this.requestRender();
     }
 
-    updatePlayerPresence(
-        players: Array<{ playerId: string; cursor?: [number, number, number] }>,
-        myPlayerId: string
-    ) {
-        // Remove cursors for players no longer present
-        for (const [playerId, cursorMesh] of this.otherPlayerCursors.entries()) {
-            const playerStillPresent = players.some(
-                (p) => p.playerId === playerId && p.playerId !== myPlayerId
+    // Redraw only the voxels the ops change, leaving the rest untouched
+    applyOps(ops: VoxelChange[]) {
+        for (const { k, color } of ops) {
+            if (color === null) {
+                this.voxelMap.delete(k);
+            } else {
+                this.voxelMap.set(k, color);
+            }
+        }
+        this.voxelMeshes.apply(ops);
+        this.requestRender();
+    }
+
+    updatePlayerPresence(players: PlayerPresence[], mySessionId: string) {
+        // Remove cursors for sessions no longer present
+        for (const [sessionId, cursorMesh] of this.otherPlayerCursors.entries()) {
+            const sessionStillPresent = players.some(
+                (p) => p.sessionId === sessionId && p.sessionId !== mySessionId
             );
-            if (!playerStillPresent) {
+            if (!sessionStillPresent) {
                 this.scene.remove(cursorMesh);
-                this.otherPlayerCursors.delete(playerId);
+                disposeObject(cursorMesh);
+                this.otherPlayerCursors.delete(sessionId);
             }
         }
 
-        // Update or create cursors for other players
+        // Update or create cursors for other sessions, including our own other tabs
         for (const player of players) {
-            if (player.playerId === myPlayerId || !player.cursor) continue; // Skip self and players without cursors
+            if (player.sessionId === mySessionId || !player.cursor) continue; // Skip self and sessions without cursors
 
-            let cursorMesh = this.otherPlayerCursors.get(player.playerId);
+            let cursorMesh = this.otherPlayerCursors.get(player.sessionId);
             if (!cursorMesh) {
-                // Create new cursor mesh for this player
+                // Create new cursor mesh for this session, coloured by player
                 const cursorGeometry = new THREE.EdgesGeometry(
                     new THREE.BoxGeometry(1.1, 1.1, 1.1)
                 );
                 const cursorMaterial = new THREE.LineBasicMaterial({
-                    color: this.getPlayerColor(player.playerId),
+                    color: playerColor(player.playerId),
                     transparent: true,
                     opacity: 0.8,
                 });
                 cursorMesh = new THREE.LineSegments(cursorGeometry, cursorMaterial);
                 this.scene.add(cursorMesh);
-                this.otherPlayerCursors.set(player.playerId, cursorMesh);
+                this.otherPlayerCursors.set(player.sessionId, cursorMesh);
             }
 
             // Update cursor position
@@ -405,64 +860,8 @@ export class VoxelScene {
             cursorMesh.position.set(x, y, z);
             cursorMesh.visible = true;
         }
-    }
-
-    private getPlayerColor(playerId: string): number {
-        // Generate a consistent color based on playerId
-        let hash = 0;
-        for (let i = 0; i < playerId.length; i++) {
-            hash = ((hash << 5) - hash + playerId.charCodeAt(i)) & 0xffffffff;
-        }
-        // Convert to a nice color range
-        const hue = Math.abs(hash) % 360;
-        return new THREE.Color().setHSL(hue / 360, 0.7, 0.5).getHex();
-    }
-
-    private updateInstancedMesh() {
-        const voxelCount = this.voxelMap.size;
-        this.instancedMesh.count = voxelCount;
-        this.borderMesh.count = voxelCount;
-
-        if (voxelCount === 0) {
-            return;
-        }
-
-        let index = 0;
-        for (const [k, colorHex] of this.voxelMap) {
-            const [x, y, z] = unpackKey(k);
-
-            // Set position for main voxel
-            this.dummy.position.set(x, y, z);
-            this.dummy.updateMatrix();
-            this.instancedMesh.setMatrixAt(index, this.dummy.matrix);
-            this.borderMesh.setMatrixAt(index, this.dummy.matrix);
-
-            // Use the exact color from the picker - no modifications
-            const color = new THREE.Color(colorHex);
-            this.instancedMesh.setColorAt(index, color);
-
-            // Set border color (darker version of the main color)
-            const borderColor = new THREE.Color(colorHex);
-            const hsl = {};
-            borderColor.getHSL(hsl);
-            borderColor.setHSL(hsl.h, Math.min(1, hsl.s * 1.2), Math.max(0, hsl.l * 0.7)); // Darker
-            this.borderMesh.setColorAt(index, borderColor);
-
-            index++;
-        }
-
-        this.instancedMesh.instanceMatrix.needsUpdate = true;
-        this.borderMesh.instanceMatrix.needsUpdate = true;
-        if (this.instancedMesh.instanceColor) {
-            this.instancedMesh.instanceColor.needsUpdate = true;
-        }
-        if (this.borderMesh.instanceColor) {
-            this.borderMesh.instanceColor.needsUpdate = true;
-        }
 
-        // Update bounding spheres for raycasting
-        this.instancedMesh.computeBoundingSphere();
-        this.borderMesh.computeBoundingSphere();
+        this.requestRender();
     }
 
     render() {
@@ -475,6 +874,71 @@ export class VoxelScene {
             this.camera.aspect = container.clientWidth / container.clientHeight;
             this.camera.updateProjectionMatrix();
             this.renderer.setSize(container.clientWidth, container.clientHeight);
+            this.requestRender();
         }
     }
+
+    // Stop drawing and release everything: GPU resources, the canvas and listeners
+    dispose() {
+        this.frames.dispose();
+        this.listeners.abort();
+        this.controls.removeEventListener("change", this.requestRender);
+        this.controls.dispose();
+        disposeObject(this.scene);
+        this.renderer.dispose();
+        this.renderer.domElement.remove();
+    }
+}
+
+const normalAxis = (normal: THREE.Vector3) =>
+    [normal.x, normal.y, normal.z].findIndex((c) => Math.abs(c) > 0.5);
+
+// Translucent stand-ins for the voxels a tool or a floating piece would change,
+// room for `capacity` of them
+function previewMesh(capacity: number): THREE.InstancedMesh {
+    const mesh = new THREE.InstancedMesh(
+        new THREE.BoxGeometry(1.01, 1.01, 1.01),
+        new THREE.MeshBasicMaterial({ transparent: true, opacity: 0.35, depthWrite: false }),
+        capacity
+    );
+    mesh.count = 0;
+    mesh.frustumCulled = false;
+    return mesh;
+}
+
+// A translucent sheet across a canvas `dims` across where a symmetry plane sits
+function planeMesh({ axis, at }: SymmetryPlane, dims: Dims): THREE.Mesh {
+    // Its width and height before it is turned to face along its axis
+    const [width, height] = [
+        [dims[2], dims[1]],
+        [dims[0], dims[2]],
+        [dims[0], dims[1]],
+    ][axis];
+    const mesh = new THREE.Mesh(
+        new THREE.PlaneGeometry(width, height),
+        new THREE.MeshBasicMaterial({
+            color: SYMMETRY,
+            transparent: true,
+            opacity: 0.15,
+            side: THREE.DoubleSide,
+            depthWrite: false,
+        })
+    );
+    const [x, y, z] = dims.map((d) => (d - 1) / 2);
+    mesh.position.set(x, y, z);
+    mesh.position.setComponent(axis, at);
+    // The plane faces along z until turned to face along its axis
+    if (axis === 0) mesh.rotation.y = Math.PI / 2;
+    if (axis === 1) mesh.rotation.x = -Math.PI / 2;
+    return mesh;
+}
+
+// Frees the geometries and materials of an object and everything under it
+function disposeObject(root: THREE.Object3D) {
+    root.traverse((object) => {
+        if (!(object instanceof THREE.Mesh || object instanceof THREE.LineSegments)) return;
+        object.geometry.dispose();
+        const materials = Array.isArray(object.material) ? object.material : [object.material];
+        for (const material of materials) material.dispose();
+    });
 }
@@ -0,0 +1,148 @@
+import { describe, expect, it } from "vitest";
+import { box, type Cell, cylinder, ellipsoid, line, outline, rasterize } from "./shapes.js";
+import { key } from "./voxels.js";
+
+const chebyshev = (a: Cell, b: Cell) => Math.max(...a.map((c, i) => Math.abs(b[i] - c)));
+const keys = (cells: Cell[]) => new Set(cells.map((c) => key(...c)));
+
+describe("line", () => {
+    it("should run from one cell to the other without gaps", () => {
+        const cells = line([0, 0, 0], [7, 0, 3]);
+
+        expect(cells[0]).toEqual([0, 0, 0]);
+        expect(cells[cells.length - 1]).toEqual([7, 0, 3]);
+        expect(cells).toHaveLength(8);
+        for (let i = 1; i < cells.length; i++) expect(chebyshev(cells[i - 1], cells[i])).toBe(1);
+    });
+
+    it("should be the cell itself when both ends are the same", () => {
+        expect(line([4, 5, 6], [4, 5, 6])).toEqual([[4, 5, 6]]);
+    });
+
+    it("should run backwards along all three axes", () => {
+        const cells = line([9, 6, 3], [0, 0, 0]);
+
+        expect(cells).toHaveLength(10);
+        expect(cells[cells.length - 1]).toEqual([0, 0, 0]);
+        expect(keys(cells)).toEqual(keys(line([0, 0, 0], [9, 6, 3])));
+    });
+
+    it("should cover a diagonal with one cell per step", () => {
+        expect(line([0, 0, 0], [3, 3, 3])).toEqual([
+            [0, 0, 0],
+            [1, 1, 1],
+            [2, 2, 2],
+            [3, 3, 3],
+        ]);
+    });
+});
+
+describe("box", () => {
+    it("should fill the box between either pair of corners", () => {
+        const cells = box([4, 2, 0], [2, 0, 3]);
+
+        expect(cells).toHaveLength(3 * 3 * 4);
+        expect(keys(cells)).toEqual(keys(box([2, 0, 0], [4, 2, 3])));
+    });
+
+    it("should leave a hollow box empty inside", () => {
+        const cells = box([0, 0, 0], [2, 2, 2], false);
+
+        expect(cells).toHaveLength(26);
+        expect(keys(cells).has(key(1, 1, 1))).toBe(false);
+    });
+
+    it("should keep every cell of a box too thin to be hollow", () => {
+        expect(box([0, 5, 0], [6, 5, 6], false)).toHaveLength(49);
+    });
+});
+
+describe("ellipsoid", () => {
+    it("should fit a sphere in a cube", () => {
+        const cells = keys(ellipsoid([0, 0, 0], [4, 4, 4]));
+
+        expect(cells.has(key(2, 2, 2))).toBe(true);
+        expect(cells.has(key(2, 2, 0))).toBe(true);
+        expect(cells.has(key(0, 0, 0))).toBe(false);
+        expect(cells.has(key(4, 4, 4))).toBe(false);
+        // The same from all six sides
+        for (const [x, y, z] of [
+            [0, 2, 2],
+            [4, 2, 2],
+            [2, 0, 2],
+            [2, 4, 2],
+            [2, 2, 4],
+        ]) {
+            expect(cells.has(key(x, y, z))).toBe(true);
+        }
+    });
+
+    it("should stretch to fill a box that is not a cube", () => {
+        const cells = keys(ellipsoid([0, 0, 0], [8, 2, 2]));
+
+        expect(cells.has(key(0, 1, 1))).toBe(true);
+        expect(cells.has(key(8, 1, 1))).toBe(true);
+        expect(cells.has(key(0, 0, 0))).toBe(false);
+    });
+
+    it("should be a shell when not filled", () => {
+        const filled = ellipsoid([0, 0, 0], [6, 6, 6]);
+        const shell = keys(ellipsoid([0, 0, 0], [6, 6, 6], false));
+
+        expect(shell.size).toBeLessThan(filled.length);
+        expect(shell.has(key(3, 3, 3))).toBe(false);
+        expect(shell.has(key(3, 3, 0))).toBe(true);
+    });
+});
+
+describe("cylinder", () => {
+    it("should stack the same disc along its axis", () => {
+        const cells = cylinder([0, 0, 0], [4, 2, 4]);
+
+        // A 5x5 square without its corners, three layers high
+        expect(cells).toHaveLength(21 * 3);
+        const layer = keys(cells.filter(([, y]) => y === 0));
+        expect(layer.has(key(0, 0, 0))).toBe(false);
+        expect(layer.has(key(0, 0, 2))).toBe(true);
+        expect(layer.has(key(1, 0, 1))).toBe(true);
+    });
+
+    it("should lie along the axis it is given", () => {
+        const cells = keys(cylinder([0, 0, 0], [2, 4, 4], 0));
+
+        expect(cells.size).toBe(21 * 3);
+        expect(cells.has(key(1, 0, 0))).toBe(false);
+        expect(cells.has(key(1, 2, 0))).toBe(true);
+    });
+
+    it("should be a tube with ends when not filled", () => {
+        const cells = keys(cylinder([0, 0, 0], [4, 4, 4], 1, false));
+
+        expect(cells.has(key(2, 2, 2))).toBe(false);
+        expect(cells.has(key(2, 0, 2))).toBe(true);
+        expect(cells.has(key(2, 4, 2))).toBe(true);
+        expect(cells.has(key(0, 2, 2))).toBe(true);
+    });
+});
+
+describe("outline", () => {
+    it("should treat the canvas edge as outside", () => {
+        const cells = box([0, 0, 0], [19, 1, 19]);
+
+        expect(outline(cells)).toHaveLength(cells.length);
+    });
+});
+
+describe("rasterize", () => {
+    it("should draw each kind of shape between two anchors", () => {
+        const a: Cell = [1, 1, 1];
+        const b: Cell = [5, 5, 5];
+
+        expect(rasterize({ kind: "line", filled: false }, a, b)).toEqual(line(a, b));
+        expect(rasterize({ kind: "box", filled: false }, a, b)).toEqual(box(a, b, false));
+        expect(rasterize({ kind: "sphere", filled: true }, a, b)).toEqual(ellipsoid(a, b));
+        expect(rasterize({ kind: "cylinder", filled: true, axis: 2 }, a, b)).toEqual(
+            cylinder(a, b, 2)
+        );
+    });
+});
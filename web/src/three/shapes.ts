@@ -0,0 +1,111 @@
+export type Cell = [number, number, number]; // whole voxel coordinates
+
+export type ShapeKind = "line" | "box" | "sphere" | "cylinder";
+
+// A shape drawn between two anchor cells. Outline shapes keep only the cells on
+// their surface; a line is the same either way.
+export interface Shape {
+    kind: ShapeKind;
+    filled: boolean;
+    axis?: number; // the cylinder's, 1 (upright) unless given
+}
+
+// 3D Bresenham: the cells on a straight line from a to b, both included, each
+// one step (sideways or diagonally) from the last so the line has no gaps
+export function line(a: Cell, b: Cell): Cell[] {
+    const delta = a.map((c, i) => Math.abs(b[i] - c));
+    const step = a.map((c, i) => Math.sign(b[i] - c));
+    const drive = delta.indexOf(Math.max(...delta));
+    const error = delta.map((d) => 2 * d - delta[drive]);
+    const cell = [...a] as Cell;
+    const cells: Cell[] = [[...cell]];
+    for (let i = 0; i < delta[drive]; i++) {
+        for (let axis = 0; axis < 3; axis++) {
+            if (axis === drive) continue;
+            if (error[axis] > 0) {
+                cell[axis] += step[axis];
+                error[axis] -= 2 * delta[drive];
+            }
+            error[axis] += 2 * delta[axis];
+        }
+        cell[drive] += step[drive];
+        cells.push([...cell]);
+    }
+    return cells;
+}
+
+// Every cell in the box with corners a and b
+function boxCells(a: Cell, b: Cell): Cell[] {
+    const lo = a.map((c, i) => Math.min(c, b[i]));
+    const hi = a.map((c, i) => Math.max(c, b[i]));
+    const cells: Cell[] = [];
+    for (let z = lo[2]; z <= hi[2]; z++) {
+        for (let y = lo[1]; y <= hi[1]; y++) {
+            for (let x = lo[0]; x <= hi[0]; x++) cells.push([x, y, z]);
+        }
+    }
+    return cells;
+}
+
+// The cells of the box a..b whose centres fall inside the ellipse or ellipsoid
+// fitting it, measured across `axes`
+function inscribed(a: Cell, b: Cell, axes: number[]): Cell[] {
+    const centre = a.map((c, i) => (c + b[i]) / 2);
+    const radius = a.map((c, i) => (Math.abs(b[i] - c) + 1) / 2);
+    return boxCells(a, b).filter(
+        (cell) => axes.reduce((sum, i) => sum + ((cell[i] - centre[i]) / radius[i]) ** 2, 0) <= 1
+    );
+}
+
+// The six cells sharing a face with a cell, as steps from it
+export const NEIGHBOURS: Cell[] = [
+    [1, 0, 0],
+    [-1, 0, 0],
+    [0, 1, 0],
+    [0, -1, 0],
+    [0, 0, 1],
+    [0, 0, -1],
+];
+
+// The cells with a face open to the outside of the shape. Cells are told apart
+// by their coordinates, so it works the same on any size of canvas.
+export function outline(cells: Cell[]): Cell[] {
+    const filled = new Set(cells.map((c) => c.join()));
+    return cells.filter((cell) =>
+        NEIGHBOURS.some((n) => !filled.has(cell.map((c, i) => c + n[i]).join()))
+    );
+}
+
+export function box(a: Cell, b: Cell, filled = true): Cell[] {
+    const cells = boxCells(a, b);
+    return filled ? cells : outline(cells);
+}
+
+// The ellipsoid fitting the box a..b, a sphere when the box is a cube
+export function ellipsoid(a: Cell, b: Cell, filled = true): Cell[] {
+    const cells = inscribed(a, b, [0, 1, 2]);
+    return filled ? cells : outline(cells);
+}
+
+// The elliptic cylinder fitting the box a..b, running along `axis`
+export function cylinder(a: Cell, b: Cell, axis = 1, filled = true): Cell[] {
+    const cells = inscribed(
+        a,
+        b,
+        [0, 1, 2].filter((i) => i !== axis)
+    );
+    return filled ? cells : outline(cells);
+}
+
+export function rasterize(shape: Shape, a: Cell, b: Cell): Cell[] {
+    switch (shape.kind) {
+        case "line":
+            return line(a, b);
+        case "box":
+            return box(a, b, shape.filled);
+        case "sphere":
+            return ellipsoid(a, b, shape.filled);
+        case "cylinder":
+            return cylinder(a, b, shape.axis, shape.filled);
+    }
+}
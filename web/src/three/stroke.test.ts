@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { rayLayerCell, Stroke } from "./stroke.js";
+
+describe("rayLayerCell", () => {
+    it("should find the cell where a ray crosses a layer", () => {
+        // Looking down at the floor at an angle
+        expect(rayLayerCell([2, 10, 2], [0.5, -1, 0.25], 1, 0)).toEqual([7, 0, 5]);
+    });
+
+    it("should miss layers the ray runs alongside, points away from or meets outside the canvas", () => {
+        expect(rayLayerCell([2, 10, 2], [1, 0, 0], 1, 0)).toBeNull();
+        expect(rayLayerCell([2, 10, 2], [0, 1, 0], 1, 0)).toBeNull();
+        expect(rayLayerCell([2, 10, 2], [-1, -1, 0], 1, 0)).toBeNull();
+    });
+});
+
+describe("Stroke", () => {
+    it("should fill in the cells between two far apart cursor positions", () => {
+        const stroke = new Stroke(1, 0);
+
+        expect(stroke.to([2, 0, 2])).toEqual([[2, 0, 2]]);
+        expect(stroke.to([6, 0, 2])).toEqual([
+            [3, 0, 2],
+            [4, 0, 2],
+            [5, 0, 2],
+            [6, 0, 2],
+        ]);
+    });
+
+    it("should not visit a cell twice", () => {
+        const stroke = new Stroke(1, 0);
+        stroke.to([2, 0, 2]);
+        stroke.to([4, 0, 2]);
+
+        expect(stroke.to([2, 0, 2])).toEqual([]);
+        expect(stroke.to([2, 0, 3])).toEqual([[2, 0, 3]]);
+    });
+
+    it("should stay in the layer it started in", () => {
+        const stroke = new Stroke(1, 3);
+
+        expect(stroke.to([2, 4, 2])).toEqual([]);
+        expect(stroke.to([2, 3, 2])).toEqual([[2, 3, 2]]);
+    });
+});
@@ -0,0 +1,52 @@
+import { DEFAULT_DIMS, type Dims } from "../../../worker/src/schema.js";
+import { type Cell, line } from "./shapes.js";
+import { key } from "./voxels.js";
+
+export type Point = [number, number, number];
+
+const inside = (cell: Cell, dims: Dims) => cell.every((c, i) => c >= 0 && c < dims[i]);
+
+// The cell where a ray crosses the layer of cells `layer` along `axis`, or null
+// if it never does inside a canvas `dims` across. Voxel centres sit on whole coordinates.
+export function rayLayerCell(
+    origin: Point,
+    direction: Point,
+    axis: number,
+    layer: number,
+    dims: Dims = DEFAULT_DIMS
+): Cell | null {
+    if (Math.abs(direction[axis]) < 1e-9) return null;
+    const t = (layer - origin[axis]) / direction[axis];
+    if (t < 0) return null;
+    const cell = origin.map((c, i) =>
+        i === axis ? layer : Math.round(c + direction[i] * t)
+    ) as Cell;
+    return inside(cell, dims) ? cell : null;
+}
+
+// One press-and-drag of the mouse, held to the layer it started in so it
+// follows the surface instead of climbing onto the voxels it just placed.
+// Fast moves are filled in along a straight line, and no cell is visited twice.
+export class Stroke {
+    private visited = new Set<number>();
+    private last: Cell | null = null;
+
+    constructor(
+        readonly axis: number,
+        readonly layer: number,
+        private readonly dims: Dims = DEFAULT_DIMS
+    ) {}
+
+    // Cells the stroke reaches moving to `cell`, leaving out ones it already crossed
+    to(cell: Cell): Cell[] {
+        if (cell[this.axis] !== this.layer || !inside(cell, this.dims)) return [];
+        const cells = this.last ? line(this.last, cell) : [cell];
+        this.last = cell;
+        return cells.filter((c) => {
+            const k = key(...c, this.dims);
+            if (this.visited.has(k)) return false;
+            this.visited.add(k);
+            return true;
+        });
+    }
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import { centre, mirrorChanges } from "./symmetry.js";
+import { key } from "./voxels.js";
+
+const RED = "#f94144";
+const BLUE = "#277da1";
+
+describe("mirrorChanges", () => {
+    it("should mirror across the canvas centre", () => {
+        const plane = { axis: 0, at: centre([20, 20, 20], 0) };
+
+        expect(mirrorChanges([{ k: key(2, 5, 7), color: RED }], [plane])).toEqual([
+            { k: key(2, 5, 7), color: RED },
+            { k: key(17, 5, 7), color: RED },
+        ]);
+    });
+
+    it("should mirror about a chosen layer, leaving the layer itself alone", () => {
+        const plane = { axis: 1, at: 4 };
+
+        expect(mirrorChanges([{ k: key(0, 6, 0), color: null }], [plane])).toEqual([
+            { k: key(0, 6, 0), color: null },
+            { k: key(0, 2, 0), color: null },
+        ]);
+        expect(mirrorChanges([{ k: key(0, 4, 0), color: RED }], [plane])).toHaveLength(1);
+    });
+
+    it("should mirror the images in every plane too", () => {
+        const planes = [0, 1, 2].map((axis) => ({ axis, at: centre([20, 20, 20], axis) }));
+        const changes = mirrorChanges([{ k: key(0, 0, 0), color: RED }], planes);
+
+        expect(changes).toHaveLength(8);
+        expect(changes.map((c) => c.k)).toContain(key(19, 19, 19));
+    });
+
+    it("should leave out images off the canvas", () => {
+        expect(mirrorChanges([{ k: key(1, 0, 0), color: RED }], [{ axis: 0, at: 12 }])).toEqual([
+            { k: key(1, 0, 0), color: RED },
+        ]);
+    });
+
+    it("should keep a change over an image landing on it", () => {
+        const changes = [
+            { k: key(9, 0, 0), color: RED },
+            { k: key(10, 0, 0), color: BLUE },
+        ];
+
+        expect(mirrorChanges(changes, [{ axis: 0, at: centre([20, 20, 20], 0) }])).toEqual(changes);
+    });
+
+    it("should mirror across the middle of the canvas it is given", () => {
+        const dims: [number, number, number] = [32, 16, 64];
+        const plane = { axis: 2, at: centre(dims, 2) };
+
+        expect(mirrorChanges([{ k: key(3, 15, 0, dims), color: RED }], [plane], dims)).toEqual([
+            { k: key(3, 15, 0, dims), color: RED },
+            { k: key(3, 15, 63, dims), color: RED },
+        ]);
+    });
+});
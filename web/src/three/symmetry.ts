@@ -0,0 +1,35 @@
+import { DEFAULT_DIMS, type Dims } from "../../../worker/src/schema.js";
+import type { VoxelChange } from "./meshes.js";
+import { key, unpackKey } from "./voxels.js";
+
+// The middle of a canvas `dims` across along `axis`: between cells 9 and 10 on 20
+export const centre = (dims: Dims, axis: number) => (dims[axis] - 1) / 2;
+
+// A plane across `axis` that edits are mirrored in. It sits at `at` on that
+// axis: a whole number runs through the middle of that layer of cells, a half
+// between two layers.
+export interface SymmetryPlane {
+    axis: number;
+    at: number;
+}
+
+// The changes with their mirror images in every plane, and in each plane's
+// image in the others. An image keeps the colour of the change it mirrors; one
+// landing off the canvas is left out, as is one landing on a change already made.
+export function mirrorChanges(
+    changes: VoxelChange[],
+    planes: SymmetryPlane[],
+    dims: Dims = DEFAULT_DIMS
+): VoxelChange[] {
+    const all = new Map(changes.map(({ k, color }) => [k, color]));
+    for (const { axis, at } of planes) {
+        for (const [k, color] of [...all]) {
+            const cell = unpackKey(k, dims);
+            cell[axis] = 2 * at - cell[axis];
+            if (cell[axis] < 0 || cell[axis] >= dims[axis]) continue;
+            const image = key(...cell, dims);
+            if (!all.has(image)) all.set(image, color);
+        }
+    }
+    return [...all].map(([k, color]) => ({ k, color }));
+}
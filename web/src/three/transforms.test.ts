@@ -0,0 +1,135 @@
+import { describe, expect, it } from "vitest";
+import type { Cell } from "./shapes.js";
+import {
+    copyBox,
+    mirror,
+    type Piece,
+    parsePiece,
+    pieceToJSON,
+    place,
+    placeAround,
+    rotate,
+} from "./transforms.js";
+import { key } from "./voxels.js";
+
+const RED = "#f94144";
+const BLUE = "#277da1";
+
+const canvas = (...voxels: [Cell, string][]) =>
+    new Map(voxels.map(([cell, color]) => [key(...cell), color]));
+
+const pieceOf = (size: Cell, ...voxels: [Cell, string][]): Piece => ({
+    size,
+    voxels: new Map(voxels.map(([cell, color]) => [key(...cell, size), color])),
+});
+
+// An L on the floor, 3 across x and 2 deep in z: a red arm along x, blue at its corner
+const ell = (): Piece =>
+    pieceOf([3, 1, 2], [[0, 0, 0], BLUE], [[1, 0, 0], RED], [[2, 0, 0], RED], [[0, 0, 1], RED]);
+
+describe("copyBox", () => {
+    it("should take the voxels inside the box, relative to its low corner", () => {
+        const voxels = canvas([[5, 2, 5], RED], [[6, 3, 5], BLUE], [[9, 2, 5], RED]);
+
+        expect(copyBox(voxels, [6, 3, 5], [5, 2, 5])).toEqual(
+            pieceOf([2, 2, 1], [[0, 0, 0], RED], [[1, 1, 0], BLUE])
+        );
+    });
+
+    it("should read the canvas it is given", () => {
+        const dims: Cell = [40, 8, 30];
+        const voxels = new Map([[key(35, 7, 29, dims), RED]]);
+
+        expect(copyBox(voxels, [34, 6, 28], [39, 7, 29], dims)).toEqual(
+            pieceOf([6, 2, 2], [[1, 1, 1], RED])
+        );
+    });
+});
+
+describe("rotate", () => {
+    it("should turn a quarter about an axis, swapping the other two sizes", () => {
+        // About y, x runs into -z: the arm along x ends up along z
+        expect(rotate(ell(), 1)).toEqual(
+            pieceOf(
+                [2, 1, 3],
+                [[0, 0, 2], BLUE],
+                [[0, 0, 1], RED],
+                [[0, 0, 0], RED],
+                [[1, 0, 2], RED]
+            )
+        );
+    });
+
+    it("should come back to where it started after four turns", () => {
+        for (const axis of [0, 1, 2]) {
+            expect(rotate(ell(), axis, 4)).toEqual(ell());
+            expect(rotate(rotate(ell(), axis, 3), axis)).toEqual(ell());
+        }
+    });
+
+    it("should turn backwards for negative turns", () => {
+        expect(rotate(ell(), 2, -1)).toEqual(rotate(ell(), 2, 3));
+    });
+});
+
+describe("mirror", () => {
+    it("should flip along one axis only", () => {
+        expect(mirror(ell(), 0)).toEqual(
+            pieceOf(
+                [3, 1, 2],
+                [[2, 0, 0], BLUE],
+                [[1, 0, 0], RED],
+                [[0, 0, 0], RED],
+                [[2, 0, 1], RED]
+            )
+        );
+        expect(mirror(mirror(ell(), 2), 2)).toEqual(ell());
+    });
+});
+
+describe("place", () => {
+    it("should centre the piece across the floor on the cell", () => {
+        expect(placeAround(ell(), [10, 4, 10])).toEqual([9, 4, 9]);
+    });
+
+    it("should keep the piece inside the canvas", () => {
+        expect(placeAround(ell(), [0, 19, 19])).toEqual([0, 19, 18]);
+        expect(placeAround(ell(), [31, 0, 5], [32, 16, 64])).toEqual([29, 0, 4]);
+    });
+
+    it("should put the voxels down from the corner", () => {
+        expect(place(ell(), [9, 4, 9])).toEqual(
+            canvas([[9, 4, 9], BLUE], [[10, 4, 9], RED], [[11, 4, 9], RED], [[9, 4, 10], RED])
+        );
+    });
+
+    it("should leave out voxels off the canvas", () => {
+        expect(place(ell(), [18, 0, 0])).toEqual(
+            canvas([[18, 0, 0], BLUE], [[19, 0, 0], RED], [[18, 0, 1], RED])
+        );
+    });
+});
+
+describe("clipboard", () => {
+    it("should read back what it writes", () => {
+        expect(parsePiece(pieceToJSON(ell()))).toEqual(ell());
+    });
+
+    it("should ignore text that isn't a piece", () => {
+        for (const text of ["", "hello", "[]", "null", '{"type":"other"}']) {
+            expect(parsePiece(text)).toBeNull();
+        }
+    });
+
+    it("should refuse voxels outside the piece or with bad colours", () => {
+        const json = (size: number[], voxels: unknown[]) =>
+            JSON.stringify({ type: "ourcubes/piece", size, voxels });
+
+        expect(parsePiece(json([2, 2, 2], [[1, 1, 1, RED]]))).not.toBeNull();
+        expect(parsePiece(json([2, 2, 2], [[2, 0, 0, RED]]))).toBeNull();
+        expect(parsePiece(json([2, 2, 2], [[0, 0, 0, "red"]]))).toBeNull();
+        expect(parsePiece(json([0, 2, 2], []))).toBeNull();
+        expect(parsePiece(json([32, 2, 2], []))).not.toBeNull();
+        expect(parsePiece(json([65, 2, 2], []))).toBeNull();
+    });
+});
@@ -0,0 +1,143 @@
+import {
+    type ColorHex,
+    DEFAULT_DIMS,
+    type Dims,
+    MAX_DIM,
+    type VoxelKey,
+} from "../../../worker/src/schema.js";
+import type { Cell } from "./shapes.js";
+import { key, unpackKey } from "./voxels.js";
+
+const COLOR_RE = /^#[0-9a-fA-F]{6}$/;
+
+// A copied box of voxels. Keys are relative to the box's low corner and packed
+// as on a canvas `size` across, so the same piece can be put down anywhere;
+// empty cells are simply missing.
+export interface Piece {
+    size: Cell; // cells across the box on each axis
+    voxels: Map<VoxelKey, ColorHex>;
+}
+
+// The voxels in the box with corners a and b, on a canvas `dims` across
+export function copyBox(
+    voxels: Map<VoxelKey, ColorHex>,
+    a: Cell,
+    b: Cell,
+    dims: Dims = DEFAULT_DIMS
+): Piece {
+    const lo = a.map((c, i) => Math.min(c, b[i]));
+    const size = a.map((c, i) => Math.abs(b[i] - c) + 1) as Cell;
+    const piece = new Map<VoxelKey, ColorHex>();
+    for (const [k, color] of voxels) {
+        const cell = unpackKey(k, dims).map((c, i) => c - lo[i]);
+        if (cell.every((c, i) => c >= 0 && c < size[i]))
+            piece.set(key(cell[0], cell[1], cell[2], size), color);
+    }
+    return { size, voxels: piece };
+}
+
+// Moves every voxel of the piece to `to(cell)`, in a box `size` across
+function remap(piece: Piece, size: Cell, to: (cell: Cell) => Cell): Piece {
+    const voxels = new Map<VoxelKey, ColorHex>();
+    for (const [k, color] of piece.voxels) {
+        voxels.set(key(...to(unpackKey(k, piece.size)), size), color);
+    }
+    return { size, voxels };
+}
+
+// Quarter turns about `axis`, anticlockwise looking back along it towards the origin
+export function rotate(piece: Piece, axis: number, turns = 1): Piece {
+    const u = (axis + 1) % 3;
+    const v = (axis + 2) % 3;
+    let turned = piece;
+    for (let i = 0; i < ((turns % 4) + 4) % 4; i++) {
+        const { size } = turned;
+        const next = [...size] as Cell;
+        next[u] = size[v];
+        next[v] = size[u];
+        turned = remap(turned, next, (cell) => {
+            const to = [...cell] as Cell;
+            to[u] = size[v] - 1 - cell[v];
+            to[v] = cell[u];
+            return to;
+        });
+    }
+    return turned;
+}
+
+// Flips the piece front to back along `axis`
+export function mirror(piece: Piece, axis: number): Piece {
+    return remap(piece, piece.size, (cell) => {
+        const to = [...cell] as Cell;
+        to[axis] = piece.size[axis] - 1 - cell[axis];
+        return to;
+    });
+}
+
+// Where the piece's low corner goes to sit it on `cell`, centred across the
+// floor, moved as little as it takes to keep it inside a canvas `dims` across
+export function placeAround(piece: Piece, cell: Cell, dims: Dims = DEFAULT_DIMS): Cell {
+    return cell.map((c, i) => {
+        const from = i === 1 ? c : c - Math.floor(piece.size[i] / 2);
+        return Math.max(0, Math.min(dims[i] - piece.size[i], from));
+    }) as Cell;
+}
+
+// The piece's voxels with its low corner at `at` on a canvas `dims` across,
+// leaving out any off it
+export function place(piece: Piece, at: Cell, dims: Dims = DEFAULT_DIMS): Map<VoxelKey, ColorHex> {
+    const placed = new Map<VoxelKey, ColorHex>();
+    for (const [k, color] of piece.voxels) {
+        const cell = unpackKey(k, piece.size).map((c, i) => c + at[i]);
+        if (cell.every((c, i) => c >= 0 && c < dims[i])) {
+            placed.set(key(cell[0], cell[1], cell[2], dims), color);
+        }
+    }
+    return placed;
+}
+
+// The clipboard form of a piece. Voxels are listed by coordinates rather than
+// keys so a piece can be carried between rooms.
+export function pieceToJSON(piece: Piece): string {
+    const voxels = [...piece.voxels].map(([k, color]) => [...unpackKey(k, piece.size), color]);
+    return JSON.stringify({ type: "ourcubes/piece", size: piece.size, voxels });
+}
+
+// The piece in clipboard text, or null if it holds something else
+export function parsePiece(text: string): Piece | null {
+    let value: unknown;
+    try {
+        value = JSON.parse(text);
+    } catch {
+        return null;
+    }
+    if (typeof value !== "object" || value === null) return null;
+    const { type, size, voxels } = value as Record<string, unknown>;
+    if (type !== "ourcubes/piece" || !Array.isArray(voxels)) return null;
+    if (!isCell(size, 1, [MAX_DIM, MAX_DIM, MAX_DIM])) return null;
+
+    const piece = new Map<VoxelKey, ColorHex>();
+    for (const voxel of voxels) {
+        if (!Array.isArray(voxel) || voxel.length !== 4) return null;
+        const [x, y, z, color] = voxel;
+        const inside = isCell(
+            [x, y, z],
+            0,
+            size.map((s) => s - 1)
+        );
+        if (!inside || typeof color !== "string" || !COLOR_RE.test(color)) {
+            return null;
+        }
+        piece.set(key(x, y, z, size), color);
+    }
+    return { size, voxels: piece };
+}
+
+// Whether `value` is three whole numbers, each from `min` to its `max`
+function isCell(value: unknown, min: number, max: number[]): value is Cell {
+    return (
+        Array.isArray(value) &&
+        value.length === 3 &&
+        value.every((c, i) => Number.isInteger(c) && c >= min && c <= max[i])
+    );
+}
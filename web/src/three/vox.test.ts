@@ -0,0 +1,158 @@
+import { describe, expect, it } from "vitest";
+import { defaultOffset, placeModel, quantizePalette, readVox, writeVox } from "./vox.js";
+import { key } from "./voxels.js";
+
+// A minimal .vox file: one model and, optionally, a palette
+function voxFile(
+    size: [number, number, number],
+    voxels: [number, number, number, number][],
+    rgba?: [number, number, number][]
+) {
+    const chunks: number[] = [];
+    const int = (v: number) => chunks.push(v & 0xff, (v >> 8) & 0xff, (v >> 16) & 0xff, v >>> 24);
+    const id = (s: string) => chunks.push(...[...s].map((c) => c.charCodeAt(0)));
+    id("SIZE");
+    int(12);
+    int(0);
+    for (const v of size) int(v);
+    id("XYZI");
+    int(4 + voxels.length * 4);
+    int(0);
+    int(voxels.length);
+    for (const v of voxels) chunks.push(...v);
+    if (rgba) {
+        id("RGBA");
+        int(1024);
+        int(0);
+        for (let i = 0; i < 256; i++) chunks.push(...(rgba[i] ?? [0, 0, 0]), 255);
+    }
+
+    const header: number[] = [];
+    for (const c of "VOX ") header.push(c.charCodeAt(0));
+    header.push(150, 0, 0, 0);
+    for (const c of "MAIN") header.push(c.charCodeAt(0));
+    header.push(0, 0, 0, 0);
+    const n = chunks.length;
+    header.push(n & 0xff, (n >> 8) & 0xff, (n >> 16) & 0xff, n >>> 24);
+    return new Uint8Array([...header, ...chunks]);
+}
+
+describe("readVox", () => {
+    it("should turn MagicaVoxel's z-up into our y-up", () => {
+        const model = readVox(voxFile([3, 4, 5], [[1, 0, 4, 1]], [[255, 0, 0]]));
+
+        expect(model.size).toEqual([3, 5, 4]);
+        expect(model.voxels).toEqual([{ x: 1, y: 4, z: 3, color: "#ff0000" }]);
+    });
+
+    it("should fall back on the default palette", () => {
+        const model = readVox(
+            voxFile(
+                [1, 1, 4],
+                [
+                    [0, 0, 0, 1],
+                    [0, 0, 1, 2],
+                    [0, 0, 2, 216],
+                    [0, 0, 3, 255],
+                ]
+            )
+        );
+
+        expect(model.voxels.map((v) => v.color)).toEqual([
+            "#ffffff",
+            "#ffffcc",
+            "#ee0000",
+            "#111111",
+        ]);
+    });
+
+    it("should refuse files that aren't .vox", () => {
+        expect(() => readVox(new TextEncoder().encode("GIF89a, definitely"))).toThrow(
+            "not a MagicaVoxel file"
+        );
+        const truncated = voxFile([1, 1, 1], [[0, 0, 0, 1]]).slice(0, 40);
+        expect(() => readVox(truncated)).toThrow();
+    });
+});
+
+describe("writeVox", () => {
+    it("should round-trip the canvas", () => {
+        const voxels = new Map([
+            [key(0, 0, 0), "#f94144"],
+            [key(19, 5, 2), "#277da1"],
+            [key(3, 19, 19), "#000000"],
+        ]);
+
+        const model = readVox(writeVox(voxels));
+
+        expect(model.size).toEqual([20, 20, 20]);
+        expect(placeModel(model, [0, 0, 0])).toEqual({ voxels, clipped: 0 });
+    });
+
+    it("should round-trip a canvas of another size", () => {
+        const dims: [number, number, number] = [32, 16, 64];
+        const voxels = new Map([
+            [key(31, 0, 0, dims), "#f94144"],
+            [key(0, 15, 63, dims), "#277da1"],
+        ]);
+
+        const model = readVox(writeVox(voxels, dims));
+
+        expect(model.size).toEqual(dims);
+        expect(placeModel(model, [0, 0, 0], dims)).toEqual({ voxels, clipped: 0 });
+    });
+
+    it("should quantise more colours than the palette holds", () => {
+        const voxels = new Map<number, string>();
+        for (let k = 0; k < 1000; k++) {
+            voxels.set(k, `#${(k * 16411).toString(16).padStart(6, "0").slice(-6)}`);
+        }
+
+        const model = readVox(writeVox(voxels));
+
+        expect(model.voxels).toHaveLength(1000);
+        expect(new Set(model.voxels.map((v) => v.color)).size).toBeLessThanOrEqual(255);
+    });
+});
+
+describe("quantizePalette", () => {
+    it("should keep palettes that already fit", () => {
+        const mapping = quantizePalette(["#FF0000", "#00ff00", "#FF0000"]);
+
+        expect([...mapping]).toEqual([
+            ["#FF0000", "#FF0000"],
+            ["#00ff00", "#00ff00"],
+        ]);
+    });
+
+    it("should merge near colours first", () => {
+        const mapping = quantizePalette(["#000000", "#010101", "#ffffff"], 2);
+
+        expect(mapping.get("#000000")).toBe("#010101");
+        expect(mapping.get("#010101")).toBe(mapping.get("#000000"));
+        expect(mapping.get("#ffffff")).toBe("#ffffff");
+    });
+});
+
+describe("placeModel", () => {
+    const model = {
+        size: [30, 2, 1] as [number, number, number],
+        voxels: [
+            { x: 0, y: 0, z: 0, color: "#ff0000" },
+            { x: 15, y: 1, z: 0, color: "#00ff00" },
+            { x: 29, y: 0, z: 0, color: "#0000ff" },
+        ],
+    };
+
+    it("should centre models on the floor by default", () => {
+        expect(defaultOffset([4, 6, 8])).toEqual([8, 0, 6]);
+        expect(defaultOffset(model.size)).toEqual([-5, 0, 9]);
+    });
+
+    it("should clip what falls outside the canvas", () => {
+        const { voxels, clipped } = placeModel(model, defaultOffset(model.size));
+
+        expect(clipped).toBe(2);
+        expect([...voxels]).toEqual([[key(10, 1, 9), "#00ff00"]]);
+    });
+});
@@ -0,0 +1,224 @@
+import {
+    type ColorHex,
+    DEFAULT_DIMS,
+    type Dims,
+    type VoxelKey,
+} from "../../../worker/src/schema.js";
+import { key, unpackKey } from "./voxels.js";
+
+// MagicaVoxel .vox files: a RIFF-style MAIN chunk holding SIZE, XYZI and RGBA
+// children (https://github.com/ephtracy/voxel-model). Only the first model of a
+// file is read; scene graph, material and layer chunks are skipped.
+//
+// MagicaVoxel is z-up and ourcubes is y-up, so models are turned a quarter turn
+// about x on the way in and out: vox (x, y, z) is ours (x, z, depth - 1 - y).
+
+const MAX_COLORS = 255; // palette index 0 means empty
+
+export interface VoxModel {
+    size: [number, number, number]; // in ourcubes axes
+    voxels: Array<{ x: number; y: number; z: number; color: ColorHex }>;
+}
+
+// The palette files without an RGBA chunk use: a 6×6×6 colour cube, then ramps
+// of red, green, blue and grey. Index 0 is unused.
+const DEFAULT_PALETTE: number[] = (() => {
+    const steps = [0xff, 0xcc, 0x99, 0x66, 0x33, 0x00];
+    const ramp = [0xee, 0xdd, 0xbb, 0xaa, 0x88, 0x77, 0x55, 0x44, 0x22, 0x11];
+    const palette = [0];
+    for (const r of steps) {
+        for (const g of steps) {
+            for (const b of steps) if (r || g || b) palette.push((r << 16) | (g << 8) | b);
+        }
+    }
+    for (const shift of [16, 8, 0]) for (const v of ramp) palette.push(v << shift);
+    for (const v of ramp) palette.push((v << 16) | (v << 8) | v);
+    return palette;
+})();
+
+const toHex = (rgb: number): ColorHex => `#${rgb.toString(16).padStart(6, "0")}`;
+const toRgb = (color: ColorHex) => Number.parseInt(color.slice(1), 16);
+
+const textDecoder = new TextDecoder();
+
+interface VoxChunks {
+    size?: [number, number, number]; // in MagicaVoxel axes
+    xyzi?: DataView;
+    palette: number[];
+}
+
+// The chunks readVox needs from the children of MAIN
+function readChunks(bytes: Uint8Array): VoxChunks {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const id = (at: number) => textDecoder.decode(bytes.subarray(at, at + 4));
+    if (bytes.length < 20 || id(0) !== "VOX " || id(8) !== "MAIN") {
+        throw new Error("vox: not a MagicaVoxel file");
+    }
+
+    const chunks: VoxChunks = { palette: DEFAULT_PALETTE };
+    const end = Math.min(bytes.length, 20 + view.getInt32(12, true) + view.getInt32(16, true));
+    for (let at = 20 + view.getInt32(12, true); at + 12 <= end; ) {
+        const chunk = id(at);
+        const contentBytes = view.getInt32(at + 4, true);
+        const childBytes = view.getInt32(at + 8, true);
+        const content = at + 12;
+        if (contentBytes < 0 || childBytes < 0) throw new Error(`vox: bad ${chunk} chunk`);
+        if (content + contentBytes > bytes.length) throw new Error("vox: truncated file");
+
+        readChunk(chunks, chunk, bytes.subarray(content, content + contentBytes));
+        at = content + contentBytes + childBytes;
+    }
+    return chunks;
+}
+
+function readChunk(chunks: VoxChunks, name: string, content: Uint8Array) {
+    const view = new DataView(content.buffer, content.byteOffset, content.byteLength);
+    if (name === "SIZE" && !chunks.size) {
+        chunks.size = [view.getInt32(0, true), view.getInt32(4, true), view.getInt32(8, true)];
+    } else if (name === "XYZI" && !chunks.xyzi) {
+        chunks.xyzi = view;
+    } else if (name === "RGBA") {
+        // Entry i holds palette index i + 1
+        const entries = Array.from({ length: MAX_COLORS }, (_, i) => {
+            const [r, g, b] = content.subarray(i * 4, i * 4 + 3);
+            return (r << 16) | (g << 8) | b;
+        });
+        chunks.palette = [0, ...entries];
+    }
+}
+
+export function readVox(bytes: Uint8Array): VoxModel {
+    const { size, xyzi, palette } = readChunks(bytes);
+    if (!size || !xyzi) throw new Error("vox: file has no model");
+
+    const voxels: VoxModel["voxels"] = [];
+    const count = xyzi.getInt32(0, true);
+    if (4 + count * 4 > xyzi.byteLength) throw new Error("vox: truncated file");
+    for (let i = 0; i < count; i++) {
+        const at = 4 + i * 4;
+        const [vx, vy, vz, index] = [0, 1, 2, 3].map((o) => xyzi.getUint8(at + o));
+        voxels.push({ x: vx, y: vz, z: size[1] - 1 - vy, color: toHex(palette[index] ?? 0) });
+    }
+    return { size: [size[0], size[2], size[1]], voxels };
+}
+
+// Maps every colour to one of at most `max` palette colours. Colours are bucketed
+// by their top bits per channel, dropping bits until few enough buckets remain;
+// each bucket becomes the average of its colours.
+export function quantizePalette(
+    colors: Iterable<ColorHex>,
+    max = MAX_COLORS
+): Map<ColorHex, ColorHex> {
+    const distinct = [...new Set(colors)];
+    for (let bits = 8; bits > 0; bits--) {
+        const shift = 8 - bits;
+        const bucketOf = (rgb: number) =>
+            (((rgb >> 16) & 0xff) >> shift) * 65536 +
+            (((rgb >> 8) & 0xff) >> shift) * 256 +
+            ((rgb & 0xff) >> shift);
+        const buckets = new Map<number, ColorHex[]>();
+        for (const color of distinct) {
+            const bucket = bucketOf(toRgb(color));
+            const members = buckets.get(bucket);
+            if (members) members.push(color);
+            else buckets.set(bucket, [color]);
+        }
+        if (buckets.size > max && bits > 1) continue;
+
+        const mapping = new Map<ColorHex, ColorHex>();
+        for (const members of buckets.values()) {
+            const mean = members.length === 1 ? members[0] : averageColor(members);
+            for (const color of members) mapping.set(color, mean);
+        }
+        return mapping;
+    }
+    return new Map();
+}
+
+function averageColor(colors: ColorHex[]): ColorHex {
+    const sum = [0, 0, 0];
+    for (const color of colors) {
+        const rgb = toRgb(color);
+        sum[0] += (rgb >> 16) & 0xff;
+        sum[1] += (rgb >> 8) & 0xff;
+        sum[2] += rgb & 0xff;
+    }
+    const [r, g, b] = sum.map((c) => Math.round(c / colors.length));
+    return toHex((r << 16) | (g << 8) | b);
+}
+
+// The whole canvas, `dims` across, as a model, colours quantised to fit the palette
+export function writeVox(
+    voxels: Map<VoxelKey, ColorHex>,
+    dims: Dims = DEFAULT_DIMS
+): Uint8Array<ArrayBuffer> {
+    const mapping = quantizePalette(voxels.values());
+    const palette = [...new Set(mapping.values())];
+    const index = new Map(palette.map((color, i) => [color, i + 1]));
+
+    const xyziBytes = 4 + voxels.size * 4;
+    const childBytes = 12 + 12 + (12 + xyziBytes) + (12 + 256 * 4);
+    const bytes = new Uint8Array(8 + 12 + childBytes);
+    const view = new DataView(bytes.buffer);
+    let at = 0;
+    const id = (s: string) => {
+        for (let i = 0; i < 4; i++) bytes[at++] = s.charCodeAt(i);
+    };
+    const int = (v: number) => {
+        view.setInt32(at, v, true);
+        at += 4;
+    };
+    const chunk = (name: string, contentBytes: number, children = 0) => {
+        id(name);
+        int(contentBytes);
+        int(children);
+    };
+
+    id("VOX ");
+    int(150);
+    chunk("MAIN", 0, childBytes);
+    chunk("SIZE", 12);
+    for (const v of [dims[0], dims[2], dims[1]]) int(v);
+    chunk("XYZI", xyziBytes);
+    int(voxels.size);
+    for (const [k, color] of voxels) {
+        const [x, y, z] = unpackKey(k, dims);
+        const paletteIndex = index.get(mapping.get(color) ?? color) ?? 1;
+        bytes.set([x, dims[2] - 1 - z, y, paletteIndex], at);
+        at += 4;
+    }
+    chunk("RGBA", 256 * 4);
+    for (const color of palette) {
+        const rgb = toRgb(color);
+        bytes.set([(rgb >> 16) & 0xff, (rgb >> 8) & 0xff, rgb & 0xff, 0xff], at);
+        at += 4;
+    }
+    return bytes;
+}
+
+// Centres the model on the floor of a canvas `dims` across; larger models are
+// cut down to their middle
+export function defaultOffset(
+    size: VoxModel["size"],
+    dims: Dims = DEFAULT_DIMS
+): [number, number, number] {
+    return [Math.floor((dims[0] - size[0]) / 2), 0, Math.floor((dims[2] - size[2]) / 2)];
+}
+
+// The model moved by `offset` into the keys of a canvas `dims` across. Voxels
+// landing outside the canvas are dropped and counted.
+export function placeModel(
+    model: VoxModel,
+    offset: [number, number, number],
+    dims: Dims = DEFAULT_DIMS
+): { voxels: Map<VoxelKey, ColorHex>; clipped: number } {
+    const voxels = new Map<VoxelKey, ColorHex>();
+    let clipped = 0;
+    for (const v of model.voxels) {
+        const [x, y, z] = [v.x + offset[0], v.y + offset[1], v.z + offset[2]];
+        if ([x, y, z].every((c, i) => c >= 0 && c < dims[i])) {
+            voxels.set(key(x, y, z, dims), v.color);
+        } else clipped++;
+    }
+    return { voxels, clipped };
+}
@@ -1,5 +1,5 @@
 import { describe, expect, it } from "vitest";
-import { key, unpack, unpackKey } from "./voxels.js";
+import { decodeSnapshot, encodeSnapshot, key, unpack, unpackKey } from "./voxels.js";
 
 describe("Voxel Coordinate Functions", () => {
     describe("key function", () => {
@@ -100,6 +100,14 @@ describe("Voxel Coordinate Functions", () => {
                 expect(z).toBeLessThan(20);
             }
         });
+
+        it("should pack and unpack keys of a canvas of any size", () => {
+            const dims: [number, number, number] = [32, 16, 64];
+
+            expect(key(31, 15, 63, dims)).toBe(32 * 16 * 64 - 1);
+            expect(key(1, 1, 1, dims)).toBe(1 + 32 + 32 * 16);
+            expect(unpackKey(key(7, 12, 40, dims), dims)).toEqual([7, 12, 40]);
+        });
     });
 
     describe("unpack function", () => {
@@ -184,3 +192,13 @@ describe("Voxel Coordinate Functions", () => {
         });
     });
 });
+
+describe("Snapshot encoding", () => {
+    it("should round-trip a room through the binary snapshot", () => {
+        const state: [number, string, number][] = [];
+        for (let x = 0; x < 20; x++) state.push([key(x, 4, 7), "#577590", x + 1]);
+        state.push([key(3, 19, 19), "#f94144", 99]);
+
+        expect(unpack(decodeSnapshot(encodeSnapshot(state)))).toEqual(unpack(state));
+    });
+});
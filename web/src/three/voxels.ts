@@ -1,4 +1,10 @@
-export const key = (x: number, y: number, z: number) => x + y * 20 + z * 400;
+import { cellOf, DEFAULT_DIMS, type Dims, keyOf } from "../../../worker/src/schema.js";
+
+export { decodeSnapshot, encodeSnapshot } from "../../../worker/src/wire.js";
+
+// Keys of a canvas `dims` across, 20³ unless given
+export const key = (x: number, y: number, z: number, dims: Dims = DEFAULT_DIMS) =>
+    keyOf(dims, x, y, z);
 
 export function unpack(packed: [number, string][] | [number, string, number][]) {
     const map = new Map<number, string>();
@@ -10,9 +16,6 @@ export function unpack(packed: [number, string][] | [number, string, number][])
     return map;
 }
 
-export function unpackKey(k: number): [number, number, number] {
-    const x = k % 20;
-    const y = Math.floor(k / 20) % 20;
-    const z = Math.floor(k / 400);
-    return [x, y, z];
+export function unpackKey(k: number, dims: Dims = DEFAULT_DIMS): [number, number, number] {
+    return cellOf(dims, k);
 }
@@ -0,0 +1,22 @@
+import { describe, expect, it } from "vitest";
+import { CHUNK_BYTES, chunkKey, joinChunks, splitChunks } from "./chunks.js";
+
+describe("chunks", () => {
+    it("should keep values that fit under the key itself", () => {
+        const bytes = new Uint8Array([1, 2, 3]);
+        expect(splitChunks("canvas", bytes)).toEqual({ canvas: bytes });
+        expect(splitChunks("canvas", new Uint8Array())).toEqual({ canvas: new Uint8Array() });
+    });
+
+    it("should split larger values into pieces that list in order", () => {
+        const bytes = Uint8Array.from({ length: 2 * CHUNK_BYTES + 5 }, (_, i) => i % 251);
+
+        const chunks = splitChunks("canvas", bytes);
+
+        const keys = Object.keys(chunks);
+        expect(keys).toEqual(["canvas", "canvas:0001", "canvas:0002"]);
+        expect([...keys].sort()).toEqual(keys);
+        expect(chunks[chunkKey("canvas", 2)].byteLength).toBe(5);
+        expect(joinChunks(keys.map((k) => chunks[k]))).toEqual(bytes);
+    });
+});
@@ -0,0 +1,26 @@
+// Binary values too big for one storage value, split into numbered pieces: the
+// first under the key itself, the rest under `${key}:0001` on, so a value stored
+// before it needed splitting reads back the same and the pieces list in order.
+export const CHUNK_BYTES = 120 * 1024; // under the 128 KiB limit on a storage value
+
+export const chunkKey = (key: string, index: number) =>
+    index === 0 ? key : `${key}:${index.toString().padStart(4, "0")}`;
+
+// The entries to put for `bytes`; there is always at least one
+export function splitChunks(key: string, bytes: Uint8Array): Record<string, Uint8Array> {
+    const entries: Record<string, Uint8Array> = {};
+    for (let i = 0; i === 0 || i * CHUNK_BYTES < bytes.length; i++) {
+        entries[chunkKey(key, i)] = bytes.slice(i * CHUNK_BYTES, (i + 1) * CHUNK_BYTES);
+    }
+    return entries;
+}
+
+export function joinChunks(parts: Uint8Array[]): Uint8Array {
+    const bytes = new Uint8Array(parts.reduce((n, part) => n + part.byteLength, 0));
+    let offset = 0;
+    for (const part of parts) {
+        bytes.set(new Uint8Array(part), offset);
+        offset += part.byteLength;
+    }
+    return bytes;
+}
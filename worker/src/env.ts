@@ -0,0 +1,8 @@
+// The worker's bindings. Kept apart from schema.ts, which the web app compiles
+// without the Workers types.
+export interface Env {
+    VOXEL_ROOM: DurableObjectNamespace;
+    STATIC_ROOMS: KVNamespace;
+    ASSETS: Fetcher; // the built web app
+    ROOM_SEED_SECRET?: string;
+}
@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import { encodeGlb, encodeObj, exportResponse } from "./export.js";
+import { greedyMesh } from "./mesh.js";
+import type { PackedState } from "./schema.js";
+
+const key = (x: number, y: number, z: number) => x + y * 20 + z * 400;
+
+// The JSON chunk of a GLB, after checking the container around it
+function glbJson(glb: Uint8Array) {
+    const view = new DataView(glb.buffer, glb.byteOffset, glb.byteLength);
+    expect(view.getUint32(0, true)).toBe(0x46546c67);
+    expect(view.getUint32(4, true)).toBe(2);
+    expect(view.getUint32(8, true)).toBe(glb.length);
+    const jsonLength = view.getUint32(12, true);
+    expect(jsonLength % 4).toBe(0);
+    const json = JSON.parse(new TextDecoder().decode(glb.subarray(20, 20 + jsonLength)));
+    if (glb.length > 20 + jsonLength) {
+        expect(view.getUint32(20 + jsonLength, true)).toBe(json.buffers[0].byteLength);
+    }
+    return json;
+}
+
+const twoVoxels = greedyMesh(
+    new Map([
+        [key(0, 0, 0), "#FF0000"],
+        [key(1, 0, 0), "#00FF00"],
+    ])
+);
+
+describe("encodeGlb", () => {
+    it("should hold four coloured vertices and two triangles per quad", () => {
+        const json = glbJson(encodeGlb(twoVoxels));
+
+        const [position, normal, color, indices] = json.accessors;
+        expect(json.meshes[0].primitives[0].attributes).toEqual({
+            POSITION: 0,
+            NORMAL: 1,
+            COLOR_0: 2,
+        });
+        expect([position.count, normal.count, color.count]).toEqual([40, 40, 40]);
+        expect(indices).toMatchObject({ count: 60, componentType: 5123 });
+        expect(position).toMatchObject({ min: [0, 0, 0], max: [2, 1, 1] });
+    });
+
+    it("should switch to 32-bit indices for large meshes", () => {
+        const voxels = new Map<number, string>();
+        for (let k = 0; k < 8000; k++) {
+            const [x, y, z] = [k % 20, Math.floor(k / 20) % 20, Math.floor(k / 400)];
+            if ((x + y + z) % 2 === 0) voxels.set(k, "#FFFFFF");
+        }
+
+        const json = glbJson(encodeGlb(greedyMesh(voxels)));
+
+        expect(json.accessors[0].count).toBeGreaterThan(0xffff);
+        expect(json.accessors[3].componentType).toBe(5125);
+    });
+
+    it("should encode an empty room as a scene without meshes", () => {
+        const json = glbJson(encodeGlb([]));
+
+        expect(json.scenes).toEqual([{ nodes: [] }]);
+        expect(json.meshes).toBeUndefined();
+    });
+});
+
+describe("encodeObj", () => {
+    it("should write coloured vertices and one face per quad", () => {
+        const lines = encodeObj(twoVoxels).trim().split("\n");
+
+        const vertices = lines.filter((l) => l.startsWith("v "));
+        const faces = lines.filter((l) => l.startsWith("f "));
+        expect(vertices).toHaveLength(40);
+        expect(faces).toHaveLength(10);
+        expect(vertices[0]).toMatch(/ 1\.0000 0\.0000 0\.0000$|0\.0000 1\.0000 0\.0000$/);
+        expect(faces[0]).toMatch(/^f 1\/\/\d 2\/\/\d 3\/\/\d 4\/\/\d$/);
+    });
+});
+
+describe("exportResponse", () => {
+    it("should serve the room as a named download", async () => {
+        const state: PackedState = [[key(1, 2, 3), "#123456", 1]];
+
+        const res = exportResponse("my-room", state, "obj");
+
+        expect(res.headers.get("content-type")).toBe("model/obj");
+        expect(res.headers.get("content-disposition")).toBe('attachment; filename="my-room.obj"');
+        expect((await res.text()).match(/^f /gm)).toHaveLength(6);
+    });
+});
@@ -0,0 +1,184 @@
+import { greedyMesh, type Quad, type Vec3 } from "./mesh";
+import { type ColorHex, DEFAULT_DIMS, type Dims, type PackedState } from "./schema";
+
+// Room downloads for 3D tools: GET /api/room/:slug/export.glb and export.obj.
+// Both carry the greedy mesh with per-vertex colours, one unit per voxel, y up.
+export type ExportFormat = "glb" | "obj";
+
+const channels = (color: ColorHex): Vec3 => {
+    const rgb = Number.parseInt(color.slice(1), 16);
+    return [(rgb >> 16) & 0xff, (rgb >> 8) & 0xff, rgb & 0xff];
+};
+
+// glTF vertex colours are linear; the palette is sRGB
+const srgbToLinear = (c: number) => {
+    const s = c / 255;
+    return s <= 0.04045 ? s / 12.92 : ((s + 0.055) / 1.055) ** 2.4;
+};
+
+const GLB_MAGIC = 0x46546c67; // "glTF"
+const CHUNK_JSON = 0x4e4f534a;
+const CHUNK_BIN = 0x004e4942;
+const FLOAT = 5126;
+const UNSIGNED_SHORT = 5123;
+const UNSIGNED_INT = 5125;
+const ARRAY_BUFFER = 34962;
+const ELEMENT_ARRAY_BUFFER = 34963;
+
+export function encodeGlb(quads: Quad[]): Uint8Array {
+    const vertices = quads.length * 4;
+    const positions = new Float32Array(vertices * 3);
+    const normals = new Float32Array(vertices * 3);
+    const colors = new Float32Array(vertices * 3);
+    const wide = vertices > 0xffff;
+    const indices = wide ? new Uint32Array(quads.length * 6) : new Uint16Array(quads.length * 6);
+    quads.forEach((q, n) => {
+        const color = channels(q.color).map(srgbToLinear);
+        q.corners.forEach((corner, c) => {
+            positions.set(corner, (n * 4 + c) * 3);
+            normals.set(q.normal, (n * 4 + c) * 3);
+            colors.set(color, (n * 4 + c) * 3);
+        });
+        const first = n * 4;
+        indices.set([first, first + 1, first + 2, first, first + 2, first + 3], n * 6);
+    });
+
+    const views = [positions, normals, colors, indices];
+    const gltf: Record<string, unknown> = {
+        asset: { version: "2.0", generator: "ourcubes" },
+        scene: 0,
+        scenes: [{ nodes: vertices ? [0] : [] }],
+    };
+    if (vertices) {
+        let offset = 0;
+        const bufferViews = views.map((view, i) => {
+            const entry = {
+                buffer: 0,
+                byteOffset: offset,
+                byteLength: view.byteLength,
+                target: i < 3 ? ARRAY_BUFFER : ELEMENT_ARRAY_BUFFER,
+            };
+            offset += view.byteLength;
+            return entry;
+        });
+        const vec3 = (bufferView: number) => ({
+            bufferView,
+            componentType: FLOAT,
+            count: vertices,
+            type: "VEC3",
+        });
+        Object.assign(gltf, {
+            nodes: [{ mesh: 0, name: "room" }],
+            meshes: [
+                {
+                    primitives: [
+                        {
+                            attributes: { POSITION: 0, NORMAL: 1, COLOR_0: 2 },
+                            indices: 3,
+                            material: 0,
+                        },
+                    ],
+                },
+            ],
+            materials: [{ pbrMetallicRoughness: { metallicFactor: 0, roughnessFactor: 1 } }],
+            accessors: [
+                { ...vec3(0), ...bounds(quads) },
+                vec3(1),
+                vec3(2),
+                {
+                    bufferView: 3,
+                    componentType: wide ? UNSIGNED_INT : UNSIGNED_SHORT,
+                    count: indices.length,
+                    type: "SCALAR",
+                },
+            ],
+            bufferViews,
+            buffers: [{ byteLength: offset }],
+        });
+    }
+
+    const json = pad(new TextEncoder().encode(JSON.stringify(gltf)), 0x20);
+    const bin = vertices ? pad(concat(views.map((v) => new Uint8Array(v.buffer))), 0) : null;
+    const length = 12 + 8 + json.length + (bin ? 8 + bin.length : 0);
+    const glb = new Uint8Array(length);
+    const view = new DataView(glb.buffer);
+    view.setUint32(0, GLB_MAGIC, true);
+    view.setUint32(4, 2, true);
+    view.setUint32(8, length, true);
+    view.setUint32(12, json.length, true);
+    view.setUint32(16, CHUNK_JSON, true);
+    glb.set(json, 20);
+    if (bin) {
+        view.setUint32(20 + json.length, bin.length, true);
+        view.setUint32(24 + json.length, CHUNK_BIN, true);
+        glb.set(bin, 28 + json.length);
+    }
+    return glb;
+}
+
+function bounds(quads: Quad[]): { min: Vec3; max: Vec3 } {
+    const min: Vec3 = [Infinity, Infinity, Infinity];
+    const max: Vec3 = [-Infinity, -Infinity, -Infinity];
+    for (const q of quads) {
+        for (const corner of q.corners) {
+            for (let i = 0; i < 3; i++) {
+                min[i] = Math.min(min[i], corner[i]);
+                max[i] = Math.max(max[i], corner[i]);
+            }
+        }
+    }
+    return { min, max };
+}
+
+// GLB chunks are 4-byte aligned
+function pad(bytes: Uint8Array, fill: number): Uint8Array {
+    const padded = new Uint8Array(Math.ceil(bytes.length / 4) * 4).fill(fill);
+    padded.set(bytes);
+    return padded;
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+    const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+        out.set(part, offset);
+        offset += part.length;
+    }
+    return out;
+}
+
+const AXIS_NORMALS = ["1 0 0", "-1 0 0", "0 1 0", "0 -1 0", "0 0 1", "0 0 -1"];
+
+// Wavefront OBJ with the colour after each vertex position (the "v x y z r g b"
+// extension Blender and MeshLab read), so the export stays a single file
+export function encodeObj(quads: Quad[]): string {
+    const lines = ["# ourcubes room", "o room"];
+    for (const normal of AXIS_NORMALS) lines.push(`vn ${normal}`);
+    for (const q of quads) {
+        const rgb = channels(q.color)
+            .map((c) => (c / 255).toFixed(4))
+            .join(" ");
+        for (const [x, y, z] of q.corners) lines.push(`v ${x} ${y} ${z} ${rgb}`);
+    }
+    quads.forEach((q, n) => {
+        const axis = q.normal.findIndex((c) => c !== 0);
+        const vn = axis * 2 + (q.normal[axis] > 0 ? 1 : 2);
+        const v = n * 4 + 1;
+        lines.push(`f ${v}//${vn} ${v + 1}//${vn} ${v + 2}//${vn} ${v + 3}//${vn}`);
+    });
+    return `${lines.join("\n")}\n`;
+}
+
+export function exportResponse(
+    slug: string,
+    state: PackedState,
+    format: ExportFormat,
+    dims: Dims = DEFAULT_DIMS
+) {
+    const quads = greedyMesh(new Map(state.map(([k, color]) => [k, color])), dims);
+    const headers = {
+        "content-type": format === "glb" ? "model/gltf-binary" : "model/obj",
+        "content-disposition": `attachment; filename="${slug}.${format}"`,
+    };
+    return new Response(format === "glb" ? encodeGlb(quads) : encodeObj(quads), { headers });
+}
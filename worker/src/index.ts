@@ -1,70 +1,55 @@
+import type { Env } from "./env";
+import { type ExportFormat, exportResponse } from "./export";
 import { VoxelRoomDO } from "./room";
-import type { Env, StaticRoomData } from "./schema";
+import { DEFAULT_DIMS, type ReplayFrame, type StateResponse, type StaticRoomData } from "./schema";
+import { THUMBNAIL_SIZE, thumbnailResponse } from "./thumbnail";
+
+// What a frozen room can still answer, straight from KV
+const STATIC_ACTIONS = [
+    "state",
+    "ws",
+    "replay",
+    "export.glb",
+    "export.obj",
+    "thumbnail.png",
+] as const;
+type StaticAction = (typeof STATIC_ACTIONS)[number];
+
+const isStaticAction = (action: string): action is StaticAction =>
+    (STATIC_ACTIONS as readonly string[]).includes(action);
 
 export default {
     async fetch(req: Request, env: Env) {
         const url = new URL(req.url);
 
         // Handle API routes for rooms
-        const apiMatch = url.pathname.match(/^\/api\/room\/([\w-]+)\/(ws|state|seed|freeze)$/);
+        const apiMatch = url.pathname.match(
+            /^\/api\/room\/([\w-]+)\/(ws|state|create|seed|freeze|history|restore|replay|import|export\.glb|export\.obj|thumbnail\.png)$/
+        );
         if (apiMatch) {
             const [, slug, action] = apiMatch;
 
             // Check if room is static (for read-only operations)
-            if (action === "state" || action === "ws") {
-                const staticRoom = await env.STATIC_ROOMS.get(`static:${slug}`);
-                console.log(`Checking for static room: static:${slug}, found: ${!!staticRoom}`);
-                if (staticRoom) {
-                    console.log(`Serving static room data for ${slug}`);
-                    const roomData = JSON.parse(staticRoom) as StaticRoomData;
-
-                    if (action === "state") {
-                        return Response.json({
-                            version: roomData.version,
-                            voxels: roomData.voxels,
-                            isStatic: true,
-                            frozenAt: roomData.frozenAt,
-                        });
-                    }
-
-                    if (action === "ws") {
-                        // For static rooms, create a read-only WebSocket connection
-                        const [client, server] = Object.values(new WebSocketPair()) as [
-                            WebSocket,
-                            WebSocket,
-                        ];
-                        server.accept();
-
-                        // Send welcome message with static data and immediately close
-                        server.send(
-                            JSON.stringify({
-                                type: "welcome",
-                                playerId: "static-viewer",
-                                state: roomData.voxels,
-                                version: roomData.version,
-                                isStatic: true,
-                            })
-                        );
-
-                        // Close the connection since static rooms don't support real-time updates
-                        server.close(1000, "Static room - read only");
-
-                        return new Response(null, { status: 101, webSocket: client });
-                    }
-                }
+            if (isStaticAction(action)) {
+                const staticResponse = await serveStaticRoom(env, slug, action);
+                if (staticResponse) return staticResponse;
             }
 
             // For non-static rooms or freeze operations, route to DO
             const id = env.VOXEL_ROOM.idFromName(slug);
             const stub = env.VOXEL_ROOM.get(id);
             return stub.fetch(
-                new Request(new URL(`/api/room/${slug}/${action}`, "http://do").toString(), req)
+                new Request(
+                    new URL(`/api/room/${slug}/${action}${url.search}`, "http://do").toString(),
+                    req
+                )
             );
         }
 
         // For client-side routing, serve index.html for room routes
-        if (url.pathname.startsWith("/room/")) {
-            return new Response("Client-side app should be served here", { status: 200 });
+        const roomMatch = url.pathname.match(/^\/room\/([\w-]+)$/);
+        if (roomMatch) {
+            return roomPage(env, url, roomMatch[1]);
         }
 
         // Default response for root and other routes
@@ -75,4 +60,106 @@ export default {
     },
 };
 
+// Frozen rooms are served from KV without waking their Durable Object
+async function serveStaticRoom(
+    env: Env,
+    slug: string,
+    action: StaticAction
+): Promise<Response | null> {
+    const staticRoom = await env.STATIC_ROOMS.get(`static:${slug}`);
+    console.log(`Checking for static room: static:${slug}, found: ${!!staticRoom}`);
+    if (!staticRoom) return null;
+    console.log(`Serving static room data for ${slug}`);
+    const roomData = JSON.parse(staticRoom) as StaticRoomData;
+    const dims = roomData.dims ?? DEFAULT_DIMS;
+
+    if (action === "state") {
+        // Frozen rooms never change, so there is no delta to serve
+        return Response.json({
+            version: roomData.version,
+            voxels: roomData.voxels,
+            dims,
+            isStatic: true,
+            frozenAt: roomData.frozenAt,
+        } satisfies StateResponse);
+    }
+
+    if (action === "replay") {
+        return serveStaticReplay(env, slug, roomData);
+    }
+
+    if (action === "thumbnail.png") {
+        return thumbnailResponse(env, slug, roomData.version, roomData.voxels, dims);
+    }
+
+    if (action === "export.glb" || action === "export.obj") {
+        return exportResponse(slug, roomData.voxels, action.slice(7) as ExportFormat, dims);
+    }
+
+    // For static rooms, create a read-only WebSocket connection
+    const [client, server] = Object.values(new WebSocketPair()) as [WebSocket, WebSocket];
+    server.accept();
+
+    // Send welcome message with static data and immediately close
+    server.send(
+        JSON.stringify({
+            type: "welcome",
+            playerId: "static-viewer",
+            sessionId: "static-viewer",
+            state: roomData.voxels,
+            dims,
+            version: roomData.version,
+            lamport: 0,
+            now: Date.now(),
+            isStatic: true,
+        })
+    );
+
+    // Close the connection since static rooms don't support real-time updates
+    server.close(1000, "Static room - read only");
+
+    return new Response(null, { status: 101, webSocket: client });
+}
+
+const escapeHtml = (s: string) => s.replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`);
+
+// The app's own page, with the room's link preview tags in place of its title:
+// previews read them without running the app, from the URL people then open
+async function roomPage(env: Env, url: URL, slug: string) {
+    const shell = await env.ASSETS.fetch(new URL("/", url));
+    if (!shell.ok) return shell;
+    const head = (await shell.text()).replace(/<title>[^<]*<\/title>\s*/, "");
+    const html = head.replace("</head>", `${previewTags(url, slug)}</head>`);
+    return new Response(html, { headers: { "content-type": "text/html; charset=utf-8" } });
+}
+
+function previewTags(url: URL, slug: string) {
+    const title = escapeHtml(`${slug} on ourcubes`);
+    const image = escapeHtml(`${url.origin}/api/room/${slug}/thumbnail.png`);
+    return `    <title>${title}</title>
+    <meta property="og:type" content="website">
+    <meta property="og:title" content="${title}">
+    <meta property="og:description" content="Build together in 3D space.">
+    <meta property="og:url" content="${escapeHtml(url.href)}">
+    <meta property="og:image" content="${image}">
+    <meta property="og:image:type" content="image/png">
+    <meta property="og:image:width" content="${THUMBNAIL_SIZE}">
+    <meta property="og:image:height" content="${THUMBNAIL_SIZE}">
+    <meta name="twitter:card" content="summary_large_image">
+    <meta name="twitter:image" content="${image}">
+`;
+}
+
+// Rooms frozen before replays were saved with them get a single frame
+async function serveStaticReplay(env: Env, slug: string, roomData: StaticRoomData) {
+    const replay =
+        (await env.STATIC_ROOMS.get(`replay:${slug}`)) ??
+        `${JSON.stringify({
+            version: roomData.version,
+            at: roomData.frozenAt,
+            ops: roomData.voxels.map(([k, color, t]) => ({ type: "set", k, color, t })),
+        } satisfies ReplayFrame)}\n`;
+    return new Response(replay, { headers: { "content-type": "application/x-ndjson" } });
+}
+
 export { VoxelRoomDO };
@@ -0,0 +1,181 @@
+import { describe, expect, it } from "vitest";
+import { greedyMesh, type Quad, type Vec3 } from "./mesh.js";
+
+const key = (x: number, y: number, z: number) => x + y * 20 + z * 400;
+
+function box(from: Vec3, to: Vec3, color = "#FF0000") {
+    const voxels = new Map<number, string>();
+    for (let x = from[0]; x <= to[0]; x++) {
+        for (let y = from[1]; y <= to[1]; y++) {
+            for (let z = from[2]; z <= to[2]; z++) voxels.set(key(x, y, z), color);
+        }
+    }
+    return voxels;
+}
+
+const sub = (a: Vec3, b: Vec3): Vec3 => [a[0] - b[0], a[1] - b[1], a[2] - b[2]];
+const cross = (a: Vec3, b: Vec3): Vec3 => [
+    a[1] * b[2] - a[2] * b[1],
+    a[2] * b[0] - a[0] * b[2],
+    a[0] * b[1] - a[1] * b[0],
+];
+const area = (q: Quad) => {
+    const n = cross(sub(q.corners[1], q.corners[0]), sub(q.corners[3], q.corners[0]));
+    return Math.hypot(...n);
+};
+
+// A reproducible scatter of two colours filling about 30% of the canvas
+function randomVoxels() {
+    const voxels = new Map<number, string>();
+    let seed = 7;
+    const random = () => {
+        seed = (seed * 16807) % 2147483647;
+        return seed / 2147483647;
+    };
+    for (let k = 0; k < 8000; k++) {
+        if (random() < 0.3) voxels.set(k, random() < 0.5 ? "#FF0000" : "#0000FF");
+    }
+    return voxels;
+}
+
+const NEIGHBOURS: Vec3[] = [
+    [1, 0, 0],
+    [-1, 0, 0],
+    [0, 1, 0],
+    [0, -1, 0],
+    [0, 0, 1],
+    [0, 0, -1],
+];
+
+// Voxel faces not covered by a neighbour, counted one by one
+function exposedFaces(voxels: Map<number, string>) {
+    let exposed = 0;
+    for (const k of voxels.keys()) {
+        const p: Vec3 = [k % 20, Math.floor(k / 20) % 20, Math.floor(k / 400)];
+        for (const d of NEIGHBOURS) {
+            const n: Vec3 = [p[0] + d[0], p[1] + d[1], p[2] + d[2]];
+            const inside = n.every((c) => c >= 0 && c < 20);
+            if (!inside || !voxels.has(key(...n))) exposed++;
+        }
+    }
+    return exposed;
+}
+
+describe("greedyMesh", () => {
+    it("should give a single voxel six faces", () => {
+        expect(greedyMesh(box([3, 4, 5], [3, 4, 5]))).toHaveLength(6);
+    });
+
+    it("should merge a solid block of one colour into six faces", () => {
+        expect(greedyMesh(box([2, 0, 2], [6, 3, 9]))).toHaveLength(6);
+        expect(greedyMesh(box([0, 0, 0], [19, 19, 19]))).toHaveLength(6);
+    });
+
+    it("should cull the face between touching voxels but keep colours apart", () => {
+        const voxels = new Map([
+            [key(0, 0, 0), "#FF0000"],
+            [key(1, 0, 0), "#00FF00"],
+        ]);
+
+        const quads = greedyMesh(voxels);
+
+        expect(quads).toHaveLength(10);
+        expect(quads.some((q) => q.corners.every((c) => c[0] === 1))).toBe(false);
+    });
+
+    it("should show the inside of a hollow cube", () => {
+        const voxels = box([0, 0, 0], [2, 2, 2]);
+        voxels.delete(key(1, 1, 1));
+
+        expect(greedyMesh(voxels)).toHaveLength(12);
+    });
+
+    it("should not merge across a checkerboard", () => {
+        const voxels = new Map([
+            [key(0, 0, 0), "#FF0000"],
+            [key(1, 0, 0), "#00FF00"],
+            [key(0, 0, 1), "#00FF00"],
+            [key(1, 0, 1), "#FF0000"],
+        ]);
+
+        expect(greedyMesh(voxels)).toHaveLength(16);
+    });
+
+    it("should cover exactly the exposed faces, wound to face outwards", () => {
+        const voxels = randomVoxels();
+        const exposed = exposedFaces(voxels);
+
+        const quads = greedyMesh(voxels);
+
+        expect(quads.reduce((sum, q) => sum + area(q), 0)).toBe(exposed);
+        expect(quads.length).toBeLessThan(exposed);
+        for (const q of quads) {
+            const n = cross(sub(q.corners[1], q.corners[0]), sub(q.corners[2], q.corners[0]));
+            expect(n.map(Math.sign)).toEqual(q.normal);
+        }
+    });
+
+    it("should mesh a region's voxels only, still culled by their neighbours", () => {
+        const voxels = randomVoxels();
+        const exposed = exposedFaces(voxels);
+
+        // Eight 10³ regions between them cover the canvas once
+        let total = 0;
+        for (const x of [0, 10]) {
+            for (const y of [0, 10]) {
+                for (const z of [0, 10]) {
+                    const from: Vec3 = [x, y, z];
+                    const to: Vec3 = [x + 10, y + 10, z + 10];
+                    for (const q of greedyMesh(voxels, [20, 20, 20], { from, to })) {
+                        // Each face sits against a voxel inside the region
+                        const inside = q.corners[0].map((c, i) => c - (q.normal[i] > 0 ? 1 : 0));
+                        expect(inside.every((c, i) => c >= from[i] && c < to[i])).toBe(true);
+                        total += area(q);
+                    }
+                }
+            }
+        }
+        expect(total).toBe(exposed);
+    });
+});
+
+describe("greedyMesh occlusion", () => {
+    const topOf = (quads: Quad[], y: number) =>
+        quads.filter((q) => q.normal[1] === 1 && q.corners[0][1] === y);
+
+    it("should leave open faces unshaded and merged", () => {
+        const quads = greedyMesh(box([0, 0, 0], [19, 0, 19]), [20, 20, 20], { occlusion: true });
+
+        expect(quads).toHaveLength(6);
+        for (const q of quads) expect(q.occlusion).toEqual([0, 0, 0, 0]);
+    });
+
+    it("should darken the corners beside a neighbour and fully shade a crease", () => {
+        const voxels = new Map([
+            [key(5, 5, 5), "#FF0000"],
+            [key(6, 6, 5), "#FF0000"], // beside the top face along +x
+            [key(5, 6, 6), "#FF0000"], // and along +z, making a crease at (6, 6, 6)
+        ]);
+
+        const [top] = topOf(greedyMesh(voxels, [20, 20, 20], { occlusion: true }), 6).filter(
+            (q) => q.corners[0][0] >= 5 && q.corners[0][0] <= 6 && q.corners[0][2] <= 6
+        );
+
+        const shade = Object.fromEntries(
+            top.corners.map((c, i) => [`${c[0]},${c[2]}`, top.occlusion?.[i]])
+        );
+        expect(shade).toEqual({ "5,5": 0, "6,5": 1, "5,6": 1, "6,6": 3 });
+    });
+
+    it("should not merge faces shaded unevenly", () => {
+        // A wall along one edge of a floor strip shades half of every top face
+        const voxels = box([0, 0, 0], [9, 0, 0]);
+        for (const [k, color] of box([0, 1, 1], [9, 1, 1])) voxels.set(k, color);
+
+        const tops = topOf(greedyMesh(voxels, [20, 20, 20], { occlusion: true }), 1);
+
+        expect(tops).toHaveLength(10);
+        const inner = tops.filter((q) => q.corners[0][0] > 0 && q.corners[0][0] < 9);
+        for (const q of inner) expect([...(q.occlusion ?? [])].sort()).toEqual([0, 0, 2, 2]);
+    });
+});
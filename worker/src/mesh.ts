@@ -0,0 +1,211 @@
+import { type ColorHex, DEFAULT_DIMS, type Dims, keyOf, type VoxelKey } from "./schema";
+
+export type Vec3 = [number, number, number];
+
+// One merged face. Voxel (x, y, z) fills the unit cube from (x, y, z) to
+// (x + 1, y + 1, z + 1).
+export interface Quad {
+    normal: Vec3;
+    corners: [Vec3, Vec3, Vec3, Vec3]; // counter-clockwise seen from outside
+    color: ColorHex;
+    occlusion?: Occlusion; // at each corner, when asked for
+}
+
+// How crowded each corner of a face is by the voxels in front of it, from 0 in
+// the open to 3 in a crease
+export type Occlusion = [number, number, number, number];
+
+export interface MeshOptions {
+    // Only faces of voxels in the box from `from` up to but excluding `to` are
+    // made, though voxels outside it still hide and shade them
+    from?: Vec3;
+    to?: Vec3;
+    occlusion?: boolean;
+}
+
+// Faces of the voxel map as few quads as the greedy method finds: faces between
+// two filled voxels are dropped, and each slice's remaining faces are merged into
+// rectangles of one colour, grown along u first and then along v. Faces whose
+// corners are unevenly occluded are never merged, so shading them stays exact.
+export function greedyMesh(
+    voxels: Map<VoxelKey, ColorHex>,
+    dims: Dims = DEFAULT_DIMS,
+    options: MeshOptions = {}
+): Quad[] {
+    const at = (p: Vec3): ColorHex | undefined =>
+        p.every((c, i) => c >= 0 && c < dims[i]) ? voxels.get(keyOf(dims, ...p)) : undefined;
+    const region: Region = {
+        from: options.from ?? [0, 0, 0],
+        to: options.to ?? [...dims],
+    };
+
+    const quads: Quad[] = [];
+    for (let d = 0; d < 3; d++) {
+        // The boundary planes across d, each a mask of faces over u and v
+        for (let plane = region.from[d]; plane <= region.to[d]; plane++) {
+            const mask = sliceMask(at, d, plane, region, options.occlusion ?? false);
+            mergeMask(mask, d, plane, region, quads);
+        }
+    }
+    return quads;
+}
+
+interface Region {
+    from: Vec3;
+    to: Vec3;
+}
+
+// A face on the plane and which way it points: +1 if the voxel below the
+// plane shows it, -1 if the voxel above does
+interface Face {
+    color: ColorHex;
+    sign: 1 | -1;
+    occlusion?: Occlusion;
+}
+
+// The slice of faces on a plane across d, indexed by u + v * width from the
+// region's corner
+interface Mask {
+    faces: (Face | null)[];
+    width: number;
+    height: number;
+}
+
+type Lookup = (p: Vec3) => ColorHex | undefined;
+
+function sliceMask(at: Lookup, d: number, plane: number, region: Region, occlusion: boolean) {
+    const u = (d + 1) % 3;
+    const v = (d + 2) % 3;
+    const width = region.to[u] - region.from[u];
+    const height = region.to[v] - region.from[v];
+    const faces: (Face | null)[] = new Array(width * height).fill(null);
+    const below: Vec3 = [0, 0, 0];
+    const above: Vec3 = [0, 0, 0];
+    below[d] = plane - 1;
+    above[d] = plane;
+    const belowInside = plane > region.from[d];
+    const aboveInside = plane < region.to[d];
+    for (let j = 0; j < height; j++) {
+        for (let i = 0; i < width; i++) {
+            below[u] = above[u] = region.from[u] + i;
+            below[v] = above[v] = region.from[v] + j;
+            const face = faceBetween(at(below), at(above), belowInside, aboveInside);
+            if (face && occlusion) {
+                face.occlusion = cornerOcclusion(at, d, face.sign === 1 ? above : below);
+            }
+            faces[i + j * width] = face;
+        }
+    }
+    return { faces, width, height };
+}
+
+// The face between two cells, if the one showing it is in the region
+function faceBetween(
+    below: ColorHex | undefined,
+    above: ColorHex | undefined,
+    belowInside: boolean,
+    aboveInside: boolean
+): Face | null {
+    if (below && !above && belowInside) return { color: below, sign: 1 };
+    if (above && !below && aboveInside) return { color: above, sign: -1 };
+    return null;
+}
+
+const CORNERS = [
+    [0, 0],
+    [1, 0],
+    [1, 1],
+    [0, 1],
+];
+
+// Occlusion at the face's corners, in the order (0, 0), (1, 0), (1, 1), (0, 1)
+// along u and v, from the cells around `front`, the empty cell the face looks into
+function cornerOcclusion(at: Lookup, d: number, front: Vec3): Occlusion {
+    const u = (d + 1) % 3;
+    const v = (d + 2) % 3;
+    const filled = (du: number, dv: number) => {
+        const p: Vec3 = [front[0], front[1], front[2]];
+        p[u] += du;
+        p[v] += dv;
+        return at(p) ? 1 : 0;
+    };
+    const corners = CORNERS.map(([cu, cv]) => {
+        const su = cu ? 1 : -1;
+        const sv = cv ? 1 : -1;
+        const side = filled(su, 0);
+        const other = filled(0, sv);
+        return side && other ? 3 : side + other + filled(su, sv);
+    });
+    return corners as Occlusion;
+}
+
+const flat = (o?: Occlusion) => !o || (o[0] === o[1] && o[1] === o[2] && o[2] === o[3]);
+
+const sameFace = (a: Face | null, b: Face | null) =>
+    a !== null &&
+    b !== null &&
+    a.color === b.color &&
+    a.sign === b.sign &&
+    flat(a.occlusion) &&
+    flat(b.occlusion) &&
+    a.occlusion?.[0] === b.occlusion?.[0];
+
+function mergeMask(mask: Mask, d: number, plane: number, region: Region, out: Quad[]) {
+    const { faces, width, height } = mask;
+    for (let j = 0; j < height; j++) {
+        for (let i = 0; i < width; ) {
+            const face = faces[i + j * width];
+            if (!face) {
+                i++;
+                continue;
+            }
+            const [w, h] = extent(mask, i, j, face);
+            for (let y = j; y < j + h; y++) faces.fill(null, i + y * width, i + w + y * width);
+            const u = (d + 1) % 3;
+            const v = (d + 2) % 3;
+            out.push(quad(d, plane, region.from[u] + i, region.from[v] + j, w, h, face));
+            i += w;
+        }
+    }
+}
+
+// The largest rectangle of `face` from (i, j): as wide as the run along u, then
+// as tall as there are rows matching that whole run
+function extent(mask: Mask, i: number, j: number, face: Face): [w: number, h: number] {
+    const { faces, width, height } = mask;
+    let w = 1;
+    while (i + w < width && sameFace(faces[i + w + j * width], face)) w++;
+    let h = 1;
+    while (j + h < height && rowMatches(mask, i, w, j + h, face)) h++;
+    return [w, h];
+}
+
+function rowMatches(mask: Mask, i: number, w: number, row: number, face: Face): boolean {
+    for (let x = i; x < i + w; x++) {
+        if (!sameFace(mask.faces[x + row * mask.width], face)) return false;
+    }
+    return true;
+}
+
+function quad(d: number, plane: number, i: number, j: number, w: number, h: number, face: Face) {
+    const u = (d + 1) % 3;
+    const v = (d + 2) % 3;
+    const corner = (du: number, dv: number): Vec3 => {
+        const p: Vec3 = [0, 0, 0];
+        p[d] = plane;
+        p[u] = i + du;
+        p[v] = j + dv;
+        return p;
+    };
+    const normal: Vec3 = [0, 0, 0];
+    normal[d] = face.sign;
+    // u × v points along +d, so going round u then v is counter-clockwise from +d
+    const corners: Quad["corners"] =
+        face.sign === 1
+            ? [corner(0, 0), corner(w, 0), corner(w, h), corner(0, h)]
+            : [corner(0, 0), corner(0, h), corner(w, h), corner(w, 0)];
+    const result: Quad = { normal, corners, color: face.color };
+    const o = face.occlusion;
+    if (o) result.occlusion = face.sign === 1 ? o : [o[0], o[3], o[2], o[1]];
+    return result;
+}
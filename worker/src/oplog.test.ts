@@ -0,0 +1,127 @@
+import { describe, expect, it } from "vitest";
+import { logKey, OpLog } from "./oplog.js";
+import type { OpSetVoxel } from "./schema.js";
+import { memoryStorage } from "./test-utils.js";
+
+const op = (k: number, t: number): OpSetVoxel => ({ type: "set", k, color: "#FF0000", t });
+
+describe("OpLog", () => {
+    describe("range", () => {
+        it("should return the ops between two versions", () => {
+            const log = new OpLog();
+            log.append(1, [op(0, 1)]);
+            log.append(2, [op(1, 2)]);
+            log.append(3, [op(2, 3)]);
+
+            expect(log.range(1, 2)).toEqual([op(1, 2)]);
+            expect(log.range(0, 3)).toHaveLength(3);
+        });
+
+        it("should return null once the start of the range is compacted", () => {
+            const log = new OpLog(2);
+            for (let v = 1; v <= 4; v++) log.append(v, [op(v, v)]);
+
+            expect(log.range(1, 3)).toBeNull();
+            expect(log.range(2, 3)).toEqual([op(3, 3)]);
+        });
+    });
+
+    describe("since", () => {
+        it("should return no ops when the client is up to date", () => {
+            const log = new OpLog();
+            log.append(1, [op(0, 1)]);
+
+            expect(log.since(1, 1)).toEqual([]);
+        });
+
+        it("should return every op applied after the given version in order", () => {
+            const log = new OpLog();
+            log.append(1, [op(0, 1)]);
+            log.append(2, [op(1, 2), op(2, 3)]);
+            log.append(3, [op(3, 4)]);
+
+            expect(log.since(1, 3)).toEqual([op(1, 2), op(2, 3), op(3, 4)]);
+            expect(log.since(0, 3)).toEqual([op(0, 1), op(1, 2), op(2, 3), op(3, 4)]);
+        });
+
+        it("should return null when the requested range has been compacted", () => {
+            const log = new OpLog(2);
+            log.append(1, [op(0, 1)]);
+            log.append(2, [op(1, 2)]);
+            log.append(3, [op(2, 3)]);
+
+            expect(log.entries.map((e) => e.version)).toEqual([2, 3]);
+            expect(log.since(0, 3)).toBeNull();
+            expect(log.since(1, 3)).toEqual([op(1, 2), op(2, 3)]);
+        });
+
+        it("should return null for versions the room has never reached", () => {
+            const log = new OpLog();
+            log.append(1, [op(0, 1)]);
+
+            expect(log.since(5, 1)).toBeNull();
+            expect(log.since(-1, 1)).toBeNull();
+        });
+
+        it("should return null when the log is empty but the room has history", () => {
+            expect(new OpLog().since(0, 4)).toBeNull();
+        });
+    });
+
+    describe("persistence", () => {
+        it("should write appended entries under zero-padded version keys", async () => {
+            const { data, storage } = memoryStorage();
+            const log = new OpLog();
+            log.append(7, [op(0, 1)]);
+            await log.flush(storage);
+
+            expect(logKey(7)).toBe("log:000000000007");
+            expect(data.get("log:000000000007")).toEqual([op(0, 1)]);
+        });
+
+        it("should delete compacted entries from storage on flush", async () => {
+            const { data, storage } = memoryStorage();
+            const log = new OpLog(2);
+            log.append(1, [op(0, 1)]);
+            log.append(2, [op(1, 2)]);
+            await log.flush(storage);
+
+            log.append(3, [op(2, 3)]);
+            await log.flush(storage);
+
+            expect([...data.keys()].sort()).toEqual([logKey(2), logKey(3)]);
+        });
+
+        it("should skip writing entries compacted before they were flushed", async () => {
+            const { data, storage } = memoryStorage();
+            const log = new OpLog(1);
+            log.append(1, [op(0, 1)]);
+            log.append(2, [op(1, 2)]);
+            await log.flush(storage);
+
+            expect([...data.keys()]).toEqual([logKey(2)]);
+        });
+
+        it("should restore entries in version order on load", async () => {
+            const { storage } = memoryStorage();
+            const log = new OpLog();
+            log.append(9, [op(0, 1)]);
+            log.append(10, [op(1, 2)]);
+            await log.flush(storage);
+
+            const restored = await OpLog.load(storage);
+
+            expect(restored.entries.map((e) => e.version)).toEqual([9, 10]);
+            expect(restored.since(8, 10)).toEqual([op(0, 1), op(1, 2)]);
+        });
+
+        it("should batch large flushes within storage key limits", async () => {
+            const { data, storage } = memoryStorage();
+            const log = new OpLog();
+            for (let v = 1; v <= 300; v++) log.append(v, [op(v, v)]);
+            await log.flush(storage);
+
+            expect(data.size).toBe(300);
+        });
+    });
+});
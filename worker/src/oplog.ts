@@ -0,0 +1,89 @@
+import type { OpSetVoxel } from "./schema";
+
+export const OP_LOG_LIMIT = 1000; // apply batches kept before the oldest are compacted away
+const LOG_PREFIX = "log:";
+const STORAGE_BATCH = 128; // DO storage put/delete accept at most 128 keys per call
+
+export interface LogEntry {
+    version: number; // canvas version this batch produced
+    ops: OpSetVoxel[];
+}
+
+export type LogStorage = Pick<DurableObjectStorage, "list" | "put" | "delete">;
+
+// Zero-padded so storage.list() returns entries in version order
+export const logKey = (version: number) => `${LOG_PREFIX}${version.toString().padStart(12, "0")}`;
+
+// Append-only log of applied op batches, keyed by version. Lets the room answer
+// "what changed since version N" without shipping the whole canvas.
+export class OpLog {
+    entries: LogEntry[] = []; // oldest first, versions strictly increasing
+    private unflushed: LogEntry[] = [];
+    private compacted: number[] = []; // versions dropped but not yet deleted from storage
+
+    constructor(private limit = OP_LOG_LIMIT) {}
+
+    static async load(storage: LogStorage, limit = OP_LOG_LIMIT): Promise<OpLog> {
+        const log = new OpLog(limit);
+        const stored = await storage.list<OpSetVoxel[]>({ prefix: LOG_PREFIX });
+        for (const [k, ops] of stored) {
+            log.entries.push({ version: Number(k.slice(LOG_PREFIX.length)), ops });
+        }
+        log.compact();
+        return log;
+    }
+
+    append(version: number, ops: OpSetVoxel[]) {
+        const entry = { version, ops };
+        this.entries.push(entry);
+        this.unflushed.push(entry);
+        this.compact();
+    }
+
+    // Ops applied after `since` up to `current`, or null if that range has been compacted
+    since(since: number, current: number): OpSetVoxel[] | null {
+        return this.range(since, current);
+    }
+
+    // Ops applied after version `after` up to and including `upTo`, or null if the
+    // log doesn't reach back that far
+    range(after: number, upTo: number): OpSetVoxel[] | null {
+        if (after === upTo) return [];
+        if (after > upTo || after < 0) return null;
+        const first = this.entries[0];
+        if (!first || first.version > after + 1) return null;
+
+        const ops: OpSetVoxel[] = [];
+        for (const entry of this.entries) {
+            if (entry.version > after && entry.version <= upTo) ops.push(...entry.ops);
+        }
+        return ops;
+    }
+
+    async flush(storage: LogStorage) {
+        const puts = this.unflushed.splice(0);
+        for (let i = 0; i < puts.length; i += STORAGE_BATCH) {
+            const batch: Record<string, OpSetVoxel[]> = {};
+            for (const entry of puts.slice(i, i + STORAGE_BATCH)) {
+                batch[logKey(entry.version)] = entry.ops;
+            }
+            await storage.put(batch);
+        }
+
+        const deletes = this.compacted.splice(0).map(logKey);
+        for (let i = 0; i < deletes.length; i += STORAGE_BATCH) {
+            await storage.delete(deletes.slice(i, i + STORAGE_BATCH));
+        }
+    }
+
+    private compact() {
+        const excess = this.entries.length - this.limit;
+        if (excess <= 0) return;
+        for (const entry of this.entries.splice(0, excess)) {
+            // Entries that never reached storage don't need deleting from it
+            const pending = this.unflushed.indexOf(entry);
+            if (pending >= 0) this.unflushed.splice(pending, 1);
+            else this.compacted.push(entry.version);
+        }
+    }
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { crc32, encodePng } from "./png.js";
+
+async function inflate(bytes: Uint8Array): Promise<Uint8Array> {
+    const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream("deflate"));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+// The chunks after the signature, checking each one's CRC
+function readChunks(png: Uint8Array) {
+    const view = new DataView(png.buffer, png.byteOffset, png.byteLength);
+    const chunks: { type: string; data: Uint8Array }[] = [];
+    for (let at = 8; at < png.length; ) {
+        const length = view.getUint32(at);
+        const type = new TextDecoder().decode(png.subarray(at + 4, at + 8));
+        const data = png.subarray(at + 8, at + 8 + length);
+        expect(view.getUint32(at + 8 + length)).toBe(crc32(png.subarray(at + 4, at + 8 + length)));
+        chunks.push({ type, data });
+        at += 12 + length;
+    }
+    return chunks;
+}
+
+describe("crc32", () => {
+    it("should match the standard check value", () => {
+        expect(crc32(new TextEncoder().encode("123456789"))).toBe(0xcbf43926);
+    });
+});
+
+describe("encodePng", () => {
+    it("should write a signature, header, pixel data and end chunk", async () => {
+        const rgba = new Uint8Array([255, 0, 0, 255, 0, 255, 0, 255, 0, 0, 255, 255, 1, 2, 3, 4]);
+        const png = await encodePng(2, 2, rgba);
+
+        expect([...png.subarray(0, 8)]).toEqual([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+        const chunks = readChunks(png);
+        expect(chunks.map((c) => c.type)).toEqual(["IHDR", "IDAT", "IEND"]);
+
+        const header = new DataView(chunks[0].data.buffer, chunks[0].data.byteOffset, 13);
+        expect([header.getUint32(0), header.getUint32(4)]).toEqual([2, 2]);
+        expect([...chunks[0].data.subarray(8)]).toEqual([8, 6, 0, 0, 0]);
+
+        const raw = await inflate(chunks[1].data);
+        expect([...raw]).toEqual([0, ...rgba.subarray(0, 8), 0, ...rgba.subarray(8)]);
+    });
+
+    it("should reject pixel data of the wrong length", async () => {
+        await expect(encodePng(2, 2, new Uint8Array(12))).rejects.toThrow("png:");
+    });
+});
@@ -0,0 +1,63 @@
+// Minimal PNG encoder: 8-bit RGBA, no interlacing, every scanline unfiltered.
+// The runtime's CompressionStream does the deflating.
+
+const SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    return c >>> 0;
+});
+
+export function crc32(bytes: Uint8Array): number {
+    let crc = 0xffffffff;
+    for (const b of bytes) crc = CRC_TABLE[(crc ^ b) & 0xff] ^ (crc >>> 8);
+    return (crc ^ 0xffffffff) >>> 0;
+}
+
+// Length, type, data and a CRC over type and data
+function chunk(type: string, data: Uint8Array): Uint8Array {
+    const out = new Uint8Array(12 + data.length);
+    const view = new DataView(out.buffer);
+    view.setUint32(0, data.length);
+    for (let i = 0; i < 4; i++) out[4 + i] = type.charCodeAt(i);
+    out.set(data, 8);
+    view.setUint32(8 + data.length, crc32(out.subarray(4, 8 + data.length)));
+    return out;
+}
+
+async function deflate(bytes: Uint8Array): Promise<Uint8Array> {
+    const stream = new Blob([bytes]).stream().pipeThrough(new CompressionStream("deflate"));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+export async function encodePng(width: number, height: number, rgba: Uint8Array) {
+    if (rgba.length !== width * height * 4) throw new Error("png: pixel data doesn't fit size");
+
+    const header = new Uint8Array(13);
+    const view = new DataView(header.buffer);
+    view.setUint32(0, width);
+    view.setUint32(4, height);
+    header.set([8, 6, 0, 0, 0], 8); // 8 bits, RGBA; compression, filter, interlace methods 0
+
+    // Each scanline starts with its filter type, 0 (none)
+    const stride = width * 4;
+    const raw = new Uint8Array((stride + 1) * height);
+    for (let y = 0; y < height; y++) {
+        raw.set(rgba.subarray(y * stride, (y + 1) * stride), y * (stride + 1) + 1);
+    }
+
+    const parts = [
+        new Uint8Array(SIGNATURE),
+        chunk("IHDR", header),
+        chunk("IDAT", await deflate(raw)),
+        chunk("IEND", new Uint8Array(0)),
+    ];
+    const png = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+        png.set(part, offset);
+        offset += part.length;
+    }
+    return png;
+}
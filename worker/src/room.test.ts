@@ -0,0 +1,1184 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { Env } from "./env.js";
+import { OpLog } from "./oplog.js";
+import { VoxelRoomDO } from "./room.js";
+import {
+    type ClientMsg,
+    type HistoryResponse,
+    MAX_CELLS,
+    type OpSetVoxel,
+    type PackedState,
+    type ReplayFrame,
+    type ServerMsg,
+} from "./schema.js";
+import { memoryStorage } from "./test-utils.js";
+import { decodeServerMsg, WIRE_VERSION } from "./wire.js";
+
+// A hibernatable socket: the runtime delivers its messages by calling the room,
+// and the attachment is stored serialized, as it is across hibernation
+class FakeSocket {
+    sent: ServerMsg[] = [];
+    binary: ServerMsg["type"][] = []; // types of the messages that arrived as binary frames
+    wires: number[] = []; // and the wire version each was encoded with
+    closed = false;
+    private attachment: string | null = null;
+
+    constructor(public room: VoxelRoomDO) {}
+
+    send(data: string | Uint8Array) {
+        if (typeof data === "string") {
+            this.sent.push(JSON.parse(data));
+            return;
+        }
+        const msg = decodeServerMsg(data);
+        this.sent.push(msg);
+        this.binary.push(msg.type);
+        this.wires.push(data[0]);
+    }
+
+    close() {
+        this.closed = true;
+    }
+
+    serializeAttachment(value: unknown) {
+        this.attachment = JSON.stringify(value);
+    }
+
+    deserializeAttachment() {
+        return this.attachment === null ? null : JSON.parse(this.attachment);
+    }
+
+    async receive(msg: ClientMsg) {
+        await this.room.webSocketMessage(this as unknown as WebSocket, JSON.stringify(msg));
+    }
+
+    // The runtime still lists a socket while its close handler runs
+    async disconnect() {
+        await this.room.webSocketClose(this as unknown as WebSocket, 1000, "bye");
+        (this.room.state as unknown as FakeState).sockets.delete(this);
+    }
+
+    last<T extends ServerMsg["type"]>(type: T): Extract<ServerMsg, { type: T }> | undefined {
+        return this.sent.filter((m) => m.type === type).pop() as
+            | Extract<ServerMsg, { type: T }>
+            | undefined;
+    }
+}
+
+type FakeState = ReturnType<typeof fakeState>;
+
+function fakeState() {
+    const sockets = new Set<FakeSocket>();
+    return {
+        storage: memoryStorage().storage,
+        sockets,
+        ready: Promise.resolve() as Promise<unknown>,
+        blockConcurrencyWhile(fn: () => Promise<unknown>) {
+            this.ready = fn();
+            return this.ready;
+        },
+        acceptWebSocket(ws: FakeSocket) {
+            sockets.add(ws);
+        },
+        getWebSockets() {
+            return [...sockets];
+        },
+    };
+}
+
+// Passing the state of an existing room simulates it waking from hibernation: a
+// fresh instance, with storage and accepted sockets carried over
+async function createRoom(state = fakeState(), env = {} as Env) {
+    const room = new VoxelRoomDO(state as unknown as DurableObjectState, env);
+    await state.ready;
+    for (const socket of state.sockets) socket.room = room;
+    return room;
+}
+
+async function join(room: VoxelRoomDO, playerId: string, wire?: number) {
+    const socket = new FakeSocket(room);
+    await room.handleSocket(socket as unknown as WebSocket, new Request("http://do/ws"));
+    await socket.receive({ type: "hello", playerId, wire });
+    return socket;
+}
+
+// The canvas as a client would see it from the apply messages it received
+function replayApplies(socket: FakeSocket) {
+    const view = new Map<number, string>();
+    for (const msg of socket.sent) {
+        if (msg.type !== "apply") continue;
+        for (const op of msg.ops) {
+            if (op.color === null) view.delete(op.k);
+            else view.set(op.k, op.color);
+        }
+    }
+    return view;
+}
+
+const set = (k: number, color: string | null, t: number, id: string): OpSetVoxel => ({
+    type: "set",
+    k,
+    color,
+    t,
+    id,
+});
+
+describe("VoxelRoomDO conflict resolution", () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it("should seed joining clients with the room's lamport clock", async () => {
+        const room = await createRoom();
+        const alice = await join(room, "alice");
+        await alice.receive({ type: "set", ops: [set(1, "#FF0000", 1, "a1")] });
+
+        const bob = await join(room, "bob");
+
+        expect(bob.last("welcome")?.lamport).toBe(room.canvas.lamport);
+        expect(alice.last("apply")?.lamport).toBe(room.canvas.lamport);
+    });
+
+    it("should stop a client with a fast clock from winning later conflicts", async () => {
+        const room = await createRoom();
+        const fast = await join(room, "fast");
+        const honest = await join(room, "honest");
+
+        // Wall-clock milliseconds instead of a Lamport stamp
+        await fast.receive({ type: "set", ops: [set(1, "#FF0000", 1_700_000_000_000, "f1")] });
+        expect(room.canvas.lamport).toBe(1);
+
+        const seen = honest.last("apply")?.lamport ?? 0;
+        await honest.receive({ type: "set", ops: [set(1, "#00FF00", seen + 1, "h1")] });
+
+        expect(honest.last("ack")?.ids).toEqual(["h1"]);
+        expect(room.canvas.voxels.get(1)?.color).toBe("#00FF00");
+    });
+
+    it("should reject writes from a client whose clock lags the voxel's last write", async () => {
+        const room = await createRoom();
+        const alice = await join(room, "alice");
+        const slow = await join(room, "slow");
+
+        for (let i = 1; i <= 5; i++) {
+            await alice.receive({ type: "set", ops: [set(1, "#FF0000", i, `a${i}`)] });
+        }
+        const applies = slow.sent.filter((m) => m.type === "apply").length;
+
+        await slow.receive({ type: "set", ops: [set(1, "#0000FF", 2, "s1")] });
+
+        expect(slow.last("nack")).toEqual({ type: "nack", ids: ["s1"], reason: "stale" });
+        expect(room.canvas.voxels.get(1)?.color).toBe("#FF0000");
+        // Nothing changed, so nobody hears about it
+        expect(alice.sent.filter((m) => m.type === "apply")).toHaveLength(5);
+        expect(slow.sent.filter((m) => m.type === "apply")).toHaveLength(applies);
+    });
+
+    it("should still let a lagging client write voxels nobody has touched since", async () => {
+        const room = await createRoom();
+        const alice = await join(room, "alice");
+        const slow = await join(room, "slow");
+        for (let i = 1; i <= 5; i++) {
+            await alice.receive({ type: "set", ops: [set(i, "#FF0000", i, `a${i}`)] });
+        }
+
+        await slow.receive({ type: "set", ops: [set(100, "#0000FF", 0, "s1")] });
+
+        expect(slow.last("ack")?.ids).toEqual(["s1"]);
+        expect(room.canvas.voxels.get(100)?.color).toBe("#0000FF");
+    });
+
+    it("should resolve concurrent edits from the same state to the later arrival", async () => {
+        const room = await createRoom();
+        const alice = await join(room, "alice");
+        const bob = await join(room, "bob");
+        await alice.receive({ type: "set", ops: [set(1, "#FFFFFF", 1, "a0")] });
+        const seen = room.canvas.lamport;
+
+        await alice.receive({ type: "set", ops: [set(1, "#FF0000", seen + 1, "a1")] });
+        await bob.receive({ type: "set", ops: [set(1, "#0000FF", seen + 1, "b1")] });
+
+        expect(alice.last("ack")?.ids).toEqual(["a1"]);
+        expect(bob.last("ack")?.ids).toEqual(["b1"]);
+        expect(room.canvas.voxels.get(1)?.color).toBe("#0000FF");
+    });
+
+    it("should converge every client on the same state under skew", async () => {
+        const room = await createRoom();
+        const clients = await Promise.all(["a", "b", "c"].map((id) => join(room, id)));
+        const stamps = [0, 50, 1_700_000_000_000]; // slow, plausible, wall clock
+
+        for (let round = 0; round < 10; round++) {
+            for (let i = 0; i < clients.length; i++) {
+                const k = round % 3;
+                const color = `#${i}${i}${i}${i}${i}${i}`;
+                await clients[i].receive({
+                    type: "set",
+                    ops: [set(k, color, stamps[i] + round, `${i}-${round}`)],
+                });
+            }
+        }
+
+        const server = new Map([...room.canvas.voxels].map(([k, v]) => [k, v.color]));
+        for (const client of clients) {
+            expect(replayApplies(client)).toEqual(server);
+        }
+    });
+
+    it("should stamp applied ops with strictly increasing room time", async () => {
+        const room = await createRoom();
+        const alice = await join(room, "alice");
+
+        await alice.receive({
+            type: "set",
+            ops: [set(1, "#FF0000", 999, "a1"), set(2, "#FF0000", 3, "a2")],
+        });
+
+        const stamps = alice.last("apply")?.ops.map((op) => op.t);
+        expect(stamps).toEqual([1, 2]);
+    });
+
+    it("should reject clearing a voxel that is already empty", async () => {
+        const room = await createRoom();
+        const alice = await join(room, "alice");
+
+        await alice.receive({ type: "set", ops: [set(1, null, 1, "a1")] });
+
+        expect(alice.last("nack")).toEqual({ type: "nack", ids: ["a1"], reason: "stale" });
+        expect(room.canvas.version).toBe(0);
+    });
+});
+
+describe("VoxelRoomDO sessions", () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it("should give each tab of the same player its own session", async () => {
+        const room = await createRoom();
+        const tab1 = await join(room, "alice");
+        const tab2 = await join(room, "alice");
+
+        const s1 = tab1.last("welcome")?.sessionId;
+        const s2 = tab2.last("welcome")?.sessionId;
+        expect(s1).toBeTruthy();
+        expect(s1).not.toBe(s2);
+    });
+
+    it("should report presence per session rather than per player", async () => {
+        const room = await createRoom();
+        const tab1 = await join(room, "alice");
+        const tab2 = await join(room, "alice");
+
+        await tab1.receive({ type: "presence", cursor: [1, 2, 3] });
+        await tab2.receive({ type: "presence", cursor: [4, 5, 6] });
+
+        const players = tab1.last("presence")?.players ?? [];
+        expect(players.map((p) => p.cursor)).toEqual([
+            [1, 2, 3],
+            [4, 5, 6],
+        ]);
+        expect(new Set(players.map((p) => p.sessionId)).size).toBe(2);
+        expect(new Set(players.map((p) => p.playerId))).toEqual(new Set(["alice"]));
+    });
+});
+
+describe("VoxelRoomDO hibernation", () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it("should keep sessions and cursors across a wake-up", async () => {
+        const state = fakeState();
+        const room = await createRoom(state);
+        const alice = await join(room, "alice");
+        await join(room, "bob");
+        await alice.receive({ type: "presence", cursor: [1, 2, 3] });
+        const before = alice.last("presence")?.players;
+
+        await createRoom(state);
+        await alice.receive({ type: "presence", cursor: [1, 2, 3] });
+
+        expect(alice.last("presence")?.players).toEqual(before);
+    });
+
+    it("should keep a socket's rate-limit bucket across a wake-up", async () => {
+        const state = fakeState();
+        const room = await createRoom(state);
+        const alice = await join(room, "alice");
+        const ops = Array.from({ length: 80 }, (_, i) => set(i, "#FF0000", 1, `a${i}`));
+        await alice.receive({ type: "set", ops });
+
+        await createRoom(state);
+        await alice.receive({ type: "set", ops: [set(100, "#FF0000", 1, "late")] });
+
+        expect(alice.last("reject")?.ids).toEqual(["late"]);
+    });
+
+    it("should persist a full room of the largest size, however varied", async () => {
+        const state = fakeState();
+        const room = await createRoom(state);
+        room.canvas.dims = [64, 64, 16];
+        // No runs or shared colours for the encoding to collapse, and jumpy timestamps
+        for (let k = 0; k < MAX_CELLS; k++) {
+            const rgb = (k * 2654435761) % 0xffffff;
+            const color = `#${rgb.toString(16).padStart(6, "0").toUpperCase()}`;
+            room.canvas.voxels.set(k, { color, t: 1 + ((k * 7919) % 1_000_003) });
+        }
+        room.canvas.version = 1;
+
+        await room.persist();
+        const woken = await createRoom(state);
+
+        // Well past what one storage value holds
+        expect(await state.storage.get("canvas:0004")).toBeDefined();
+        expect(woken.canvas.dims).toEqual([64, 64, 16]);
+        expect(woken.packState()).toEqual(room.packState());
+        const snapshot = woken.snapshots.latest;
+        expect(snapshot.version).toBe(1);
+        expect(await woken.snapshots.read(state.storage, snapshot)).toEqual(room.packState());
+    });
+
+    it("should wake rooms stored as JSON before the canvas was split", async () => {
+        const state = fakeState();
+        await state.storage.put({
+            meta: { version: 2, lamport: 5 },
+            voxels: [
+                [1, "#FF0000", 4],
+                [2, "#00FF00", 5],
+            ],
+        });
+        const room = await createRoom(state);
+        expect(room.canvas.voxels.get(2)).toEqual({ color: "#00FF00", t: 5 });
+
+        await room.persist();
+        const woken = await createRoom(state);
+
+        expect(await state.storage.get("voxels")).toBeUndefined();
+        expect(woken.packState()).toEqual(room.packState());
+    });
+
+    it("should drop a closed socket from presence", async () => {
+        const room = await createRoom();
+        const alice = await join(room, "alice");
+        const bob = await join(room, "bob");
+
+        await bob.disconnect();
+
+        expect(bob.closed).toBe(true);
+        expect(alice.last("presence")?.players.map((p) => p.playerId)).toEqual(["alice"]);
+    });
+
+    it("should leave sockets that haven't said hello out of presence", async () => {
+        const room = await createRoom();
+        const lurker = new FakeSocket(room);
+        await room.handleSocket(lurker as unknown as WebSocket, new Request("http://do/ws"));
+        const alice = await join(room, "alice");
+
+        await alice.receive({ type: "presence", cursor: [0, 0, 0] });
+
+        expect(alice.last("presence")?.players).toHaveLength(1);
+    });
+});
+
+describe("VoxelRoomDO wire protocol", () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it("should send bulk messages as binary to clients that ask for it", async () => {
+        const room = await createRoom();
+        const binary = await join(room, "new", WIRE_VERSION);
+        const json = await join(room, "old");
+
+        await binary.receive({ type: "set", ops: [set(1, "#FF0000", 1, "n1")] });
+
+        expect(binary.binary).toEqual(["welcome", "apply"]);
+        expect(json.binary).toEqual([]);
+        expect(binary.last("apply")).toEqual(json.last("apply"));
+        // Not covered by the binary protocol
+        expect(binary.last("ack")?.ids).toEqual(["n1"]);
+    });
+
+    it("should answer clients from the future with the version it speaks", async () => {
+        const room = await createRoom();
+        const socket = await join(room, "alice", WIRE_VERSION + 1);
+
+        expect(socket.binary).toEqual(["welcome"]);
+        expect(socket.wires).toEqual([WIRE_VERSION]);
+    });
+
+    it("should turn wire 1 clients away from rooms of another size", async () => {
+        const room = await createRoom();
+        await room.fetch(
+            new Request("http://do/api/room/r/create", {
+                method: "POST",
+                body: JSON.stringify({ dims: [32, 16, 64] }),
+            })
+        );
+
+        const old = await join(room, "old", 1);
+        const current = await join(room, "new", WIRE_VERSION);
+
+        expect(old.last("error")?.code).toBe("unsupported");
+        expect(old.last("welcome")).toBeUndefined();
+        expect(old.closed).toBe(true);
+        expect(current.last("welcome")?.dims).toEqual([32, 16, 64]);
+    });
+
+    it("should keep speaking wire 1 to clients that ask for it", async () => {
+        const room = await createRoom();
+        const old = await join(room, "old", 1);
+        const current = await join(room, "new", WIRE_VERSION);
+
+        await current.receive({ type: "set", ops: [set(1, "#FF0000", 1, "n1")] });
+
+        expect(old.binary).toEqual(["welcome", "apply"]);
+        expect(old.wires).toEqual([1, 1]);
+        expect(old.last("welcome")?.dims).toEqual([20, 20, 20]);
+        expect(current.wires.every((wire) => wire === WIRE_VERSION)).toBe(true);
+        expect(old.last("apply")).toEqual(current.last("apply"));
+    });
+});
+
+describe("VoxelRoomDO message validation", () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it("should reply to garbage with a structured error", async () => {
+        const room = await createRoom();
+        const alice = await join(room, "alice");
+
+        await room.webSocketMessage(alice as unknown as WebSocket, "{not json");
+        expect(alice.last("error")?.code).toBe("bad_json");
+
+        await room.webSocketMessage(alice as unknown as WebSocket, "x".repeat(64 * 1024));
+        expect(alice.last("error")?.code).toBe("too_large");
+    });
+
+    it("should measure messages in bytes rather than characters", async () => {
+        const room = await createRoom();
+        const alice = await join(room, "alice");
+        // Under the limit in UTF-16 code units, three times over it in UTF-8
+        const frame = JSON.stringify({ type: "ping", at: 1, pad: "€".repeat(16 * 1024 - 64) });
+
+        await room.webSocketMessage(alice as unknown as WebSocket, frame);
+
+        expect(alice.last("error")?.code).toBe("too_large");
+        expect(alice.last("pong")).toBeUndefined();
+    });
+
+    it("should refuse invalid ops without applying any of the batch", async () => {
+        const room = await createRoom();
+        const alice = await join(room, "alice");
+
+        await alice.receive({
+            type: "set",
+            ops: [set(1, "#FF0000", 1, "a1"), set(2, "javascript:alert(1)", 1, "a2")],
+        });
+
+        expect(alice.last("error")).toMatchObject({ code: "bad_field", ids: ["a1", "a2"] });
+        expect(room.canvas.voxels.size).toBe(0);
+    });
+
+    it("should attribute ops to the sender whatever they claim", async () => {
+        const room = await createRoom();
+        const mallory = await join(room, "mallory");
+
+        await mallory.receive({
+            type: "set",
+            ops: [{ ...set(1, "#FF0000", 1, "m1"), by: "alice" }],
+        });
+
+        expect(room.canvas.voxels.get(1)?.by).toBe("mallory");
+        expect(mallory.last("apply")?.ops[0].by).toBe("mallory");
+    });
+
+    it("should refuse ops sent before hello", async () => {
+        const room = await createRoom();
+        const socket = new FakeSocket(room);
+        await room.handleSocket(socket as unknown as WebSocket, new Request("http://do/ws"));
+
+        await socket.receive({ type: "set", ops: [set(1, "#FF0000", 1, "a1")] });
+
+        expect(socket.last("error")).toMatchObject({ code: "not_joined", ids: ["a1"] });
+        expect(room.canvas.voxels.size).toBe(0);
+    });
+});
+
+describe("VoxelRoomDO transactions", () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    const part = (id: string, n: number, last: boolean, from: number, count: number) => ({
+        type: "set" as const,
+        ops: Array.from({ length: count }, (_, i) =>
+            set(from + i, "#FF0000", 1, `${id}-${from + i}`)
+        ),
+        txn: { id, part: n, last },
+    });
+
+    it("should hold the parts back and apply them as one version", async () => {
+        const room = await createRoom();
+        const alice = await join(room, "alice");
+        const bob = await join(room, "bob");
+        const version = room.canvas.version;
+
+        await alice.receive(part("fill", 0, false, 0, 80));
+        expect(bob.last("apply")).toBeUndefined();
+        expect(room.canvas.voxels.size).toBe(0);
+
+        await alice.receive(part("fill", 1, true, 80, 20));
+        expect(bob.sent.filter((m) => m.type === "apply")).toHaveLength(1);
+        expect(bob.last("apply")?.ops).toHaveLength(100);
+        expect(room.canvas.version).toBe(version + 1);
+        expect(alice.last("ack")?.ids).toHaveLength(100);
+    });
+
+    it("should let a transaction that got started finish whatever the rate", async () => {
+        const room = await createRoom();
+        const alice = await join(room, "alice");
+
+        await alice.receive(part("fill", 0, false, 0, 80));
+        await alice.receive(part("fill", 1, false, 80, 80));
+        await alice.receive(part("fill", 2, true, 160, 80));
+        expect(room.canvas.voxels.size).toBe(240);
+
+        // ...but the bucket owes for it afterwards
+        vi.advanceTimersByTime(80 * 50);
+        await alice.receive({ type: "set", ops: [set(300, "#FF0000", 1, "next")] });
+        expect(alice.last("reject")?.ids).toEqual(["next"]);
+    });
+
+    it("should refuse a part that arrives out of order", async () => {
+        const room = await createRoom();
+        const alice = await join(room, "alice");
+
+        await alice.receive(part("fill", 1, true, 0, 10));
+
+        expect(alice.last("error")).toMatchObject({ code: "incomplete" });
+        expect(alice.last("error")?.ids).toHaveLength(10);
+        expect(room.canvas.voxels.size).toBe(0);
+    });
+
+    it("should refuse the rest of a transaction the room lost while hibernating", async () => {
+        const state = fakeState();
+        const room = await createRoom(state);
+        const alice = await join(room, "alice");
+        await alice.receive(part("fill", 0, false, 0, 50));
+
+        const woken = await createRoom(state);
+        await alice.receive(part("fill", 1, true, 50, 50));
+
+        expect(alice.last("error")).toMatchObject({ code: "incomplete" });
+        expect(woken.canvas.voxels.size).toBe(0);
+    });
+
+    it("should drop a transaction abandoned for a new one", async () => {
+        const room = await createRoom();
+        const alice = await join(room, "alice");
+
+        await alice.receive(part("first", 0, false, 0, 10));
+        await alice.receive(part("second", 0, true, 100, 10));
+
+        expect(alice.last("error")).toMatchObject({ code: "incomplete" });
+        expect(alice.last("error")?.ids?.[0]).toBe("first-0");
+        expect([...room.canvas.voxels.keys()]).toEqual(
+            Array.from({ length: 10 }, (_, i) => 100 + i)
+        );
+    });
+
+    it("should refuse a transaction over MAX_TXN_OPS", async () => {
+        const room = await createRoom();
+        const alice = await join(room, "alice");
+
+        for (let n = 0; n < 6; n++) await alice.receive(part("big", n, false, n * 80, 80));
+        await alice.receive(part("big", 6, true, 480, 80));
+
+        expect(alice.last("error")).toMatchObject({ code: "too_large" });
+        expect(alice.last("error")?.ids).toHaveLength(560);
+        expect(room.canvas.voxels.size).toBe(0);
+    });
+
+    it("should apply none of a transaction when one of its ops is dropped", async () => {
+        const room = await createRoom();
+        const alice = await join(room, "alice");
+        const bob = await join(room, "bob");
+        await bob.receive({ type: "set", ops: [set(5, "#0000FF", 1, "b1")] });
+        const { version, lamport } = room.canvas;
+
+        const fill = part("fill", 0, true, 0, 10);
+        fill.ops[5] = { ...fill.ops[5], expect: null };
+        await alice.receive(fill);
+
+        const nacks = alice.sent.filter((m) => m.type === "nack");
+        expect(nacks).toEqual([
+            { type: "nack", ids: ["fill-5"], reason: "conflict" },
+            {
+                type: "nack",
+                ids: fill.ops.filter((_, i) => i !== 5).map((op) => op.id),
+                reason: "aborted",
+            },
+        ]);
+        expect(bob.sent.filter((m) => m.type === "apply")).toHaveLength(1);
+        expect(room.canvas).toMatchObject({ version, lamport });
+        expect([...room.canvas.voxels]).toEqual([[5, { color: "#0000FF", t: 1, by: "bob" }]]);
+    });
+
+    it("should hold an op to the write it expects the voxel to have", async () => {
+        const room = await createRoom();
+        const alice = await join(room, "alice");
+        await alice.receive({ type: "set", ops: [set(1, "#FF0000", 1, "a1")] });
+        const t = room.canvas.voxels.get(1)?.t;
+
+        await alice.receive({ type: "set", ops: [{ ...set(1, "#00FF00", 9, "a2"), expectT: 0 }] });
+        expect(alice.last("nack")).toEqual({ type: "nack", ids: ["a2"], reason: "conflict" });
+
+        await alice.receive({ type: "set", ops: [{ ...set(1, "#00FF00", 9, "a3"), expectT: t }] });
+        expect(alice.last("ack")?.ids).toEqual(["a3"]);
+        expect(room.canvas.voxels.get(1)?.color).toBe("#00FF00");
+    });
+
+    it("should forget a closed socket's unfinished transaction", async () => {
+        const room = await createRoom();
+        const alice = await join(room, "alice");
+        await alice.receive(part("fill", 0, false, 0, 10));
+
+        await alice.disconnect();
+
+        expect(room.txns.size).toBe(0);
+    });
+});
+
+describe("VoxelRoomDO undo", () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it("should apply an inverse op while the voxel holds the expected colour", async () => {
+        const room = await createRoom();
+        const alice = await join(room, "alice");
+        await alice.receive({ type: "set", ops: [set(1, "#FF0000", 1, "a1")] });
+
+        const undo = { ...set(1, null, room.canvas.lamport + 1, "a2"), expect: "#FF0000" };
+        await alice.receive({ type: "set", ops: [undo] });
+
+        expect(alice.last("ack")?.ids).toEqual(["a2"]);
+        expect(room.canvas.voxels.has(1)).toBe(false);
+    });
+
+    it("should refuse to undo over someone else's later edit", async () => {
+        const room = await createRoom();
+        const alice = await join(room, "alice");
+        const bob = await join(room, "bob");
+        await alice.receive({ type: "set", ops: [set(1, "#FF0000", 1, "a1")] });
+        await bob.receive({ type: "set", ops: [set(1, "#0000FF", 2, "b1")] });
+
+        const undo = { ...set(1, null, room.canvas.lamport + 1, "a2"), expect: "#FF0000" };
+        await alice.receive({ type: "set", ops: [undo] });
+
+        expect(alice.last("nack")).toEqual({ type: "nack", ids: ["a2"], reason: "conflict" });
+        expect(room.canvas.voxels.get(1)?.color).toBe("#0000FF");
+    });
+
+    it("should check expected emptiness on redo of a placement", async () => {
+        const room = await createRoom();
+        const alice = await join(room, "alice");
+        const bob = await join(room, "bob");
+        await bob.receive({ type: "set", ops: [set(1, "#0000FF", 1, "b1")] });
+
+        const redo = { ...set(1, "#FF0000", room.canvas.lamport + 1, "a1"), expect: null };
+        await alice.receive({ type: "set", ops: [redo] });
+
+        expect(alice.last("nack")?.reason).toBe("conflict");
+    });
+});
+
+describe("VoxelRoomDO history", () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    async function getJson<T = { version: number; voxels: PackedState }>(
+        room: VoxelRoomDO,
+        path: string,
+        method = "GET",
+        headers: Record<string, string> = {}
+    ) {
+        const res = await room.fetch(
+            new Request(`http://do/api/room/r/${path}`, { method, headers })
+        );
+        return { status: res.status, body: (res.status === 200 ? await res.json() : null) as T };
+    }
+
+    // Restores are a maintenance endpoint, taken only with the seed secret
+    const secret = { ROOM_SEED_SECRET: "s3cret" } as Env;
+    const restore = (
+        room: VoxelRoomDO,
+        query: string,
+        headers: Record<string, string> = { "x-seed": "s3cret" }
+    ) => getJson<object>(room, `restore${query}`, "POST", headers);
+
+    // Edit voxel k to each colour in turn, one version per edit
+    async function paint(socket: FakeSocket, room: VoxelRoomDO, edits: [number, string | null][]) {
+        for (const [k, color] of edits) {
+            const id = `e${room.canvas.version}`;
+            await socket.receive({
+                type: "set",
+                ops: [set(k, color, room.canvas.lamport + 1, id)],
+            });
+        }
+    }
+
+    it("should serve the canvas as it was at a past version", async () => {
+        const room = await createRoom();
+        const alice = await join(room, "alice");
+        await paint(alice, room, [
+            [1, "#FF0000"],
+            [2, "#00FF00"],
+            [1, "#0000FF"],
+            [2, null],
+        ]);
+
+        const { body } = await getJson(room, "state?version=2");
+        expect(body.version).toBe(2);
+        expect(body.voxels.map(([k, color]) => [k, color])).toEqual([
+            [1, "#FF0000"],
+            [2, "#00FF00"],
+        ]);
+        expect((await getJson(room, "state?version=5")).status).toBe(404);
+    });
+
+    it("should rebuild from a snapshot once the log no longer reaches back", async () => {
+        const room = await createRoom();
+        room.opLog = new OpLog(3);
+        const alice = await join(room, "alice");
+        await paint(alice, room, [
+            [1, "#FF0000"],
+            [2, "#00FF00"],
+        ]);
+        await room.persist(); // first snapshot is due straight away
+        await paint(alice, room, [
+            [3, "#0000FF"],
+            [1, null],
+            [4, "#FFFFFF"],
+        ]);
+
+        const at4 = await getJson(room, "state?version=4");
+        expect(at4.body.voxels.map(([k]) => k).sort()).toEqual([2, 3]);
+        expect((await getJson(room, "state?version=1")).status).toBe(404);
+
+        const history = await getJson<HistoryResponse>(room, "history");
+        expect(history.body).toMatchObject({ version: 5, logFrom: 2 });
+        expect(history.body.snapshots.map((s) => s.version)).toEqual([2]);
+    });
+
+    it("should restore a past version for everyone with ordinary ops", async () => {
+        const room = await createRoom(fakeState(), secret);
+        const alice = await join(room, "alice");
+        const bob = await join(room, "bob");
+        await paint(alice, room, [
+            [1, "#FF0000"],
+            [2, "#00FF00"],
+        ]);
+        // Griefing
+        await paint(bob, room, [
+            [1, null],
+            [2, "#000000"],
+            [3, "#000000"],
+        ]);
+
+        const { body } = await restore(room, "?version=2");
+
+        expect(body).toMatchObject({ success: true, version: 6, changed: 3 });
+        const expected = new Map([
+            [1, "#FF0000"],
+            [2, "#00FF00"],
+        ]);
+        expect(new Map([...room.canvas.voxels].map(([k, v]) => [k, v.color]))).toEqual(expected);
+        expect(replayApplies(alice)).toEqual(expected);
+        expect(replayApplies(bob)).toEqual(expected);
+    });
+
+    async function replay(room: VoxelRoomDO): Promise<ReplayFrame[]> {
+        const res = await room.fetch(new Request("http://do/api/room/r/replay"));
+        expect(res.headers.get("content-type")).toBe("application/x-ndjson");
+        return (await res.text())
+            .split("\n")
+            .filter(Boolean)
+            .map((line) => JSON.parse(line));
+    }
+
+    it("should replay every logged batch with who placed it", async () => {
+        const room = await createRoom();
+        const alice = await join(room, "alice");
+        await paint(alice, room, [
+            [1, "#FF0000"],
+            [1, null],
+        ]);
+
+        const frames = await replay(room);
+
+        expect(frames.map((f) => f.version)).toEqual([1, 2]);
+        expect(frames[0].ops).toMatchObject([{ k: 1, color: "#FF0000", by: "alice" }]);
+        expect(frames[1].ops).toMatchObject([{ k: 1, color: null, by: "alice" }]);
+    });
+
+    it("should replay snapshots the log no longer covers as keyframes", async () => {
+        const room = await createRoom();
+        room.opLog = new OpLog(3);
+        const alice = await join(room, "alice");
+        await paint(alice, room, [
+            [1, "#FF0000"],
+            [2, "#00FF00"],
+        ]);
+        await room.persist();
+        await paint(alice, room, [
+            [3, "#0000FF"],
+            [1, null],
+            [4, "#FFFFFF"],
+        ]);
+
+        const frames = await replay(room);
+
+        expect(frames.map((f) => f.version)).toEqual([2, 3, 4, 5]);
+        expect(frames[0].at).toBeDefined();
+        expect(frames[0].ops.map((op) => [op.k, op.color])).toEqual([
+            [1, "#FF0000"],
+            [2, "#00FF00"],
+        ]);
+        const end = new Map<number, string | null>();
+        for (const op of frames.flatMap((f) => f.ops)) end.set(op.k, op.color);
+        expect([...end].filter(([, color]) => color !== null).map(([k]) => k)).toEqual([2, 3, 4]);
+    });
+
+    it("should refuse to restore a version it can't rebuild", async () => {
+        const room = await createRoom(fakeState(), secret);
+        room.opLog = new OpLog(2);
+        const alice = await join(room, "alice");
+        await paint(alice, room, [
+            [1, "#FF0000"],
+            [2, "#00FF00"],
+            [3, "#0000FF"],
+        ]);
+
+        const { status } = await restore(room, "?version=1");
+        expect(status).toBe(404);
+        expect(room.canvas.voxels.size).toBe(3);
+    });
+
+    it("should refuse restores without a usable version rather than wipe the room", async () => {
+        const room = await createRoom(fakeState(), secret);
+        const alice = await join(room, "alice");
+        await paint(alice, room, [[1, "#FF0000"]]);
+
+        for (const query of ["", "?version=", "?version=abc", "?version=0.5", "?version=2"]) {
+            const { status } = await restore(room, query);
+            expect(status).toBe(400);
+        }
+        expect(room.canvas.voxels.get(1)?.color).toBe("#FF0000");
+        expect(room.canvas.version).toBe(1);
+    });
+
+    it("should only restore for callers holding the seed secret", async () => {
+        const room = await createRoom(fakeState(), secret);
+        const alice = await join(room, "alice");
+        await paint(alice, room, [[1, "#FF0000"]]);
+
+        const attempts: Record<string, string>[] = [{}, { "x-seed": "guess" }];
+        for (const headers of attempts) {
+            expect((await restore(room, "?version=0", headers)).status).toBe(403);
+        }
+        expect(room.canvas.voxels.size).toBe(1);
+
+        expect((await restore(room, "?version=0")).status).toBe(200);
+        expect(room.canvas.voxels.size).toBe(0);
+    });
+
+    it("should refuse every restore when no seed secret is set", async () => {
+        const room = await createRoom();
+        const alice = await join(room, "alice");
+        await paint(alice, room, [[1, "#FF0000"]]);
+
+        const attempts: Record<string, string>[] = [
+            {},
+            { "x-seed": "" },
+            { "x-seed": "undefined" },
+        ];
+        for (const headers of attempts) {
+            expect((await restore(room, "?version=0", headers)).status).toBe(403);
+        }
+        expect(room.canvas.voxels.get(1)?.color).toBe("#FF0000");
+    });
+});
+
+describe("VoxelRoomDO import", () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    async function postImport(room: VoxelRoomDO, body: unknown, headers = {}) {
+        const res = await room.fetch(
+            new Request("http://do/api/room/r/import", {
+                method: "POST",
+                headers,
+                body: typeof body === "string" ? body : JSON.stringify(body),
+            })
+        );
+        return { status: res.status, body: (await res.json()) as Record<string, unknown> };
+    }
+
+    const ticketOf = (socket: FakeSocket) => socket.last("ticket")?.ticket;
+
+    const colors = (room: VoxelRoomDO) =>
+        new Map([...room.canvas.voxels].map(([k, v]) => [k, v.color]));
+
+    it("should merge a model into the canvas for everyone", async () => {
+        const room = await createRoom();
+        const alice = await join(room, "alice");
+        const bob = await join(room, "bob");
+        await alice.receive({ type: "set", ops: [set(1, "#FF0000", 1, "a1")] });
+
+        const { body } = await postImport(room, {
+            voxels: [
+                [2, "#00FF00"],
+                [3, "#0000FF"],
+            ],
+            mode: "merge",
+            ticket: ticketOf(bob),
+        });
+
+        expect(body).toMatchObject({ success: true, version: 2, changed: 2 });
+        const expected = new Map([
+            [1, "#FF0000"],
+            [2, "#00FF00"],
+            [3, "#0000FF"],
+        ]);
+        expect(colors(room)).toEqual(expected);
+        expect(replayApplies(alice)).toEqual(expected);
+        expect(room.canvas.voxels.get(2)?.by).toBe("bob");
+    });
+
+    it("should credit the ticket's holder whoever the body claims", async () => {
+        const room = await createRoom();
+        await join(room, "alice");
+        const mallory = await join(room, "mallory");
+
+        await postImport(room, {
+            voxels: [[1, "#000000"]],
+            mode: "merge",
+            ticket: ticketOf(mallory),
+            by: "alice",
+        });
+
+        expect(room.canvas.voxels.get(1)?.by).toBe("mallory");
+    });
+
+    it("should refuse tickets no connected socket holds", async () => {
+        const room = await createRoom();
+        const bob = await join(room, "bob");
+        const ticket = ticketOf(bob);
+        await bob.disconnect();
+
+        for (const t of [ticket, "made-up"]) {
+            const { status } = await postImport(room, { voxels: [], mode: "replace", ticket: t });
+            expect(status).toBe(403);
+        }
+        expect(room.canvas.version).toBe(0);
+    });
+
+    it("should take imports without a ticket only with the seed secret", async () => {
+        const room = await createRoom(fakeState(), { ROOM_SEED_SECRET: "s3cret" } as Env);
+        const request = { voxels: [[1, "#FF0000"]], mode: "merge" };
+
+        expect((await postImport(room, request)).status).toBe(403);
+        expect(room.canvas.voxels.size).toBe(0);
+
+        expect((await postImport(room, request, { "x-seed": "s3cret" })).status).toBe(200);
+        expect(room.canvas.voxels.get(1)?.by).toBeUndefined();
+    });
+
+    it("should refuse every import without a ticket when no seed secret is set", async () => {
+        const room = await createRoom();
+        const alice = await join(room, "alice");
+        await alice.receive({ type: "set", ops: [set(1, "#FF0000", 1, "a1")] });
+        const request = { voxels: [], mode: "replace" };
+
+        for (const headers of [{}, { "x-seed": "" }]) {
+            expect((await postImport(room, request, headers)).status).toBe(403);
+        }
+        expect(colors(room)).toEqual(new Map([[1, "#FF0000"]]));
+    });
+
+    it("should clear what the model doesn't cover when replacing", async () => {
+        const room = await createRoom();
+        const alice = await join(room, "alice");
+        await alice.receive({
+            type: "set",
+            ops: [set(1, "#FF0000", 1, "a1"), set(2, "#FF0000", 1, "a2")],
+        });
+
+        const { body } = await postImport(room, {
+            voxels: [[2, "#FF0000"]],
+            mode: "replace",
+            ticket: ticketOf(alice),
+        });
+
+        expect(body).toMatchObject({ success: true, changed: 1 });
+        expect(colors(room)).toEqual(new Map([[2, "#FF0000"]]));
+    });
+
+    it("should split large models into several versions", async () => {
+        const room = await createRoom();
+        const alice = await join(room, "alice");
+        const voxels = Array.from({ length: 1200 }, (_, k) => [k, "#123456"]);
+
+        const { body } = await postImport(room, { voxels, mode: "merge", ticket: ticketOf(alice) });
+
+        expect(body).toMatchObject({ success: true, version: 3, changed: 1200 });
+        expect(room.opLog.entries.map((e) => e.ops.length)).toEqual([500, 500, 200]);
+    });
+
+    it("should refuse malformed imports without touching the canvas", async () => {
+        const room = await createRoom();
+
+        expect((await postImport(room, "{")).status).toBe(400);
+        const { status, body } = await postImport(room, { voxels: [[9000, "#FF0000"]] });
+        expect(status).toBe(400);
+        expect(body.message).toMatch("mode");
+        expect(room.canvas.version).toBe(0);
+    });
+});
+
+describe("VoxelRoomDO canvas dims", () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    async function postCreate(room: VoxelRoomDO, body: unknown) {
+        const res = await room.fetch(
+            new Request("http://do/api/room/r/create", {
+                method: "POST",
+                body: JSON.stringify(body),
+            })
+        );
+        return { status: res.status, body: (await res.json()) as Record<string, unknown> };
+    }
+
+    it("should be 20 across for rooms no one sized", async () => {
+        const room = await createRoom();
+        const alice = await join(room, "alice");
+
+        expect(alice.last("welcome")?.dims).toEqual([20, 20, 20]);
+    });
+
+    it("should size a new room and keep its size across a wake-up", async () => {
+        const state = fakeState();
+        const room = await createRoom(state);
+
+        const { status } = await postCreate(room, { dims: [32, 16, 64] });
+        expect(status).toBe(200);
+        const woken = await createRoom(state);
+        const alice = await join(woken, "alice");
+
+        expect(alice.last("welcome")?.dims).toEqual([32, 16, 64]);
+    });
+
+    it("should take edits anywhere on the canvas it was sized to, and nowhere past it", async () => {
+        const room = await createRoom();
+        await postCreate(room, { dims: [32, 16, 64] });
+        const alice = await join(room, "alice");
+        const last = 32 * 16 * 64 - 1;
+
+        await alice.receive({ type: "set", ops: [set(last, "#FF0000", 1, "a1")] });
+        await alice.receive({ type: "set", ops: [set(last + 1, "#FF0000", 1, "a2")] });
+
+        expect(room.canvas.voxels.get(last)?.color).toBe("#FF0000");
+        expect(alice.last("error")?.ids).toEqual(["a2"]);
+    });
+
+    it("should tell reconnecting clients the room's size with what they missed", async () => {
+        const room = await createRoom();
+        await postCreate(room, { dims: [32, 16, 64] });
+        const alice = await join(room, "alice");
+        await alice.receive({ type: "set", ops: [set(1, "#FF0000", 1, "a1")] });
+
+        const bob = new FakeSocket(room);
+        await room.handleSocket(bob as unknown as WebSocket, new Request("http://do/ws"));
+        await bob.receive({ type: "hello", playerId: "bob", since: 0, wire: WIRE_VERSION });
+
+        expect(bob.binary).toEqual(["catchup"]);
+        expect(bob.last("catchup")).toMatchObject({ dims: [32, 16, 64], version: 1 });
+    });
+
+    it("should refuse to resize a room that already exists", async () => {
+        const room = await createRoom();
+        await postCreate(room, { dims: [8, 8, 8] });
+
+        const { status, body } = await postCreate(room, { dims: [64, 16, 64] });
+
+        expect(status).toBe(409);
+        expect(body.dims).toEqual([8, 8, 8]);
+        expect(room.canvas.dims).toEqual([8, 8, 8]);
+    });
+
+    it("should refuse to resize a room someone has already joined", async () => {
+        const room = await createRoom();
+        const alice = await join(room, "alice");
+
+        const { status, body } = await postCreate(room, { dims: [32, 16, 64] });
+
+        expect(status).toBe(409);
+        expect(body.dims).toEqual([20, 20, 20]);
+        expect(alice.last("welcome")?.dims).toEqual(room.canvas.dims);
+    });
+
+    it("should refuse dims past the cap", async () => {
+        const room = await createRoom();
+
+        expect((await postCreate(room, { dims: [65, 20, 20] })).status).toBe(400);
+        expect(room.canvas.dims).toEqual([20, 20, 20]);
+    });
+});
@@ -1,37 +1,130 @@
-import type {
-    CanvasState,
-    ClientMsg,
-    Env,
-    OpSetVoxel,
-    PackedState,
-    PlayerPresence,
-    ServerMsg,
-    StaticRoomData,
+import { chunkKey, joinChunks, splitChunks } from "./chunks";
+import type { Env } from "./env";
+import { type ExportFormat, exportResponse } from "./export";
+import { OpLog } from "./oplog";
+import {
+    type CanvasState,
+    type ClientMsg,
+    cellCount,
+    DEFAULT_DIMS,
+    type Dims,
+    type ErrorCode,
+    type HistoryResponse,
+    type ImportRequest,
+    keyOf,
+    MAX_MESSAGE_BYTES,
+    MAX_TXN_OPS,
+    type NackReason,
+    type OpSetVoxel,
+    type PackedState,
+    type PlayerPresence,
+    type ReplayFrame,
+    type RoomClock,
+    type ServerMsg,
+    type SetTxn,
+    type StateResponse,
+    type StaticRoomData,
+    type Voxel,
+    type VoxelKey,
+    validateClientMsg,
+    validateCreateRequest,
+    validateImportRequest,
 } from "./schema";
+import { Snapshots } from "./snapshots";
+import { thumbnailResponse } from "./thumbnail";
+import {
+    DIMS_WIRE_VERSION,
+    decodeSnapshot,
+    encodeServerMsg,
+    encodeSnapshot,
+    MIN_WIRE_VERSION,
+    WIRE_VERSION,
+} from "./wire";
+
+const BULK_BATCH = 500; // ops per version when restoring or importing
+
+const textEncoder = new TextEncoder();
+
+// Per-socket state, kept in the socket's attachment so it survives the object
+// hibernating between messages. playerId and sessionId are set on hello.
+interface SocketAttachment {
+    playerId?: string;
+    sessionId?: string;
+    cursor?: [number, number, number];
+    bucket: { tokens: number; last: number };
+    wire?: number; // binary protocol version negotiated in hello; JSON if unset
+    ticket?: string; // sent to this socket alone in hello; see ImportRequest
+}
+
+// What the room keeps in storage alongside its voxels. Rooms stored before
+// canvases could be sized have no dims; before large canvases, no chunks, and
+// their voxels are a JSON PackedState under LEGACY_VOXELS_KEY.
+interface RoomMeta {
+    version: number;
+    lamport: number;
+    dims?: Dims;
+    chunks?: number; // how many pieces the snapshot-encoded canvas is split into
+}
+
+const CANVAS_KEY = "canvas";
+const LEGACY_VOXELS_KEY = "voxels";
+
+// The parts of a transaction a socket has sent so far
+interface TxnBuffer {
+    id: string;
+    next: number; // the part expected next
+    ops: OpSetVoxel[];
+}
+
+// Voxels as they were before a transaction, with the room's clock
+interface SavedVoxels {
+    voxels: Map<VoxelKey, Voxel | undefined>;
+    lamport: number;
+}
+
+// Whether the voxel is as `op` expects it: the colour in `expect` (null: empty)
+// and the write stamped `expectT` (0: empty), for whichever it gives
+function holdsExpected(op: OpSetVoxel, cur: Voxel | undefined): boolean {
+    if (op.expect !== undefined && (cur?.color ?? null) !== op.expect) return false;
+    return op.expectT === undefined || (cur?.t ?? 0) === op.expectT;
+}
+
+// One message's encodings, built at most once however many sockets it goes to
+interface Frames {
+    json?: string;
+    binary?: Record<number, Uint8Array | null>; // by wire version; null: not covered
+}
 
 export class VoxelRoomDO {
     state: DurableObjectState;
     env: Env;
-    connections = new Set<WebSocket>();
     canvas: CanvasState = {
-        size: 20,
+        dims: DEFAULT_DIMS,
         voxels: new Map(),
         lamport: 0,
         version: 0,
     };
-    bucketMap = new WeakMap<WebSocket, { tokens: number; last: number }>();
-    playerPresence = new Map<WebSocket, PlayerPresence>(); // Track player cursors
+    opLog = new OpLog(); // Recent apply batches for delta catch-up
+    snapshots = new Snapshots(); // Periodic copies of the canvas for history
     persistTimer?: number; // Timer for debounced persistence
+    storedChunks?: number; // pieces of the canvas in storage; unset until first persisted
+    // Unfinished transactions per socket. Only held in memory: if the room
+    // hibernates mid-transaction, its next part is refused as incomplete.
+    txns = new Map<WebSocket, TxnBuffer>();
 
     constructor(state: DurableObjectState, env: Env) {
         this.state = state;
         this.env = env;
         state.blockConcurrencyWhile(async () => {
-            const meta = await state.storage.get<{ version: number; lamport: number }>("meta");
-            const packed = await state.storage.get<PackedState>("voxels");
+            const meta = await state.storage.get<RoomMeta>("meta");
+            const packed = await this.loadVoxels(meta);
+            this.storedChunks = meta?.chunks;
+            this.opLog = await OpLog.load(state.storage);
+            this.snapshots = await Snapshots.load(state.storage);
             if (meta) {
                 this.canvas.version = meta.version ?? 0;
                 this.canvas.lamport = meta.lamport ?? 0;
+                this.canvas.dims = meta.dims ?? DEFAULT_DIMS;
             }
             if (packed) {
                 for (const entry of packed) {
@@ -53,75 +146,305 @@ export class VoxelRoomDO {
         }
 
         if (path.endsWith("/state")) {
-            const packed = this.packState();
+            return this.handleStateRequest(url);
+        }
+
+        if (path.endsWith("/history")) {
+            return this.handleHistoryRequest();
+        }
+
+        if (path.endsWith("/replay")) {
+            return this.handleReplayRequest();
+        }
+
+        if (req.method === "POST") {
+            const posted = this.handlePost(req, url);
+            if (posted) return posted;
+        }
+
+        if (path.endsWith("/thumbnail.png")) {
+            return this.handleThumbnail(path);
+        }
+
+        const exportMatch = path.match(/\/api\/room\/([\w-]+)\/export\.(glb|obj)$/);
+        if (exportMatch) {
+            const format = exportMatch[2] as ExportFormat;
+            return exportResponse(exportMatch[1], this.packState(), format, this.canvas.dims);
+        }
+
+        return new Response("not found", { status: 404 });
+    }
+
+    // The routes that change the room, or null if `url` isn't one of them
+    private handlePost(req: Request, url: URL): Promise<Response> | null {
+        const path = url.pathname;
+        if (path.endsWith("/restore")) return this.handleRestore(req, url);
+        if (path.endsWith("/import")) return this.handleImport(req);
+        if (path.endsWith("/create")) return this.handleCreate(req);
+        if (path.endsWith("/seed")) return this.handleSeed(req);
+        if (path.endsWith("/freeze")) return this.handleFreeze(path);
+        return null;
+    }
+
+    private handleThumbnail(path: string): Promise<Response> {
+        const slug = path.match(/\/api\/room\/([\w-]+)\/thumbnail\.png$/)?.[1] ?? "unknown";
+        const { version, dims } = this.canvas;
+        return thumbnailResponse(this.env, slug, version, this.packState(), dims);
+    }
+
+    // Sizes the canvas. Only a room no one has created or built in yet can be sized.
+    private async handleCreate(req: Request): Promise<Response> {
+        let body: unknown;
+        try {
+            body = await req.json();
+        } catch {
+            return Response.json(
+                { success: false, message: "body is not valid JSON" },
+                { status: 400 }
+            );
+        }
+        const result = validateCreateRequest(body);
+        if (!result.ok) {
+            return Response.json({ success: false, message: result.message }, { status: 400 });
+        }
+        // Anyone already connected was welcomed at the current size
+        const exists =
+            this.canvas.version > 0 ||
+            this.state.getWebSockets().length > 0 ||
+            (await this.state.storage.get("meta"));
+        if (exists) {
+            return Response.json(
+                { success: false, message: "Room already exists", dims: this.canvas.dims },
+                { status: 409 }
+            );
+        }
+        this.canvas.dims = result.request.dims;
+        await this.persist();
+        return Response.json({ success: true, message: "Room created", dims: this.canvas.dims });
+    }
+
+    // Maintenance endpoints that rewrite the whole room; closed when no secret is set
+    private authorized(req: Request): boolean {
+        const secret = this.env.ROOM_SEED_SECRET;
+        return !!secret && req.headers.get("x-seed") === secret;
+    }
+
+    private async handleSeed(req: Request): Promise<Response> {
+        if (this.env.ROOM_SEED_SECRET && req.headers.get("x-seed") !== this.env.ROOM_SEED_SECRET) {
+            return new Response("forbidden", { status: 403 });
+        }
+        await this.seedDemo();
+        return new Response("ok");
+    }
+
+    private async handleStateRequest(url: URL): Promise<Response> {
+        const at = url.searchParams.get("version");
+        if (at !== null) {
+            const voxels = await this.canvasAt(Number(at));
+            if (!voxels) return new Response("version not available", { status: 404 });
+            const { dims } = this.canvas;
+            return Response.json({ version: Number(at), voxels, dims } satisfies StateResponse);
+        }
+
+        const since = url.searchParams.get("since");
+        const ops = since === null ? null : this.opsSince(Number(since));
+        if (ops) {
             return Response.json({
                 version: this.canvas.version,
-                voxels: packed,
+                since: Number(since),
+                ops,
+            } satisfies StateResponse);
+        }
+
+        // No `since`, or it has been compacted away: fall back to the full snapshot
+        return Response.json({
+            version: this.canvas.version,
+            voxels: this.packState(),
+            dims: this.canvas.dims,
+        } satisfies StateResponse);
+    }
+
+    private async handleFreeze(path: string): Promise<Response> {
+        // Extract room slug from the URL path
+        const roomSlugMatch = path.match(/\/api\/room\/([\w-]+)\/freeze$/);
+        const roomSlug = roomSlugMatch ? roomSlugMatch[1] : "unknown";
+
+        const success = await this.freezeRoom(roomSlug);
+        if (success) {
+            return Response.json({
+                success: true,
+                message: "Room frozen and saved statically",
             });
+        } else {
+            return Response.json(
+                { success: false, message: "Failed to freeze room" },
+                { status: 500 }
+            );
         }
+    }
 
-        if (path.endsWith("/seed") && req.method === "POST") {
-            if (
-                this.env.ROOM_SEED_SECRET &&
-                req.headers.get("x-seed") !== this.env.ROOM_SEED_SECRET
-            ) {
-                return new Response("forbidden", { status: 403 });
-            }
-            await this.seedDemo();
-            return new Response("ok");
-        }
-
-        if (path.endsWith("/freeze") && req.method === "POST") {
-            // Extract room slug from the URL path
-            const roomSlugMatch = path.match(/\/api\/room\/([\w-]+)\/freeze$/);
-            const roomSlug = roomSlugMatch ? roomSlugMatch[1] : "unknown";
-
-            const success = await this.freezeRoom(roomSlug);
-            if (success) {
-                return Response.json({
-                    success: true,
-                    message: "Room frozen and saved statically",
-                });
-            } else {
-                return Response.json(
-                    { success: false, message: "Failed to freeze room" },
-                    { status: 500 }
-                );
-            }
+    private handleHistoryRequest(): Response {
+        return Response.json({
+            version: this.canvas.version,
+            logFrom: (this.opLog.entries[0]?.version ?? this.canvas.version + 1) - 1,
+            snapshots: [...this.snapshots.index].reverse(),
+        } satisfies HistoryResponse);
+    }
+
+    private handleReplayRequest(): Response {
+        const frames = this.replayFrames();
+        const encoder = new TextEncoder();
+        const body = new ReadableStream<Uint8Array>({
+            async pull(controller) {
+                const { value, done } = await frames.next();
+                if (done) controller.close();
+                else controller.enqueue(encoder.encode(`${JSON.stringify(value)}\n`));
+            },
+        });
+        return new Response(body, { headers: { "content-type": "application/x-ndjson" } });
+    }
+
+    private async handleRestore(req: Request, url: URL): Promise<Response> {
+        if (!this.authorized(req)) return new Response("forbidden", { status: 403 });
+        const param = url.searchParams.get("version");
+        const version = Number(param);
+        // Number("") is 0, which would wipe the room
+        if (!param || !Number.isInteger(version) || version < 0 || version > this.canvas.version) {
+            return Response.json(
+                {
+                    success: false,
+                    message: `version must be an integer from 0 to ${this.canvas.version}`,
+                },
+                { status: 400 }
+            );
         }
+        const changed = await this.restore(version);
+        if (changed === null) {
+            return Response.json(
+                { success: false, message: `Version ${version} is not available` },
+                { status: 404 }
+            );
+        }
+        return Response.json({
+            success: true,
+            message: `Restored version ${version}`,
+            version: this.canvas.version,
+            changed,
+        });
+    }
 
-        return new Response("not found", { status: 404 });
+    private async handleImport(req: Request): Promise<Response> {
+        let body: unknown;
+        try {
+            body = await req.json();
+        } catch {
+            return Response.json(
+                { success: false, message: "body is not valid JSON" },
+                { status: 400 }
+            );
+        }
+        const result = validateImportRequest(body, this.canvas.dims);
+        if (!result.ok) {
+            return Response.json({ success: false, message: result.message }, { status: 400 });
+        }
+        // A player's live connection, or a maintainer holding the configured seed secret
+        const { ticket } = result.request;
+        const by = ticket === undefined ? undefined : this.ticketHolder(ticket);
+        if (ticket === undefined ? !this.authorized(req) : by === undefined) {
+            return Response.json(
+                { success: false, message: "Import from a connection to the room" },
+                { status: 403 }
+            );
+        }
+        const changed = this.importModel(result.request, by);
+        return Response.json({
+            success: true,
+            message: `Imported ${result.request.voxels.length} voxels`,
+            version: this.canvas.version,
+            changed,
+        });
     }
 
+    // Sockets are accepted through the hibernation API: the runtime holds them
+    // while the object is evicted and wakes it for webSocketMessage/webSocketClose
     async handleSocket(ws: WebSocket, _req: Request) {
-        ws.accept();
-        this.connections.add(ws);
-        this.bucketMap.set(ws, { tokens: 80, last: Date.now() });
+        this.state.acceptWebSocket(ws);
+        this.setAttachment(ws, { bucket: { tokens: 80, last: Date.now() } });
+    }
 
-        const send = (msg: ServerMsg) => {
-            try {
-                ws.send(JSON.stringify(msg));
-            } catch {}
-        };
+    async webSocketMessage(ws: WebSocket, data: string | ArrayBuffer) {
+        const send = (reply: ServerMsg) => this.send(ws, reply);
+        // In UTF-8 bytes: a string's length counts UTF-16 code units
+        const size =
+            typeof data === "string" ? textEncoder.encode(data).byteLength : data.byteLength;
+        if (size > MAX_MESSAGE_BYTES) {
+            const message = `message of ${size} bytes exceeds ${MAX_MESSAGE_BYTES}`;
+            send({ type: "error", code: "too_large", message });
+            return;
+        }
 
-        ws.addEventListener("message", async (ev) => {
-            let msg: ClientMsg;
-            try {
-                msg = JSON.parse(ev.data as string);
-            } catch {
-                return;
-            }
+        let parsed: unknown;
+        try {
+            parsed = JSON.parse(typeof data === "string" ? data : new TextDecoder().decode(data));
+        } catch {
+            send({ type: "error", code: "bad_json", message: "message is not valid JSON" });
+            return;
+        }
 
-            await this.handleMessage(msg, ws, send);
-        });
+        const result = validateClientMsg(parsed, this.canvas.dims);
+        if (!result.ok) {
+            send({ type: "error", ...result.error });
+            return;
+        }
+        await this.handleMessage(result.msg, ws, send);
+    }
 
-        ws.addEventListener("close", () => {
-            this.connections.delete(ws);
-            this.bucketMap.delete(ws);
-            this.playerPresence.delete(ws);
-            // Broadcast updated presence when someone leaves
-            this.broadcastPresence();
-        });
+    async webSocketClose(ws: WebSocket, code: number, reason: string) {
+        try {
+            ws.close(code, reason);
+        } catch {}
+        this.txns.delete(ws);
+        // Broadcast updated presence when someone leaves
+        this.broadcastPresence(ws);
+    }
+
+    async webSocketError(ws: WebSocket) {
+        this.txns.delete(ws);
+        this.broadcastPresence(ws);
+    }
+
+    private attachment(ws: WebSocket): SocketAttachment | null {
+        return ws.deserializeAttachment() as SocketAttachment | null;
+    }
+
+    private setAttachment(ws: WebSocket, attachment: SocketAttachment) {
+        ws.serializeAttachment(attachment);
+    }
+
+    // The player whose socket was sent this ticket, while it's still connected
+    private ticketHolder(ticket: string): string | undefined {
+        for (const ws of this.state.getWebSockets()) {
+            const attachment = this.attachment(ws);
+            if (attachment?.ticket === ticket) return attachment.playerId;
+        }
+        return undefined;
+    }
+
+    private send(ws: WebSocket, msg: ServerMsg, frames: Frames = {}) {
+        try {
+            ws.send(this.frame(msg, this.attachment(ws)?.wire, frames));
+        } catch {}
+    }
+
+    private frame(msg: ServerMsg, wire: number | undefined, frames: Frames): string | Uint8Array {
+        if (wire) {
+            frames.binary ??= {};
+            if (frames.binary[wire] === undefined) frames.binary[wire] = encodeServerMsg(msg, wire);
+            const binary = frames.binary[wire];
+            if (binary) return binary;
+        }
+        frames.json ??= JSON.stringify(msg);
+        return frames.json;
     }
 
     private async handleMessage(msg: ClientMsg, ws: WebSocket, send: (msg: ServerMsg) => void) {
@@ -135,7 +458,7 @@ export class VoxelRoomDO {
             return;
         }
 
-        if (msg.type === "set" && Array.isArray(msg.ops)) {
+        if (msg.type === "set") {
             await this.handleSetOps(msg, ws, send);
             return;
         }
@@ -147,98 +470,373 @@ export class VoxelRoomDO {
     }
 
     private async handleHello(
-        msg: { playerId?: string },
+        msg: { playerId?: string; clientClock?: number; since?: number; wire?: number },
         ws: WebSocket,
         send: (msg: ServerMsg) => void
     ) {
         const playerId = msg.playerId ?? this.randomId();
-        this.playerPresence.set(ws, { playerId });
-        send({
-            type: "welcome",
-            playerId,
-            state: this.packState(),
+        // Several tabs can share a playerId; each connection gets its own session
+        const sessionId = this.randomId();
+        const attachment = this.attachment(ws);
+        // Clients newer than us get our version; they keep decoding older ones
+        const wire =
+            typeof msg.wire === "number" && msg.wire >= MIN_WIRE_VERSION
+                ? Math.min(Math.floor(msg.wire), WIRE_VERSION)
+                : undefined;
+        const { dims } = this.canvas;
+        // Older binary clients would read keys against DEFAULT_DIMS
+        const sized = dims.some((d, i) => d !== DEFAULT_DIMS[i]);
+        if (wire !== undefined && wire < DIMS_WIRE_VERSION && sized) {
+            const message = `wire ${wire} can't describe this room's size; reload to update`;
+            send({ type: "error", code: "unsupported", message });
+            ws.close(1008, "wire version too old for this room");
+            return;
+        }
+        const ticket = this.randomId();
+        if (attachment)
+            this.setAttachment(ws, { ...attachment, playerId, sessionId, wire, ticket });
+        send({ type: "ticket", ticket });
+        const clock: RoomClock = {
             version: this.canvas.version,
-        });
+            lamport: this.canvas.lamport,
+            now: Date.now(),
+            clientClock: msg.clientClock,
+        };
+
+        // Reconnecting clients only need the ops they missed, if we still have them
+        const missed = typeof msg.since === "number" ? this.opsSince(msg.since) : null;
+        if (missed) {
+            send({ type: "catchup", playerId, sessionId, ops: missed, dims, ...clock });
+            return;
+        }
+
+        send({ type: "welcome", playerId, sessionId, state: this.packState(), dims, ...clock });
     }
 
     private async handleSetOps(
-        msg: { ops: OpSetVoxel[] },
+        msg: { ops: OpSetVoxel[]; txn?: SetTxn },
         ws: WebSocket,
         send: (msg: ServerMsg) => void
     ) {
-        if (!this.checkBucket(ws, msg.ops.length)) {
+        // Ops are attributed to the sender, whatever `by` they claim
+        const playerId = this.attachment(ws)?.playerId;
+        if (!playerId) {
+            const message = "send hello before set";
+            send({ type: "error", code: "not_joined", message, ids: this.opIds(msg.ops) });
+            return;
+        }
+
+        // Parts after a transaction's first are charged but never refused for
+        // rate, so a transaction that got started can always finish
+        const continuing = (msg.txn?.part ?? 0) > 0;
+        if (!this.checkBucket(ws, msg.ops.length, continuing)) {
             send({
                 type: "reject",
                 reason: "rate",
                 retryAfterMs: 1000,
+                ids: this.opIds(msg.ops),
             });
             return;
         }
 
+        const ops = msg.txn ? this.collectTxn(ws, msg.txn, msg.ops, send) : msg.ops;
+        if (ops) this.applySet(ops, playerId, send, msg.txn !== undefined);
+    }
+
+    // Holds a transaction's parts back until its last, then returns all of its ops
+    private collectTxn(
+        ws: WebSocket,
+        txn: SetTxn,
+        ops: OpSetVoxel[],
+        send: (msg: ServerMsg) => void
+    ): OpSetVoxel[] | null {
+        const buffered = this.txns.get(ws);
+        this.txns.delete(ws);
+        const follows = buffered?.id === txn.id && buffered.next === txn.part;
+        if (buffered && !follows) {
+            this.refuse(
+                send,
+                "incomplete",
+                `transaction ${buffered.id} was abandoned`,
+                buffered.ops
+            );
+        }
+        if (txn.part > 0 && !follows) {
+            const message = `transaction ${txn.id} part ${txn.part} arrived out of order`;
+            this.refuse(send, "incomplete", message, ops);
+            return null;
+        }
+
+        const all = follows ? [...(buffered?.ops ?? []), ...ops] : ops;
+        if (all.length > MAX_TXN_OPS) {
+            const message = `transaction of over ${MAX_TXN_OPS} ops`;
+            this.refuse(send, "too_large", message, all);
+            return null;
+        }
+        if (!txn.last) {
+            this.txns.set(ws, { id: txn.id, next: txn.part + 1, ops: all });
+            return null;
+        }
+        return all;
+    }
+
+    private refuse(
+        send: (msg: ServerMsg) => void,
+        code: ErrorCode,
+        message: string,
+        ops: OpSetVoxel[]
+    ) {
+        send({ type: "error", code, message, ids: this.opIds(ops) });
+    }
+
+    // Applies a batch as one version and one broadcast, then tells the sender
+    // which of its ops made it. An atomic batch is put back as it was if any of
+    // its ops is dropped, and the rest are nacked as aborted.
+    private applySet(
+        ops: OpSetVoxel[],
+        playerId: string,
+        send: (msg: ServerMsg) => void,
+        atomic = false
+    ) {
+        const before = atomic ? this.saveVoxels(ops) : null;
         const applied: OpSetVoxel[] = [];
-        for (const op of msg.ops) {
-            const appliedOp = this.processVoxelOp(op);
-            if (appliedOp) {
-                applied.push(appliedOp);
+        const nacked: Record<NackReason, string[]> = {
+            stale: [],
+            invalid: [],
+            conflict: [],
+            aborted: [],
+        };
+        for (const op of ops) {
+            const result = this.processVoxelOp({ ...op, by: playerId });
+            if (typeof result !== "string") {
+                applied.push(result);
+            } else if (op.id) {
+                nacked[result].push(op.id);
             }
         }
+        if (before && applied.length < ops.length) {
+            this.restoreVoxels(before);
+            nacked.aborted = this.opIds(applied);
+            applied.length = 0;
+        }
 
         if (applied.length) {
             this.canvas.version++;
+            this.appendLog(applied);
             this.schedulePersist();
-            this.broadcast({ type: "apply", ops: applied, version: this.canvas.version });
+            this.broadcast({
+                type: "apply",
+                ops: applied,
+                version: this.canvas.version,
+                lamport: this.canvas.lamport,
+            });
+
+            const ids = this.opIds(applied);
+            if (ids.length) send({ type: "ack", ids, version: this.canvas.version });
+        }
+        for (const reason of ["stale", "invalid", "conflict", "aborted"] as const) {
+            if (nacked[reason].length) send({ type: "nack", ids: nacked[reason], reason });
+        }
+    }
+
+    // The voxels `ops` write to and the clock, to put back if they must not apply
+    private saveVoxels(ops: OpSetVoxel[]): SavedVoxels {
+        const voxels = new Map(ops.map((op) => [op.k, this.canvas.voxels.get(op.k)]));
+        return { voxels, lamport: this.canvas.lamport };
+    }
+
+    private restoreVoxels({ voxels, lamport }: SavedVoxels) {
+        for (const [k, voxel] of voxels) {
+            if (voxel) this.canvas.voxels.set(k, voxel);
+            else this.canvas.voxels.delete(k);
+        }
+        this.canvas.lamport = lamport;
+    }
+
+    private opIds(ops: OpSetVoxel[]): string[] {
+        const ids: string[] = [];
+        for (const op of ops) if (op.id) ids.push(op.id);
+        return ids;
+    }
+
+    appendLog(ops: OpSetVoxel[]) {
+        this.opLog.append(this.canvas.version, ops);
+    }
+
+    // The canvas as it was at `version`: the newest snapshot before it with the
+    // logged ops since replayed on top. Null if that stretch of the log is gone.
+    async canvasAt(version: number): Promise<PackedState | null> {
+        if (!Number.isInteger(version) || version < 0 || version > this.canvas.version) return null;
+        if (version === this.canvas.version) return this.packState();
+
+        const base = this.snapshots.before(version);
+        const ops = this.opLog.range(base.version, version);
+        if (!ops) return null;
+        const state = await this.snapshots.read(this.state.storage, base);
+        if (!state) return null;
+
+        const voxels = new Map(state.map(([k, color, t]) => [k, { color, t }]));
+        for (const op of ops) {
+            if (op.color === null) voxels.delete(op.k);
+            else voxels.set(op.k, { color: op.color, t: op.t });
         }
+        return [...voxels].map(([k, v]) => [k, v.color, v.t]);
     }
 
-    private processVoxelOp(op: OpSetVoxel): OpSetVoxel | null {
+    // The room's build history as frames of ops. Snapshots too old for the op log
+    // become one frame each; from the first snapshot the log reaches, every logged
+    // batch is a frame. Without such a snapshot the history ends with one frame
+    // jumping from the last snapshot to the live canvas.
+    async *replayFrames(): AsyncGenerator<ReplayFrame> {
+        const entries = [...this.opLog.entries];
+        const current = { version: this.canvas.version, state: this.packState() };
+        const logFrom = (entries[0]?.version ?? current.version + 1) - 1;
+        if (logFrom === 0) {
+            for (const entry of entries) yield { version: entry.version, ops: entry.ops };
+            return;
+        }
+
+        const base = this.snapshots.index.find((s) => s.version >= logFrom);
+        const upTo = base?.version ?? current.version;
+        let prev: PackedState = [];
+        for (const snapshot of this.snapshots.index) {
+            if (snapshot.version > upTo) break;
+            const state = await this.snapshots.read(this.state.storage, snapshot);
+            if (!state) continue;
+            yield { version: snapshot.version, at: snapshot.at, ops: diffStates(prev, state) };
+            prev = state;
+        }
+
+        if (!base) {
+            yield { version: current.version, ops: diffStates(prev, current.state) };
+            return;
+        }
+        for (const entry of entries) {
+            if (entry.version > base.version) yield { version: entry.version, ops: entry.ops };
+        }
+    }
+
+    // Rolls the live canvas back to how it was at `version` with ordinary op
+    // batches, so clients catch up as with any other edit and the rollback can
+    // itself be rolled back. Returns the number of voxels changed, or null if
+    // that version is unavailable.
+    async restore(version: number): Promise<number | null> {
+        const target = await this.canvasAt(version);
+        if (!target) return null;
+        return this.rewrite(this.opsToReach(new Map(target.map(([k, color]) => [k, color]))));
+    }
+
+    // Writes a model over the canvas the same way a restore does: in a few large
+    // batches, rather than squeezing it through a socket's rate limit
+    importModel({ voxels, mode }: ImportRequest, by?: string): number {
+        const wanted = new Map(mode === "merge" ? this.packState().map(([k, c]) => [k, c]) : []);
+        for (const [k, color] of voxels) wanted.set(k, color);
+        const ops = this.opsToReach(wanted);
+        if (by !== undefined) for (const op of ops) op.by = by;
+        return this.rewrite(ops);
+    }
+
+    // Applies and broadcasts freshly stamped ops; returns how many there were
+    private rewrite(ops: OpSetVoxel[]): number {
+        if (!ops.length) return 0;
+
+        // Several versions if need be, keeping each logged batch within the
+        // storage value size limit
+        for (let i = 0; i < ops.length; i += BULK_BATCH) {
+            const batch = ops.slice(i, i + BULK_BATCH);
+            for (const op of batch) {
+                if (op.color === null) this.canvas.voxels.delete(op.k);
+                else this.canvas.voxels.set(op.k, { color: op.color, t: op.t, by: op.by });
+            }
+            this.canvas.version++;
+            this.appendLog(batch);
+            this.broadcast({
+                type: "apply",
+                ops: batch,
+                version: this.canvas.version,
+                lamport: this.canvas.lamport,
+            });
+        }
+        this.schedulePersist();
+        return ops.length;
+    }
+
+    // Freshly stamped ops turning the live canvas into `wanted`
+    private opsToReach(wanted: Map<VoxelKey, string>): OpSetVoxel[] {
+        const ops: OpSetVoxel[] = [];
+        for (const [k, cur] of this.canvas.voxels) {
+            const color = wanted.get(k) ?? null;
+            if (color !== cur.color) ops.push(this.stamp(k, color));
+        }
+        for (const [k, color] of wanted) {
+            if (!this.canvas.voxels.has(k)) ops.push(this.stamp(k, color));
+        }
+        return ops;
+    }
+
+    private stamp(k: VoxelKey, color: string | null): OpSetVoxel {
+        return { type: "set", k, color, t: ++this.canvas.lamport };
+    }
+
+    // Returns the ops applied after `since`, or null if the log no longer covers that range
+    opsSince(since: number): OpSetVoxel[] | null {
+        if (!Number.isInteger(since)) return null;
+        return this.opLog.since(since, this.canvas.version);
+    }
+
+    // Returns the op as applied, or why it was dropped. Last-writer-wins on Lamport
+    // time: an op loses if the voxel was written after the latest state its sender
+    // had seen. Stamps are clamped to the room's clock so a client can't claim to
+    // be ahead of it and win every future conflict. Ops carrying `expect` (undo and
+    // redo) or `expectT` only apply while the voxel still holds what, or the write,
+    // the sender last saw there.
+    private processVoxelOp(op: OpSetVoxel): OpSetVoxel | NackReason {
         const k = op.k | 0;
-        if (k < 0 || k >= 8000) return null;
+        if (k < 0 || k >= cellCount(this.canvas.dims)) return "invalid";
 
-        this.canvas.lamport = Math.max(this.canvas.lamport + 1, (op.t | 0) + 1);
-        const t = this.canvas.lamport;
+        const opT = Math.min(Math.floor(op.t) || 0, this.canvas.lamport + 1);
+        const cur = this.canvas.voxels.get(k);
+        if (!holdsExpected(op, cur)) return "conflict";
+        if (cur && opT < (cur.t ?? 0)) return "stale";
+        if (op.color === null && !cur) return "stale";
 
+        const t = ++this.canvas.lamport;
+        const id = op.id;
         if (op.color === null) {
-            const cur = this.canvas.voxels.get(k);
-            if (!cur || t < (cur.t ?? 0)) return null;
             this.canvas.voxels.delete(k);
-            return { type: "set", k, color: null, t, by: op.by };
+            return { type: "set", k, color: null, t, by: op.by, id };
         } else {
-            const cur = this.canvas.voxels.get(k);
-            if (cur && t < (cur.t ?? 0)) return null;
             this.canvas.voxels.set(k, { color: op.color, t, by: op.by });
-            return { type: "set", k, color: op.color, t, by: op.by };
+            return { type: "set", k, color: op.color, t, by: op.by, id };
         }
     }
 
-    private handlePresence(msg: { cursor?: [number, number, number] }, ws: WebSocket) {
-        const presence = this.playerPresence.get(ws);
-        if (presence) {
-            const updatedPresence = {
-                playerId: presence.playerId,
-                cursor: msg.cursor,
-            };
-            this.playerPresence.set(ws, updatedPresence);
+    private handlePresence(msg: { cursor?: [number, number, number] | null }, ws: WebSocket) {
+        const attachment = this.attachment(ws);
+        if (attachment?.sessionId) {
+            this.setAttachment(ws, { ...attachment, cursor: msg.cursor ?? undefined });
             this.broadcastPresence();
         }
     }
 
-    broadcast(msg: ServerMsg) {
-        const s = JSON.stringify(msg);
-        for (const ws of this.connections) {
-            try {
-                ws.send(s);
-            } catch {}
+    broadcast(msg: ServerMsg, except?: WebSocket) {
+        const frames: Frames = {};
+        for (const ws of this.state.getWebSockets()) {
+            if (ws !== except) this.send(ws, msg, frames);
         }
     }
 
-    broadcastPresence() {
-        // Deduplicate by playerId (keep the most recent entry)
-        const playersMap = new Map<string, PlayerPresence>();
-        for (const presence of this.playerPresence.values()) {
-            playersMap.set(presence.playerId, presence);
+    // `leaving` is a socket that is closing but may still be listed by the runtime
+    broadcastPresence(leaving?: WebSocket) {
+        // One entry per session, so each of a player's tabs shows its own cursor
+        const players: PlayerPresence[] = [];
+        for (const ws of this.state.getWebSockets()) {
+            if (ws === leaving) continue;
+            const a = this.attachment(ws);
+            if (!a?.playerId || !a.sessionId) continue; // not through hello yet
+            players.push({ playerId: a.playerId, sessionId: a.sessionId, cursor: a.cursor });
         }
-        const players: PlayerPresence[] = Array.from(playersMap.values());
-        this.broadcast({ type: "presence", players });
+        this.broadcast({ type: "presence", players }, leaving);
     }
 
     packState(): PackedState {
@@ -263,29 +861,69 @@ export class VoxelRoomDO {
         }, 500);
     }
 
+    private async loadVoxels(meta: RoomMeta | undefined): Promise<PackedState | undefined> {
+        if (meta?.chunks === undefined) {
+            return this.state.storage.get<PackedState>(LEGACY_VOXELS_KEY);
+        }
+        const keys = Array.from({ length: meta.chunks }, (_, i) => chunkKey(CANVAS_KEY, i));
+        const parts = await Promise.all(keys.map((key) => this.state.storage.get<Uint8Array>(key)));
+        if (parts.some((part) => !part)) throw new Error("Room canvas is missing chunks");
+        return decodeSnapshot(joinChunks(parts as Uint8Array[]));
+    }
+
     async persist() {
         try {
-            await this.state.storage.put("voxels", this.packState());
-            await this.state.storage.put("meta", {
-                version: this.canvas.version,
-                lamport: this.canvas.lamport,
+            // The canvas in the snapshot encoding, split to fit storage values,
+            // and written in one put with the meta that says how many pieces it has
+            const chunks = splitChunks(CANVAS_KEY, encodeSnapshot(this.packState()));
+            const count = Object.keys(chunks).length;
+            await this.state.storage.put({
+                ...chunks,
+                meta: {
+                    version: this.canvas.version,
+                    lamport: this.canvas.lamport,
+                    dims: this.canvas.dims,
+                    chunks: count,
+                } satisfies RoomMeta,
             });
+            // Pieces past the new end, or the JSON the room was stored as before
+            const stale =
+                this.storedChunks === undefined
+                    ? [LEGACY_VOXELS_KEY]
+                    : Array.from({ length: Math.max(0, this.storedChunks - count) }, (_, i) =>
+                          chunkKey(CANVAS_KEY, count + i)
+                      );
+            if (stale.length) await this.state.storage.delete(stale);
+            this.storedChunks = count;
+            await this.opLog.flush(this.state.storage);
+            if (this.snapshots.due(this.canvas.version, Date.now())) {
+                await this.snapshots.save(
+                    this.state.storage,
+                    { version: this.canvas.version, lamport: this.canvas.lamport, at: Date.now() },
+                    this.packState()
+                );
+            }
         } catch (error) {
             console.error("Storage operation failed:", error);
             throw error;
         }
     }
 
-    checkBucket(ws: WebSocket, cost = 1): boolean {
-        const b = this.bucketMap.get(ws);
-        if (!b) return false;
+    // Takes `cost` tokens if there are that many. With `debt` they are taken
+    // regardless, leaving the bucket below zero until it refills.
+    checkBucket(ws: WebSocket, cost = 1, debt = false): boolean {
+        const attachment = this.attachment(ws);
+        if (!attachment) return false;
+        const b = attachment.bucket;
         const now = Date.now();
-        const refill = Math.floor((now - b.last) / 50) * 1; // 1 token / 50ms
-        b.tokens = Math.min(80, b.tokens + Math.max(0, refill));
-        b.last = now;
-        if (b.tokens < cost) return false;
-        b.tokens -= cost;
-        return true;
+        const refill = Math.max(0, Math.floor((now - b.last) / 50)); // 1 token / 50ms
+        b.tokens = Math.min(80, b.tokens + refill);
+        // Keep partial progress toward the next token so frequent small batches still refill
+        b.last = b.tokens === 80 ? now : b.last + refill * 50;
+        const allowed = debt || b.tokens >= cost;
+        if (allowed) b.tokens -= cost;
+        this.setAttachment(ws, attachment);
+        return allowed;
     }
 
     randomId(): string {
@@ -301,6 +939,7 @@ export class VoxelRoomDO {
             const staticRoomData: StaticRoomData = {
                 version: this.canvas.version,
                 voxels: this.packState(),
+                dims: this.canvas.dims,
                 frozenAt: Date.now(),
                 metadata: {
                     roomSlug: roomSlug,
@@ -310,6 +949,11 @@ export class VoxelRoomDO {
             // Save to KV with key "static:{roomSlug}"
             await this.env.STATIC_ROOMS.put(`static:${roomSlug}`, JSON.stringify(staticRoomData));
 
+            // The room's history goes with it, so frozen rooms can still be replayed
+            let replay = "";
+            for await (const frame of this.replayFrames()) replay += `${JSON.stringify(frame)}\n`;
+            await this.env.STATIC_ROOMS.put(`replay:${roomSlug}`, replay);
+
             console.log(`Room ${roomSlug} frozen and saved to KV`);
             return true;
         } catch (error) {
@@ -320,11 +964,28 @@ export class VoxelRoomDO {
 
     async seedDemo() {
         // simple diagonal line
-        for (let i = 0; i < 20; i++) {
-            const k = i + i * 20 + i * 400;
-            this.canvas.voxels.set(k, { color: "#FF00FF", t: ++this.canvas.lamport });
+        const { dims } = this.canvas;
+        const ops: OpSetVoxel[] = [];
+        for (let i = 0; i < Math.min(...dims); i++) {
+            const k = keyOf(dims, i, i, i);
+            const t = ++this.canvas.lamport;
+            this.canvas.voxels.set(k, { color: "#FF00FF", t });
+            ops.push({ type: "set", k, color: "#FF00FF", t });
         }
         this.canvas.version++;
+        this.appendLog(ops);
         await this.persist();
     }
 }
+
+// Ops turning one packed state into another, keeping the target's timestamps
+function diffStates(from: PackedState, to: PackedState): OpSetVoxel[] {
+    const before = new Map(from.map(([k, color]) => [k, color]));
+    const ops: OpSetVoxel[] = [];
+    for (const [k, color, t] of to) {
+        if (before.get(k) !== color) ops.push({ type: "set", k, color, t });
+        before.delete(k);
+    }
+    for (const k of before.keys()) ops.push({ type: "set", k, color: null, t: 0 });
+    return ops;
+}
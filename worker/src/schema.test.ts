@@ -1,14 +1,22 @@
 import { describe, expect, it } from "vitest";
-import type {
-    CanvasState,
-    ClientMsg,
-    ColorHex,
-    OpSetVoxel,
-    PackedState,
-    PlayerPresence,
-    ServerMsg,
-    Voxel,
-    VoxelKey,
+import {
+    type CanvasState,
+    type ClientMsg,
+    type ColorHex,
+    cellOf,
+    type Dims,
+    keyOf,
+    MAX_BATCH_OPS,
+    MAX_ID_LENGTH,
+    type OpSetVoxel,
+    type PackedState,
+    type PlayerPresence,
+    type ServerMsg,
+    type Voxel,
+    type VoxelKey,
+    validateClientMsg,
+    validateCreateRequest,
+    validateImportRequest,
 } from "./schema.js";
 
 describe("Schema Types", () => {
@@ -69,13 +77,13 @@ describe("Schema Types", () => {
     describe("CanvasState", () => {
         it("should have valid structure", () => {
             const canvasState: CanvasState = {
-                size: 20,
+                dims: [32, 16, 64],
                 voxels: new Map<VoxelKey, Voxel>(),
                 lamport: 0,
                 version: 1,
             };
 
-            expect(canvasState.size).toBe(20);
+            expect(canvasState.dims).toEqual([32, 16, 64]);
             expect(canvasState.voxels).toBeInstanceOf(Map);
             expect(typeof canvasState.lamport).toBe("number");
             expect(typeof canvasState.version).toBe("number");
@@ -136,10 +144,12 @@ describe("Schema Types", () => {
         it("should have valid structure", () => {
             const presence: PlayerPresence = {
                 playerId: "player123",
+                sessionId: "session456",
                 cursor: [10, 5, 15],
             };
 
             expect(typeof presence.playerId).toBe("string");
+            expect(typeof presence.sessionId).toBe("string");
             expect(Array.isArray(presence.cursor)).toBe(true);
             expect(presence.cursor?.length).toBe(3);
         });
@@ -147,6 +157,7 @@ describe("Schema Types", () => {
         it("should allow optional cursor", () => {
             const presence: PlayerPresence = {
                 playerId: "player123",
+                sessionId: "session456",
             };
 
             expect(typeof presence.playerId).toBe("string");
@@ -208,8 +219,12 @@ describe("Schema Types", () => {
             const welcomeMsg: ServerMsg = {
                 type: "welcome",
                 playerId: "player123",
+                sessionId: "session456",
                 state: [[0, "#FF0000", 123]],
+                dims: [20, 20, 20],
                 version: 1,
+                lamport: 123,
+                now: Date.now(),
             };
 
             expect(welcomeMsg.type).toBe("welcome");
@@ -232,6 +247,7 @@ describe("Schema Types", () => {
                     },
                 ],
                 version: 2,
+                lamport: 124,
             };
 
             expect(applyMsg.type).toBe("apply");
@@ -269,6 +285,7 @@ describe("Schema Types", () => {
                 players: [
                     {
                         playerId: "player123",
+                        sessionId: "session456",
                         cursor: [10, 5, 15],
                     },
                 ],
@@ -279,3 +296,284 @@ describe("Schema Types", () => {
         });
     });
 });
+
+describe("validateClientMsg", () => {
+    const op = (fields: Record<string, unknown> = {}) => ({
+        type: "set",
+        k: 100,
+        color: "#FF0000",
+        t: 5,
+        id: "abc-1",
+        ...fields,
+    });
+
+    const errorOf = (value: unknown) => {
+        const result = validateClientMsg(value);
+        if (result.ok) throw new Error("expected the message to be refused");
+        return result.error;
+    };
+
+    describe("envelope", () => {
+        it("should refuse non-objects", () => {
+            for (const value of [null, 42, "hello", [], true]) {
+                expect(errorOf(value).code).toBe("bad_json");
+            }
+        });
+
+        it("should refuse unknown or missing types", () => {
+            expect(errorOf({ type: "teleport" }).code).toBe("unknown_type");
+            expect(errorOf({}).code).toBe("unknown_type");
+            expect(errorOf({ type: "toString" }).code).toBe("unknown_type");
+        });
+
+        it("should tolerate fields it doesn't know", () => {
+            expect(validateClientMsg({ type: "ping", at: 1, extra: "x" }).ok).toBe(true);
+        });
+    });
+
+    describe("hello", () => {
+        it("should accept a minimal and a full hello", () => {
+            expect(validateClientMsg({ type: "hello" }).ok).toBe(true);
+            expect(
+                validateClientMsg({
+                    type: "hello",
+                    playerId: "Ab_9-x",
+                    clientClock: 1_700_000_000_000.5,
+                    since: 12,
+                    wire: 1,
+                }).ok
+            ).toBe(true);
+        });
+
+        it("should refuse malformed player ids", () => {
+            for (const playerId of ["", "a b", "<script>", 7, "x".repeat(MAX_ID_LENGTH + 1)]) {
+                expect(errorOf({ type: "hello", playerId }).code).toBe("bad_field");
+            }
+        });
+
+        it("should refuse bad clocks and versions", () => {
+            expect(errorOf({ type: "hello", clientClock: "now" }).code).toBe("bad_field");
+            expect(errorOf({ type: "hello", since: -1 }).code).toBe("bad_field");
+            expect(errorOf({ type: "hello", since: 1.5 }).code).toBe("bad_field");
+            expect(errorOf({ type: "hello", wire: "1" }).code).toBe("bad_field");
+        });
+    });
+
+    describe("set", () => {
+        it("should accept paints and clears", () => {
+            const msg = { type: "set", ops: [op(), op({ color: null, k: 0 }), op({ k: 7999 })] };
+            expect(validateClientMsg(msg)).toEqual({ ok: true, msg });
+        });
+
+        it("should accept ops without an id or with any claimed author", () => {
+            expect(
+                validateClientMsg({ type: "set", ops: [op({ id: undefined, by: "x" })] }).ok
+            ).toBe(true);
+        });
+
+        it("should refuse a missing or non-array ops", () => {
+            expect(errorOf({ type: "set" }).code).toBe("bad_field");
+            expect(errorOf({ type: "set", ops: {} }).code).toBe("bad_field");
+        });
+
+        it("should refuse colours that aren't #RRGGBB", () => {
+            for (const color of ["red", "#FFF", "#GGGGGG", "#FF0000 ", 0xff0000, undefined]) {
+                const error = errorOf({ type: "set", ops: [op({ color })] });
+                expect(error.code).toBe("bad_field");
+                expect(error.message).toContain("ops[0].color");
+            }
+        });
+
+        it("should refuse keys outside the canvas", () => {
+            for (const k of [-1, 8000, 1.5, "1", Number.NaN]) {
+                expect(errorOf({ type: "set", ops: [op({ k })] }).code).toBe("bad_field");
+            }
+        });
+
+        it("should refuse bad timestamps and ids", () => {
+            for (const t of [-1, Number.POSITIVE_INFINITY, "5", undefined]) {
+                expect(errorOf({ type: "set", ops: [op({ t })] }).code).toBe("bad_field");
+            }
+            expect(errorOf({ type: "set", ops: [op({ id: "" })] }).code).toBe("bad_field");
+            expect(errorOf({ type: "set", ops: [op({ id: 3 })] }).code).toBe("bad_field");
+        });
+
+        it("should accept an expected colour or emptiness, and refuse anything else", () => {
+            expect(validateClientMsg({ type: "set", ops: [op({ expect: "#00FF00" })] }).ok).toBe(
+                true
+            );
+            expect(validateClientMsg({ type: "set", ops: [op({ expect: null })] }).ok).toBe(true);
+            expect(errorOf({ type: "set", ops: [op({ expect: "green" })] }).code).toBe("bad_field");
+        });
+
+        it("should accept an expected timestamp, and refuse anything else", () => {
+            expect(validateClientMsg({ type: "set", ops: [op({ expectT: 0 })] }).ok).toBe(true);
+            for (const expectT of [-1, 1.5, "3", null]) {
+                expect(errorOf({ type: "set", ops: [op({ expectT })] }).code).toBe("bad_field");
+            }
+        });
+
+        it("should point at the first bad op", () => {
+            const error = errorOf({ type: "set", ops: [op(), op({ type: "paint" })] });
+            expect(error.message).toContain("ops[1].type");
+        });
+
+        it("should refuse oversized batches", () => {
+            const ops = Array.from({ length: MAX_BATCH_OPS + 1 }, (_, i) => op({ k: i }));
+            expect(errorOf({ type: "set", ops }).code).toBe("too_large");
+            expect(validateClientMsg({ type: "set", ops: ops.slice(1) }).ok).toBe(true);
+        });
+
+        it("should accept a transaction part, and refuse a malformed one", () => {
+            const txn = { id: "fill-1", part: 2, last: true };
+            expect(validateClientMsg({ type: "set", ops: [op()], txn }).ok).toBe(true);
+            for (const bad of [
+                "fill-1",
+                { ...txn, id: "a b" },
+                { ...txn, part: -1 },
+                { ...txn, part: 0.5 },
+                { ...txn, last: "yes" },
+            ]) {
+                const error = errorOf({ type: "set", ops: [op()], txn: bad });
+                expect(error.code).toBe("bad_field");
+                expect(error.message).toContain("txn");
+            }
+        });
+
+        it("should report the ids of refused ops so they can be rolled back", () => {
+            const error = errorOf({
+                type: "set",
+                ops: [op({ id: "a" }), op({ id: "b", color: "nope" }), { id: "c" }, "junk"],
+            });
+            expect(error.ids).toEqual(["a", "b", "c"]);
+        });
+    });
+
+    describe("ping", () => {
+        it("should require a numeric time", () => {
+            expect(validateClientMsg({ type: "ping", at: 1 }).ok).toBe(true);
+            expect(errorOf({ type: "ping" }).code).toBe("bad_field");
+            expect(errorOf({ type: "ping", at: "1" }).code).toBe("bad_field");
+        });
+    });
+
+    describe("presence", () => {
+        it("should accept a cursor inside the canvas, null or nothing", () => {
+            expect(validateClientMsg({ type: "presence", cursor: [0, 19, 7] }).ok).toBe(true);
+            expect(validateClientMsg({ type: "presence", cursor: null }).ok).toBe(true);
+            expect(validateClientMsg({ type: "presence" }).ok).toBe(true);
+        });
+
+        it("should refuse any other cursor", () => {
+            for (const cursor of [[1, 2], [1, 2, 3, 4], [0, 20, 0], [0.5, 1, 1], ["1", 2, 3], {}]) {
+                expect(errorOf({ type: "presence", cursor }).code).toBe("bad_field");
+            }
+        });
+    });
+
+    describe("canvas dims", () => {
+        const dims: Dims = [32, 16, 64];
+
+        it("should take keys and cursors inside the room's canvas", () => {
+            const ops = [{ type: "set", k: 32 * 16 * 64 - 1, color: "#FF0000", t: 1 }];
+            expect(validateClientMsg({ type: "set", ops }, dims).ok).toBe(true);
+            expect(validateClientMsg({ type: "presence", cursor: [31, 15, 63] }, dims).ok).toBe(
+                true
+            );
+        });
+
+        it("should refuse keys and cursors past its edges", () => {
+            const ops = [{ type: "set", k: 32 * 16 * 64, color: "#FF0000", t: 1 }];
+            expect(validateClientMsg({ type: "set", ops }, dims).ok).toBe(false);
+            expect(validateClientMsg({ type: "presence", cursor: [0, 16, 0] }, dims).ok).toBe(
+                false
+            );
+        });
+    });
+});
+
+describe("keyOf", () => {
+    it("should count along x, then y, then z", () => {
+        expect(keyOf([20, 20, 20], 1, 2, 3)).toBe(1 + 2 * 20 + 3 * 400);
+        expect(keyOf([32, 16, 64], 1, 2, 3)).toBe(1 + 2 * 32 + 3 * 512);
+    });
+
+    it("should be undone by cellOf", () => {
+        const dims: Dims = [3, 5, 7];
+        for (let k = 0; k < 3 * 5 * 7; k++) expect(keyOf(dims, ...cellOf(dims, k))).toBe(k);
+    });
+});
+
+describe("validateCreateRequest", () => {
+    it("should accept dims up to the cap", () => {
+        expect(validateCreateRequest({ dims: [32, 16, 64] })).toEqual({
+            ok: true,
+            request: { dims: [32, 16, 64] },
+        });
+        expect(validateCreateRequest({ dims: [1, 64, 1] }).ok).toBe(true);
+    });
+
+    it("should refuse missing, partial, oversized or fractional dims", () => {
+        for (const dims of [
+            undefined,
+            [20, 20],
+            [0, 20, 20],
+            [65, 1, 1],
+            [2.5, 2, 2],
+            ["8", 8, 8],
+        ]) {
+            expect(validateCreateRequest({ dims }).ok).toBe(false);
+        }
+        expect(validateCreateRequest({ dims: [64, 64, 64] }).ok).toBe(false);
+    });
+});
+
+describe("validateImportRequest", () => {
+    const messageOf = (value: unknown) => {
+        const result = validateImportRequest(value);
+        if (result.ok) throw new Error("expected the request to be refused");
+        return result.message;
+    };
+
+    it("should accept a model to merge or replace", () => {
+        for (const mode of ["merge", "replace"]) {
+            const request = {
+                voxels: [
+                    [0, "#FF0000"],
+                    [7999, "#00ff00"],
+                ],
+                mode,
+                ticket: "t-alice",
+            };
+            expect(validateImportRequest(request)).toEqual({ ok: true, request });
+        }
+    });
+
+    it("should keep only the fields it checked", () => {
+        const result = validateImportRequest({ voxels: [], mode: "merge", by: "alice" });
+        expect(result).toEqual({ ok: true, request: { voxels: [], mode: "merge" } });
+        expect(result.ok && result.request).not.toHaveProperty("by");
+    });
+
+    it("should refuse bad modes and voxels", () => {
+        expect(messageOf({ voxels: [], mode: "append" })).toMatch("mode");
+        expect(messageOf({ mode: "merge" })).toMatch("voxels must be an array");
+        expect(messageOf({ voxels: [[8000, "#FF0000"]], mode: "merge" })).toMatch("voxels[0]");
+        expect(messageOf({ voxels: [[1, "red"]], mode: "merge" })).toMatch("voxels[0]");
+        expect(messageOf({ voxels: [], mode: "merge", ticket: "no spaces" })).toMatch("ticket");
+    });
+
+    it("should take keys across the room's canvas", () => {
+        const request = { voxels: [[32 * 16 * 64 - 1, "#FF0000"]], mode: "merge" };
+        expect(validateImportRequest(request, [32, 16, 64]).ok).toBe(true);
+        expect(validateImportRequest(request).ok).toBe(false);
+    });
+
+    it("should refuse repeated keys", () => {
+        const voxels = [
+            [5, "#FF0000"],
+            [5, "#00FF00"],
+        ];
+        expect(messageOf({ voxels, mode: "merge" })).toBe("voxels[1] repeats key 5");
+    });
+});
@@ -1,6 +1,23 @@
-export type VoxelKey = number; // 0..7999
+export type VoxelKey = number; // 0..cellCount(dims) - 1, see keyOf
 export type ColorHex = string; // "#RRGGBB"
 
+// Cells across the canvas along x, y and z. Fixed when a room is created.
+export type Dims = [x: number, y: number, z: number];
+
+export const DEFAULT_DIMS: Dims = [20, 20, 20];
+export const MAX_DIM = 64; // along any one axis
+export const MAX_CELLS = 64 * 64 * 16; // in all, so the meshes and snapshots stay small
+
+export const cellCount = (dims: Dims) => dims[0] * dims[1] * dims[2];
+
+// Keys count along x first, then y, then z
+export const keyOf = (dims: Dims, x: number, y: number, z: number): VoxelKey =>
+    x + dims[0] * (y + dims[1] * z);
+
+export function cellOf(dims: Dims, k: VoxelKey): [number, number, number] {
+    return [k % dims[0], Math.floor(k / dims[0]) % dims[1], Math.floor(k / (dims[0] * dims[1]))];
+}
+
 export interface Voxel {
     color: ColorHex;
     t: number; // lamport timestamp for LWW
@@ -8,7 +25,7 @@ export interface Voxel {
 }
 
 export interface CanvasState {
-    size: 20; // fixed
+    dims: Dims;
     voxels: Map<VoxelKey, Voxel>; // only non-empty entries stored
     lamport: number; // DO-wide logical clock
     version: number; // increments on write
@@ -18,41 +35,328 @@ export interface OpSetVoxel {
     type: "set";
     k: VoxelKey;
     color: ColorHex | null; // null means clear
-    t: number; // client-supplied lamport (will be maxed by DO)
+    t: number; // client lamport; the DO clamps it to at most its own lamport + 1
     by?: string; // playerId
+    id?: string; // client-generated, echoed in apply/ack/nack so the sender can reconcile
+    expect?: ColorHex | null; // only apply if the voxel holds this (null: empty); used by undo
+    expectT?: number; // only apply if the voxel's last write was stamped this (0: empty)
+}
+
+// Marks a set message as one part of a transaction: the room holds the parts
+// back and applies them together, in a single version, once the last arrives.
+// Either every op applies or none does. Parts are numbered from 0 and must
+// arrive in order on the same socket.
+export interface SetTxn {
+    id: string;
+    part: number;
+    last: boolean;
 }
 
 export type PackedState = [VoxelKey, string, number][]; // [key, color hex, timestamp]; empty voxels omitted
 
 export interface PlayerPresence {
-    playerId: string;
+    playerId: string; // persistent, shared by every tab of the same player
+    sessionId: string; // one per connection
     cursor?: [number, number, number]; // x, y, z position of cursor/hover
 }
 
+export type NackReason =
+    | "stale" // stamped before the voxel's last write, or cleared a voxel that was already empty
+    | "invalid" // key out of range
+    | "conflict" // the voxel no longer holds op.expect, or was written since op.expectT
+    | "aborted"; // another op in its transaction was dropped, so none of them applied
+
 export type ClientMsg =
-    | { type: "hello"; playerId?: string; clientClock?: number }
-    | { type: "set"; ops: OpSetVoxel[] } // batch for latency/burst
+    | { type: "hello"; playerId?: string; clientClock?: number; since?: number; wire?: number } // since = last seen version; wire = binary protocol version spoken (see wire.ts)
+    | { type: "set"; ops: OpSetVoxel[]; txn?: SetTxn } // batch for latency/burst
     | { type: "ping"; at: number }
-    | { type: "presence"; cursor?: [number, number, number] }; // cursor position
+    | { type: "presence"; cursor?: [number, number, number] | null }; // cursor position; null when not hovering
+
+// Sent when a client (re)joins: the room's clocks, plus hello.clientClock echoed
+// back with the server's wall clock so the client can estimate its offset
+export interface RoomClock {
+    version: number;
+    lamport: number;
+    now: number;
+    clientClock?: number;
+}
 
 export type ServerMsg =
-    | { type: "welcome"; playerId: string; state: PackedState; version: number }
-    | { type: "apply"; ops: OpSetVoxel[]; version: number } // authoritative
-    | { type: "reject"; reason: string; retryAfterMs?: number }
+    | ({
+          type: "welcome";
+          playerId: string;
+          sessionId: string;
+          state: PackedState;
+          dims: Dims;
+      } & RoomClock)
+    | ({
+          type: "catchup";
+          playerId: string;
+          sessionId: string;
+          ops: OpSetVoxel[]; // missed since hello.since
+          dims: Dims;
+      } & RoomClock)
+    | { type: "apply"; ops: OpSetVoxel[]; version: number; lamport: number } // authoritative
+    | { type: "ack"; ids: string[]; version: number } // sender's ops that were applied
+    | { type: "nack"; ids: string[]; reason: NackReason } // sender's ops that were dropped
+    | { type: "reject"; reason: string; retryAfterMs?: number; ids?: string[] } // whole batch refused
     | { type: "pong"; at: number; now: number }
-    | { type: "presence"; players: PlayerPresence[] };
+    | { type: "presence"; players: PlayerPresence[] }
+    | { type: "ticket"; ticket: string } // private to this connection; lets HTTP writes (import) act as its player
+    | { type: "error"; code: ErrorCode; message: string; ids?: string[] }; // message refused; ids of any ops it carried
+
+// GET /api/room/:slug/state[?since=N] — a delta when the op log still covers `since`,
+// otherwise the full snapshot. With ?version=N, the full canvas as of that version.
+export type StateResponse =
+    | {
+          version: number;
+          voxels: PackedState;
+          dims?: Dims; // absent for the full canvas as of an older version
+          isStatic?: boolean;
+          frozenAt?: number;
+      }
+    | { version: number; since: number; ops: OpSetVoxel[] };
+
+export interface SnapshotInfo {
+    version: number;
+    lamport: number;
+    at: number; // timestamp
+    voxels: number; // how many voxels were filled
+}
+
+// GET /api/room/:slug/history — stored snapshots, newest first. Any version from
+// `logFrom` on can be fetched exactly with /state?version=N; before that, only
+// the snapshot versions can.
+export interface HistoryResponse {
+    version: number;
+    logFrom: number;
+    snapshots: SnapshotInfo[];
+}
+
+// GET /api/room/:slug/replay streams these as NDJSON, oldest first, starting from an
+// empty canvas. Stretches older than the op log come from snapshots, one frame per
+// snapshot, so their ops carry no `by`.
+export interface ReplayFrame {
+    version: number;
+    at?: number; // timestamp, known for snapshot frames only
+    ops: OpSetVoxel[];
+}
+
+// POST /api/room/:slug/create: sizes a room before anything is built in it.
+// Rooms no one created this way are DEFAULT_DIMS.
+export interface CreateRequest {
+    dims: Dims;
+}
+
+// POST /api/room/:slug/import: a whole model written in one go. "merge" paints it
+// over the canvas, "replace" also clears every voxel the model doesn't cover.
+// Players import with the ticket their connection was sent, and are credited
+// with its ops; without one it takes the seed secret, and is refused if none is set.
+export interface ImportRequest {
+    voxels: [VoxelKey, ColorHex][];
+    mode: "merge" | "replace";
+    ticket?: string;
+}
 
 export interface StaticRoomData {
     version: number;
     voxels: PackedState;
+    dims?: Dims; // absent from rooms frozen before canvases could be sized
     frozenAt: number; // timestamp
     metadata: {
         roomSlug: string;
     };
 }
 
-export interface Env {
-    VOXEL_ROOM: DurableObjectNamespace;
-    STATIC_ROOMS: KVNamespace;
-    ROOM_SEED_SECRET?: string;
+// Limits on what a client may send
+export const MAX_MESSAGE_BYTES = 16 * 1024;
+export const MAX_BATCH_OPS = 80; // one full rate-limit bucket
+export const MAX_TXN_OPS = 500; // across a transaction's parts, which log as one storage value
+export const MAX_ID_LENGTH = 64; // playerId, op id
+
+export type ErrorCode =
+    | "bad_json" // not JSON, or not a JSON object
+    | "unknown_type"
+    | "bad_field" // a field is missing, of the wrong type or out of range
+    | "too_large" // frame over MAX_MESSAGE_BYTES, batch over MAX_BATCH_OPS or transaction over MAX_TXN_OPS
+    | "incomplete" // a transaction part out of order; the parts before it were dropped
+    | "not_joined" // set before hello
+    | "unsupported"; // hello.wire too old for this room; the socket is closed
+
+export interface ClientMsgError {
+    code: ErrorCode;
+    message: string;
+    ids?: string[]; // op ids found in a refused set, so the sender can roll them back
+}
+
+export type ClientMsgResult = { ok: true; msg: ClientMsg } | { ok: false; error: ClientMsgError };
+
+const COLOR_RE = /^#[0-9a-fA-F]{6}$/;
+const ID_RE = /^[\w-]+$/;
+
+type Fields = Record<string, unknown>;
+
+const isObject = (v: unknown): v is Fields =>
+    typeof v === "object" && v !== null && !Array.isArray(v);
+
+const isId = (v: unknown): v is string =>
+    typeof v === "string" && v.length > 0 && v.length <= MAX_ID_LENGTH && ID_RE.test(v);
+
+const isColor = (v: unknown): v is ColorHex => typeof v === "string" && COLOR_RE.test(v);
+
+const isCount = (v: unknown): v is number => Number.isSafeInteger(v) && (v as number) >= 0;
+
+// Whole numbers from 0 up to but excluding `end`
+const isBelow = (v: unknown, end: number): v is number =>
+    Number.isInteger(v) && (v as number) >= 0 && (v as number) < end;
+
+// Returns a description of the first bad field, or null if the op is valid. `by`
+// isn't checked: the room overwrites it with the sender's playerId.
+function checkOp(op: unknown, at: string, dims: Dims): string | null {
+    if (!isObject(op)) return `${at} must be an object`;
+    if (op.type !== "set") return `${at}.type must be "set"`;
+    if (!isBelow(op.k, cellCount(dims))) return `${at}.k must be an integer voxel key`;
+    if (op.color !== null && !isColor(op.color)) {
+        return `${at}.color must be #RRGGBB or null`;
+    }
+    if (typeof op.t !== "number" || !Number.isFinite(op.t) || op.t < 0) {
+        return `${at}.t must be a non-negative number`;
+    }
+    if (op.id !== undefined && !isId(op.id)) return `${at}.id must be a short id`;
+    if (op.expect !== undefined && op.expect !== null && !isColor(op.expect)) {
+        return `${at}.expect must be #RRGGBB or null`;
+    }
+    if (op.expectT !== undefined && !isCount(op.expectT)) {
+        return `${at}.expectT must be a timestamp`;
+    }
+    return null;
+}
+
+function checkHello(msg: Fields): string | null {
+    if (msg.playerId !== undefined && !isId(msg.playerId)) return "playerId must be a short id";
+    if (msg.clientClock !== undefined && !Number.isFinite(msg.clientClock)) {
+        return "clientClock must be a number";
+    }
+    if (msg.since !== undefined && !isCount(msg.since)) return "since must be a version";
+    if (msg.wire !== undefined && !isCount(msg.wire)) return "wire must be a version";
+    return null;
+}
+
+function checkTxn(txn: unknown): string | null {
+    if (!isObject(txn)) return "txn must be an object";
+    if (!isId(txn.id)) return "txn.id must be a short id";
+    if (!isCount(txn.part)) return "txn.part must be a part number";
+    if (typeof txn.last !== "boolean") return "txn.last must be a boolean";
+    return null;
+}
+
+function checkSet(msg: Fields, dims: Dims): string | null {
+    if (!Array.isArray(msg.ops)) return "ops must be an array";
+    for (let i = 0; i < msg.ops.length; i++) {
+        const problem = checkOp(msg.ops[i], `ops[${i}]`, dims);
+        if (problem) return problem;
+    }
+    return msg.txn === undefined ? null : checkTxn(msg.txn);
+}
+
+function checkPresence(msg: Fields, dims: Dims): string | null {
+    const { cursor } = msg;
+    if (cursor === undefined || cursor === null) return null;
+    const inside = (c: unknown, axis: number) => isBelow(c, dims[axis]);
+    if (!Array.isArray(cursor) || cursor.length !== 3 || !cursor.every(inside)) {
+        return "cursor must be [x, y, z] inside the canvas, or null";
+    }
+    return null;
+}
+
+const checks: Record<ClientMsg["type"], (msg: Fields, dims: Dims) => string | null> = {
+    hello: checkHello,
+    set: checkSet,
+    ping: (msg) => (Number.isFinite(msg.at) ? null : "at must be a number"),
+    presence: checkPresence,
+};
+
+// Validates a parsed client message. Only the fields each variant defines are
+// checked; unknown extra fields are tolerated so older rooms accept newer clients.
+// Keys and cursors must fall inside a canvas `dims` across.
+export function validateClientMsg(value: unknown, dims: Dims = DEFAULT_DIMS): ClientMsgResult {
+    if (!isObject(value)) {
+        return { ok: false, error: { code: "bad_json", message: "message must be an object" } };
+    }
+    const type = value.type;
+    if (typeof type !== "string" || !Object.keys(checks).includes(type)) {
+        return {
+            ok: false,
+            error: { code: "unknown_type", message: `unknown message type ${String(type)}` },
+        };
+    }
+
+    const ids = type === "set" ? opIdsOf(value.ops) : undefined;
+    if (type === "set" && Array.isArray(value.ops) && value.ops.length > MAX_BATCH_OPS) {
+        const message = `batch of ${value.ops.length} ops exceeds ${MAX_BATCH_OPS}`;
+        return { ok: false, error: { code: "too_large", message, ids } };
+    }
+    const problem = checks[type as ClientMsg["type"]](value, dims);
+    if (problem) return { ok: false, error: { code: "bad_field", message: problem, ids } };
+    return { ok: true, msg: value as ClientMsg };
+}
+
+// Whatever op ids can be salvaged from a set message, valid or not
+function opIdsOf(ops: unknown): string[] | undefined {
+    if (!Array.isArray(ops)) return undefined;
+    const ids: string[] = [];
+    for (const op of ops) if (isObject(op) && isId(op.id)) ids.push(op.id);
+    return ids.length ? ids : undefined;
+}
+
+export type ImportRequestResult =
+    | { ok: true; request: ImportRequest }
+    | { ok: false; message: string };
+
+// Validates a parsed import body. Keys must be unique, so a valid request never
+// holds more voxels than the canvas, `dims` across.
+export function validateImportRequest(
+    value: unknown,
+    dims: Dims = DEFAULT_DIMS
+): ImportRequestResult {
+    const fail = (message: string): ImportRequestResult => ({ ok: false, message });
+    if (!isObject(value)) return fail("request must be an object");
+    const { mode, ticket } = value;
+    if (mode !== "merge" && mode !== "replace") return fail('mode must be "merge" or "replace"');
+    if (ticket !== undefined && !isId(ticket)) return fail("ticket must be a short id");
+    if (!Array.isArray(value.voxels)) return fail("voxels must be an array");
+
+    const voxels: ImportRequest["voxels"] = [];
+    const seen = new Set<VoxelKey>();
+    for (let i = 0; i < value.voxels.length; i++) {
+        const entry = value.voxels[i];
+        if (!Array.isArray(entry)) return fail(`voxels[${i}] must be [key, #RRGGBB]`);
+        const [k, color] = entry;
+        if (!isBelow(k, cellCount(dims)) || !isColor(color)) {
+            return fail(`voxels[${i}] must be [key, #RRGGBB]`);
+        }
+        if (seen.has(k)) return fail(`voxels[${i}] repeats key ${k}`);
+        seen.add(k);
+        voxels.push([k, color]);
+    }
+    return { ok: true, request: { voxels, mode, ticket } };
+}
+
+export type CreateRequestResult =
+    | { ok: true; request: CreateRequest }
+    | { ok: false; message: string };
+
+// Validates a parsed create body: whole dims from 1 to MAX_DIM, MAX_CELLS at most in all
+export function validateCreateRequest(value: unknown): CreateRequestResult {
+    const fail = (message: string): CreateRequestResult => ({ ok: false, message });
+    if (!isObject(value)) return fail("request must be an object");
+    const { dims } = value;
+    const inRange = (d: unknown) => isBelow(d, MAX_DIM + 1) && d > 0;
+    if (!Array.isArray(dims) || dims.length !== 3 || !dims.every(inRange)) {
+        return fail(`dims must be [x, y, z], each from 1 to ${MAX_DIM}`);
+    }
+    if (cellCount(dims as Dims) > MAX_CELLS) {
+        return fail(`dims must hold ${MAX_CELLS} cells at most`);
+    }
+    return { ok: true, request: { dims: [dims[0], dims[1], dims[2]] } };
 }
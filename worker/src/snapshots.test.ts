@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import type { PackedState } from "./schema.js";
+import { SNAPSHOT_EVERY_MS, SNAPSHOT_EVERY_VERSIONS, Snapshots, snapshotKey } from "./snapshots.js";
+import { memoryStorage } from "./test-utils.js";
+
+const state: PackedState = [
+    [0, "#FF0000", 1],
+    [1, "#FF0000", 2],
+    [400, "#00FF00", 3],
+];
+
+describe("Snapshots", () => {
+    it("should be due after enough versions or enough time", () => {
+        const snapshots = new Snapshots();
+        snapshots.index = [{ version: 10, lamport: 10, at: 1000, voxels: 0 }];
+
+        expect(snapshots.due(10, 1000 + SNAPSHOT_EVERY_MS)).toBe(false); // nothing changed
+        expect(snapshots.due(11, 1000)).toBe(false);
+        expect(snapshots.due(10 + SNAPSHOT_EVERY_VERSIONS, 1000)).toBe(true);
+        expect(snapshots.due(11, 1000 + SNAPSHOT_EVERY_MS)).toBe(true);
+    });
+
+    it("should store the canvas and read it back", async () => {
+        const { storage } = memoryStorage();
+        const snapshots = new Snapshots();
+        await snapshots.save(storage, { version: 5, lamport: 3, at: 1 }, state);
+
+        expect(snapshots.latest).toEqual({ version: 5, lamport: 3, at: 1, voxels: 3 });
+        expect(await snapshots.read(storage, snapshots.latest)).toEqual(state);
+    });
+
+    it("should find the newest snapshot at or before a version", async () => {
+        const { storage } = memoryStorage();
+        const snapshots = new Snapshots();
+        for (const version of [100, 200, 300]) {
+            await snapshots.save(storage, { version, lamport: version, at: version }, []);
+        }
+
+        expect(snapshots.before(250).version).toBe(200);
+        expect(snapshots.before(300).version).toBe(300);
+        expect(snapshots.before(99).version).toBe(0);
+        expect(await snapshots.read(storage, snapshots.before(99))).toEqual([]);
+    });
+
+    it("should delete the oldest snapshots beyond the limit", async () => {
+        const { data, storage } = memoryStorage();
+        const snapshots = new Snapshots(2);
+        for (const version of [1, 2, 3]) {
+            await snapshots.save(storage, { version, lamport: version, at: version }, state);
+        }
+
+        expect(snapshots.index.map((s) => s.version)).toEqual([2, 3]);
+        expect(data.has(snapshotKey(1))).toBe(false);
+        expect(data.has(snapshotKey(3))).toBe(true);
+    });
+
+    it("should split snapshots too big for one storage value, and delete every piece", async () => {
+        const { data, storage } = memoryStorage();
+        const snapshots = new Snapshots(1);
+        // A distinct colour per voxel, so nothing collapses into runs
+        const big: PackedState = Array.from({ length: 20000 }, (_, k) => [
+            k,
+            `#${(k * 97).toString(16).padStart(6, "0").toUpperCase()}`,
+            k + 1,
+        ]);
+
+        await snapshots.save(storage, { version: 1, lamport: 1, at: 1 }, big);
+        expect(data.has(`${snapshotKey(1)}:0001`)).toBe(true);
+        expect(await snapshots.read(storage, snapshots.latest)).toEqual(big);
+
+        await snapshots.save(storage, { version: 2, lamport: 2, at: 2 }, state);
+        expect([...data.keys()].filter((k) => k.startsWith(snapshotKey(1)))).toEqual([]);
+    });
+
+    it("should reload its index from storage", async () => {
+        const { storage } = memoryStorage();
+        const snapshots = new Snapshots();
+        await snapshots.save(storage, { version: 7, lamport: 7, at: 7 }, state);
+
+        const reloaded = await Snapshots.load(storage);
+        expect(reloaded.index).toEqual(snapshots.index);
+    });
+});
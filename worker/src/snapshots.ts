@@ -0,0 +1,77 @@
+import { joinChunks, splitChunks } from "./chunks";
+import type { PackedState, SnapshotInfo } from "./schema";
+import { decodeSnapshot, encodeSnapshot } from "./wire";
+
+export const SNAPSHOT_EVERY_VERSIONS = 100;
+export const SNAPSHOT_EVERY_MS = 10 * 60 * 1000; // also snapshot a slowly changing room
+export const SNAPSHOT_LIMIT = 100; // snapshots kept before the oldest are deleted
+const SNAPSHOT_PREFIX = "snap:";
+const INDEX_KEY = "snapshots"; // SnapshotInfo[], so listing doesn't read every snapshot
+
+export type SnapshotStorage = Pick<DurableObjectStorage, "get" | "list" | "put" | "delete">;
+
+// Zero-padded to match the op log's keys
+export const snapshotKey = (version: number) =>
+    `${SNAPSHOT_PREFIX}${version.toString().padStart(12, "0")}`;
+
+// Every room starts empty, so version 0 never needs storing
+const EMPTY: SnapshotInfo = { version: 0, lamport: 0, at: 0, voxels: 0 };
+
+// Periodic copies of the canvas, stored in the binary snapshot encoding and split
+// into chunks where a large room needs it. Together with the op log they let the
+// room rebuild the canvas as it was at a past version.
+export class Snapshots {
+    index: SnapshotInfo[] = []; // oldest first
+
+    constructor(private limit = SNAPSHOT_LIMIT) {}
+
+    static async load(storage: SnapshotStorage, limit = SNAPSHOT_LIMIT): Promise<Snapshots> {
+        const snapshots = new Snapshots(limit);
+        snapshots.index = (await storage.get<SnapshotInfo[]>(INDEX_KEY)) ?? [];
+        return snapshots;
+    }
+
+    get latest(): SnapshotInfo {
+        return this.index[this.index.length - 1] ?? EMPTY;
+    }
+
+    // Whether the canvas at `version` should be snapshotted now
+    due(version: number, now: number): boolean {
+        const latest = this.latest;
+        if (version <= latest.version) return false;
+        return (
+            version - latest.version >= SNAPSHOT_EVERY_VERSIONS ||
+            now - latest.at >= SNAPSHOT_EVERY_MS
+        );
+    }
+
+    // The newest snapshot at or before `version`, falling back to the empty room
+    before(version: number): SnapshotInfo {
+        for (let i = this.index.length - 1; i >= 0; i--) {
+            if (this.index[i].version <= version) return this.index[i];
+        }
+        return EMPTY;
+    }
+
+    async save(storage: SnapshotStorage, info: Omit<SnapshotInfo, "voxels">, state: PackedState) {
+        const entry = { ...info, voxels: state.length };
+        this.index.push(entry);
+        await storage.put(splitChunks(snapshotKey(entry.version), encodeSnapshot(state)));
+
+        const excess = this.index.length - this.limit;
+        if (excess > 0) {
+            const dropped = this.index.splice(0, excess);
+            for (const s of dropped) {
+                const chunks = await storage.list({ prefix: snapshotKey(s.version) });
+                await storage.delete([...chunks.keys()]);
+            }
+        }
+        await storage.put(INDEX_KEY, this.index);
+    }
+
+    async read(storage: SnapshotStorage, info: SnapshotInfo): Promise<PackedState | null> {
+        if (info.version === 0) return [];
+        const chunks = await storage.list<Uint8Array>({ prefix: snapshotKey(info.version) });
+        return chunks.size ? decodeSnapshot(joinChunks([...chunks.values()])) : null;
+    }
+}
@@ -0,0 +1,41 @@
+// Test helpers shared across the worker's test files
+
+const MAX_VALUE_BYTES = 128 * 1024;
+
+// Roughly what a value takes in storage: binary as is, anything else as JSON
+const sizeOf = (value: unknown) =>
+    value instanceof Uint8Array ? value.byteLength : (JSON.stringify(value)?.length ?? 0);
+
+// Map-backed stand-in for DurableObjectStorage: keys list in sorted order, and
+// values are capped at 128 KiB and batch writes and deletes at 128 keys, as they
+// are in the runtime
+export function memoryStorage() {
+    const data = new Map<string, unknown>();
+    const set = (key: string, value: unknown) => {
+        if (sizeOf(value) > MAX_VALUE_BYTES) throw new Error(`value for ${key} too large`);
+        data.set(key, value);
+    };
+    const storage = {
+        async get(key: string) {
+            return data.get(key);
+        },
+        async put(key: string | Record<string, unknown>, value?: unknown) {
+            if (typeof key === "string") {
+                set(key, value);
+                return;
+            }
+            if (Object.keys(key).length > 128) throw new Error("too many keys");
+            for (const [k, v] of Object.entries(key)) set(k, v);
+        },
+        async list({ prefix }: { prefix: string }) {
+            const keys = [...data.keys()].filter((k) => k.startsWith(prefix)).sort();
+            return new Map(keys.map((k) => [k, data.get(k)]));
+        },
+        async delete(keys: string[]) {
+            if (keys.length > 128) throw new Error("too many keys");
+            for (const k of keys) data.delete(k);
+            return keys.length;
+        },
+    };
+    return { data, storage: storage as unknown as DurableObjectStorage };
+}
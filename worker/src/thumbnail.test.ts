@@ -0,0 +1,117 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { PackedState } from "./schema.js";
+import {
+    RERENDER_AFTER_MS,
+    renderIsometric,
+    THUMBNAIL_SIZE,
+    thumbnailResponse,
+} from "./thumbnail.js";
+
+const key = (x: number, y: number, z: number) => x + y * 20 + z * 400;
+
+function pixel(image: ReturnType<typeof renderIsometric>, x: number, y: number) {
+    const at = (y * image.width + x) * 4;
+    return [...image.rgba.subarray(at, at + 3)];
+}
+
+// A lone voxel fills the padded image: 1 unit projects to 215 pixels, and
+// its centre lands on the image's
+const FACE_CENTRES = { top: [256, 149], right: [349, 310], left: [163, 310] } as const;
+
+describe("renderIsometric", () => {
+    it("should render an empty room as plain background", () => {
+        const image = renderIsometric([]);
+        expect([image.width, image.height]).toEqual([THUMBNAIL_SIZE, THUMBNAIL_SIZE]);
+        for (const [x, y] of [
+            [0, 0],
+            [256, 256],
+            [511, 511],
+        ]) {
+            expect(pixel(image, x, y)).toEqual([0xf8, 0xf8, 0xf8]);
+        }
+    });
+
+    it("should shade the sides darker than the top", () => {
+        const image = renderIsometric([[key(5, 5, 5), "#808080", 0]]);
+
+        expect(pixel(image, 0, 0)).toEqual([0xf8, 0xf8, 0xf8]);
+        expect(pixel(image, ...FACE_CENTRES.top)).toEqual([128, 128, 128]);
+        expect(pixel(image, ...FACE_CENTRES.right)).toEqual([102, 102, 102]);
+        expect(pixel(image, ...FACE_CENTRES.left)).toEqual([79, 79, 79]);
+    });
+
+    it("should draw nearer voxels over farther ones whatever the state's order", () => {
+        // (1, 1, 1) sits exactly in front of (0, 0, 0) from the camera's corner
+        const behind: PackedState[number] = [key(0, 0, 0), "#FF0000", 0];
+        const front: PackedState[number] = [key(1, 1, 1), "#0000FF", 0];
+
+        for (const state of [
+            [behind, front],
+            [front, behind],
+        ]) {
+            const image = renderIsometric(state);
+            for (const [x, y] of Object.values(FACE_CENTRES)) {
+                const [r, , b] = pixel(image, x, y);
+                expect(r).toBe(0);
+                expect(b).toBeGreaterThan(0);
+            }
+        }
+    });
+});
+
+describe("thumbnailResponse", () => {
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    function cachingEnv() {
+        const store = new Map<string, { value: ArrayBuffer; metadata: unknown }>();
+        const kv = {
+            getWithMetadata: vi.fn(
+                async (k: string) => store.get(k) ?? { value: null, metadata: null }
+            ),
+            put: vi.fn(async (k: string, v: Uint8Array, options: { metadata: unknown }) => {
+                store.set(k, { value: v.slice().buffer, metadata: options.metadata });
+            }),
+        };
+        // biome-ignore lint/suspicious/noExplicitAny: Required for test mocking
+        return { kv, env: { STATIC_ROOMS: kv } as any };
+    }
+
+    it("should render once and serve the room's thumbnail from KV afterwards", async () => {
+        const { kv, env } = cachingEnv();
+        const state: PackedState = [[key(0, 0, 0), "#FF0000", 0]];
+
+        const first = await thumbnailResponse(env, "room", 3, state);
+        const second = await thumbnailResponse(env, "room", 3, state);
+
+        expect(first.headers.get("content-type")).toBe("image/png");
+        const bytes = new Uint8Array(await first.arrayBuffer());
+        expect([...bytes.subarray(1, 4)]).toEqual([0x50, 0x4e, 0x47]);
+        expect(new Uint8Array(await second.arrayBuffer())).toEqual(bytes);
+        expect(kv.put).toHaveBeenCalledTimes(1);
+        expect(kv.put.mock.calls[0][0]).toBe("thumbnail:room");
+    });
+
+    it("should redraw a room that changed, at most once per interval", async () => {
+        vi.useFakeTimers();
+        const { kv, env } = cachingEnv();
+        const state: PackedState = [[key(0, 0, 0), "#FF0000", 0]];
+
+        await thumbnailResponse(env, "room", 3, state);
+        for (let version = 4; version < 10; version++) {
+            await thumbnailResponse(env, "room", version, state);
+        }
+        expect(kv.put).toHaveBeenCalledTimes(1);
+
+        vi.advanceTimersByTime(RERENDER_AFTER_MS);
+        await thumbnailResponse(env, "room", 9, state);
+        await thumbnailResponse(env, "room", 9, state);
+        expect(kv.put).toHaveBeenCalledTimes(2);
+
+        // Unchanged rooms keep their thumbnail however old it is
+        vi.advanceTimersByTime(RERENDER_AFTER_MS);
+        await thumbnailResponse(env, "room", 9, state);
+        expect(kv.put).toHaveBeenCalledTimes(2);
+    });
+});
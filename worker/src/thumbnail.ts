@@ -0,0 +1,206 @@
+import type { Env } from "./env";
+import { encodePng } from "./png";
+import { cellOf, DEFAULT_DIMS, type Dims, keyOf, type PackedState } from "./schema";
+
+// Isometric room previews: GET /api/room/:slug/thumbnail.png, also the rooms'
+// OpenGraph image. Drawn in software with the painter's algorithm, so the worker
+// needs neither a GPU nor a canvas.
+
+export const THUMBNAIL_SIZE = 512;
+const SUPERSAMPLE = 2; // rendered this many times larger, then averaged down
+const PADDING = 0.08; // of the image, around the build
+const BACKGROUND = [0xf8, 0xf8, 0xf8]; // the scene's background
+const CACHE_TTL = 30 * 24 * 60 * 60; // seconds; long enough for a room nobody edits
+export const RERENDER_AFTER_MS = 60 * 1000; // however busy the room, at most one render a minute
+
+// Stored with each room's cached thumbnail
+interface ThumbnailMeta {
+    version: number; // of the canvas it shows
+    at: number; // when it was rendered
+}
+
+type Point = [number, number];
+type Vec3 = [number, number, number];
+
+export interface Image {
+    width: number;
+    height: number;
+    rgba: Uint8Array;
+}
+
+// Seen from the (+x, +y, +z) corner like the scene's starting camera, so each
+// voxel shows its top, +x and +z faces. Sides are shaded darker than tops.
+const FACES: { normal: Vec3; corners: Vec3[]; shade: number }[] = [
+    {
+        normal: [0, 1, 0],
+        corners: [
+            [0, 1, 0],
+            [1, 1, 0],
+            [1, 1, 1],
+            [0, 1, 1],
+        ],
+        shade: 1,
+    },
+    {
+        normal: [1, 0, 0],
+        corners: [
+            [1, 0, 0],
+            [1, 1, 0],
+            [1, 1, 1],
+            [1, 0, 1],
+        ],
+        shade: 0.8,
+    },
+    {
+        normal: [0, 0, 1],
+        corners: [
+            [0, 0, 1],
+            [1, 0, 1],
+            [1, 1, 1],
+            [0, 1, 1],
+        ],
+        shade: 0.62,
+    },
+];
+
+const COS30 = Math.cos(Math.PI / 6);
+const project = ([x, y, z]: Vec3): Point => [(x - z) * COS30, (x + z) / 2 - y];
+
+export function renderIsometric(
+    state: PackedState,
+    size = THUMBNAIL_SIZE,
+    dims: Dims = DEFAULT_DIMS
+): Image {
+    const scale = SUPERSAMPLE;
+    const image = blank(size * scale, size * scale);
+    if (!state.length) return downsample(image, scale);
+
+    const filled = new Set(state.map(([k]) => k));
+    const voxels = state
+        .map(([k, color]) => ({ p: cellOf(dims, k), rgb: rgbOf(color) }))
+        .sort((a, b) => a.p[0] + a.p[1] + a.p[2] - (b.p[0] + b.p[1] + b.p[2]));
+
+    const toScreen = fitToImage(
+        voxels.map((v) => v.p),
+        image.width
+    );
+    for (const { p, rgb } of voxels) {
+        for (const face of FACES) {
+            const n: Vec3 = [p[0] + face.normal[0], p[1] + face.normal[1], p[2] + face.normal[2]];
+            if (n.every((c, i) => c < dims[i]) && filled.has(keyOf(dims, ...n))) continue;
+            const polygon = face.corners.map((c) =>
+                toScreen(project([p[0] + c[0], p[1] + c[1], p[2] + c[2]]))
+            );
+            fillConvex(
+                image,
+                polygon,
+                rgb.map((c) => Math.round(c * face.shade))
+            );
+        }
+    }
+    return downsample(image, scale);
+}
+
+function rgbOf(color: string): number[] {
+    const rgb = Number.parseInt(color.slice(1), 16);
+    return [(rgb >> 16) & 0xff, (rgb >> 8) & 0xff, rgb & 0xff];
+}
+
+function blank(width: number, height: number): Image {
+    const rgba = new Uint8Array(width * height * 4);
+    for (let i = 0; i < rgba.length; i += 4) rgba.set([...BACKGROUND, 0xff], i);
+    return { width, height, rgba };
+}
+
+// Scales and centres the projected build to fill a square image, padding aside
+function fitToImage(points: Vec3[], size: number): (p: Point) => Point {
+    let [minX, minY, maxX, maxY] = [Infinity, Infinity, -Infinity, -Infinity];
+    for (const [x, y, z] of points) {
+        for (const corner of [0, 1, 2, 3, 4, 5, 6, 7]) {
+            const [sx, sy] = project([
+                x + (corner & 1),
+                y + ((corner >> 1) & 1),
+                z + (corner >> 2),
+            ]);
+            [minX, maxX] = [Math.min(minX, sx), Math.max(maxX, sx)];
+            [minY, maxY] = [Math.min(minY, sy), Math.max(maxY, sy)];
+        }
+    }
+    const usable = size * (1 - 2 * PADDING);
+    const scale = usable / Math.max(maxX - minX, maxY - minY);
+    const offsetX = (size - (maxX - minX) * scale) / 2 - minX * scale;
+    const offsetY = (size - (maxY - minY) * scale) / 2 - minY * scale;
+    return ([x, y]) => [x * scale + offsetX, y * scale + offsetY];
+}
+
+// Fills the pixels whose centres lie inside a convex polygon, so faces sharing
+// an edge meet without gaps or double coverage
+function fillConvex(image: Image, polygon: Point[], rgb: number[]) {
+    const ys = polygon.map((p) => p[1]);
+    const top = Math.max(0, Math.ceil(Math.min(...ys) - 0.5));
+    const bottom = Math.min(image.height - 1, Math.floor(Math.max(...ys) - 0.5));
+    for (let row = top; row <= bottom; row++) {
+        const y = row + 0.5;
+        let [left, right] = [Infinity, -Infinity];
+        for (let i = 0; i < polygon.length; i++) {
+            const [a, b] = [polygon[i], polygon[(i + 1) % polygon.length]];
+            if ((a[1] <= y && b[1] > y) || (b[1] <= y && a[1] > y)) {
+                const x = a[0] + ((y - a[1]) / (b[1] - a[1])) * (b[0] - a[0]);
+                [left, right] = [Math.min(left, x), Math.max(right, x)];
+            }
+        }
+        const from = Math.max(0, Math.ceil(left - 0.5));
+        const to = Math.min(image.width, Math.ceil(right - 0.5));
+        for (let col = from; col < to; col++) image.rgba.set(rgb, (row * image.width + col) * 4);
+    }
+}
+
+function downsample(image: Image, factor: number): Image {
+    const width = image.width / factor;
+    const height = image.height / factor;
+    const rgba = new Uint8Array(width * height * 4);
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            for (let c = 0; c < 4; c++) {
+                let sum = 0;
+                for (let dy = 0; dy < factor; dy++) {
+                    for (let dx = 0; dx < factor; dx++) {
+                        const from = ((y * factor + dy) * image.width + x * factor + dx) * 4;
+                        sum += image.rgba[from + c];
+                    }
+                }
+                rgba[(y * width + x) * 4 + c] = Math.round(sum / (factor * factor));
+            }
+        }
+    }
+    return { width, height, rgba };
+}
+
+// The room's thumbnail, served from KV. One cached image per room: it's redrawn
+// once the canvas has moved past it, but no sooner than RERENDER_AFTER_MS after
+// the last render, so a busy room doesn't pay for a render and a write per edit.
+export async function thumbnailResponse(
+    env: Env,
+    slug: string,
+    version: number,
+    state: PackedState,
+    dims: Dims = DEFAULT_DIMS
+): Promise<Response> {
+    const cacheKey = `thumbnail:${slug}`;
+    const cached = await env.STATIC_ROOMS.getWithMetadata<ThumbnailMeta>(cacheKey, "arrayBuffer");
+    let png: ArrayBuffer | Uint8Array | null = cached.value;
+    const meta = cached.metadata;
+    const now = Date.now();
+    const fresh = meta && (meta.version === version || now - meta.at < RERENDER_AFTER_MS);
+    if (!png || !fresh) {
+        const image = renderIsometric(state, THUMBNAIL_SIZE, dims);
+        png = await encodePng(image.width, image.height, image.rgba);
+        await env.STATIC_ROOMS.put(cacheKey, png, {
+            expirationTtl: CACHE_TTL,
+            metadata: { version, at: now } satisfies ThumbnailMeta,
+        });
+    }
+    return new Response(png, {
+        headers: { "content-type": "image/png", "cache-control": "public, max-age=60" },
+    });
+}
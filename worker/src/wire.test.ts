@@ -0,0 +1,167 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_DIMS, type OpSetVoxel, type PackedState, type ServerMsg } from "./schema.js";
+import {
+    decodeServerMsg,
+    decodeSnapshot,
+    encodeServerMsg,
+    encodeSnapshot,
+    WIRE_VERSION,
+} from "./wire.js";
+
+const palette = ["#f94144", "#90be6d", "#277da1", "#FFFFFF"];
+
+// Every voxel filled, in horizontal bands of colour, with timestamps in write order
+function fullRoom(): PackedState {
+    return Array.from({ length: 8000 }, (_, k): [number, string, number] => [
+        k,
+        palette[Math.floor(k / 400) % palette.length],
+        k + 1,
+    ]);
+}
+
+const roundTrip = (msg: ServerMsg, version = WIRE_VERSION) => {
+    const bytes = encodeServerMsg(msg, version);
+    if (!bytes) throw new Error(`${msg.type} is not binary`);
+    return decodeServerMsg(bytes);
+};
+
+describe("wire snapshot", () => {
+    it("should round-trip an empty room", () => {
+        expect(decodeSnapshot(encodeSnapshot([]))).toEqual([]);
+    });
+
+    it("should round-trip scattered voxels in key order", () => {
+        const state: PackedState = [
+            [7999, "#FF0000", 12],
+            [0, "#00FF00", 3],
+            [1, "#00FF00", 1],
+            [5, "#FF0000", 0],
+            [400, "not a colour", 9],
+        ];
+
+        expect(decodeSnapshot(encodeSnapshot(state))).toEqual(
+            [...state].sort((a, b) => a[0] - b[0])
+        );
+    });
+
+    it("should round-trip a full room", () => {
+        const state = fullRoom();
+        expect(decodeSnapshot(encodeSnapshot(state))).toEqual(state);
+    });
+
+    it("should keep large lamport timestamps exact", () => {
+        const state: PackedState = [
+            [1, "#000000", 2 ** 40],
+            [2, "#000000", 3],
+        ];
+        expect(decodeSnapshot(encodeSnapshot(state))).toEqual(state);
+    });
+
+    it("should be far smaller than JSON for a full room", () => {
+        const state = fullRoom();
+        const json = new TextEncoder().encode(JSON.stringify(state)).length;
+
+        expect(encodeSnapshot(state).length).toBeLessThan(json / 10);
+    });
+
+    it("should collapse runs of one colour", () => {
+        const row: PackedState = Array.from({ length: 20 }, (_, x) => [x, "#FF0000", 1]);
+        const scattered: PackedState = Array.from({ length: 20 }, (_, i) => [i * 2, "#FF0000", 1]);
+
+        expect(encodeSnapshot(row).length).toBeLessThan(encodeSnapshot(scattered).length);
+    });
+});
+
+describe("wire messages", () => {
+    const ops: OpSetVoxel[] = [
+        { type: "set", k: 1, color: "#FF0000", t: 5, by: "alice", id: "a-1" },
+        { type: "set", k: 2, color: null, t: 6 },
+        { type: "set", k: 3, color: "#FF0000", t: 7, id: "a-2" },
+    ];
+
+    it("should start every frame with the protocol version", () => {
+        const bytes = encodeServerMsg({ type: "presence", players: [] });
+        expect(bytes?.[0]).toBe(WIRE_VERSION);
+    });
+
+    const welcome: ServerMsg = {
+        type: "welcome",
+        playerId: "alice",
+        sessionId: "s1",
+        state: fullRoom(),
+        dims: [32, 16, 64],
+        version: 42,
+        lamport: 8000,
+        now: 1_700_000_000_123,
+        clientClock: 1_700_000_000_100.5,
+    };
+
+    it("should round-trip welcome", () => {
+        expect(roundTrip(welcome)).toEqual(welcome);
+    });
+
+    it("should round-trip a wire 1 welcome, which predates dims", () => {
+        const v1 = { ...welcome, dims: DEFAULT_DIMS };
+        const bytes = encodeServerMsg(v1, 1) as Uint8Array;
+
+        expect(bytes[0]).toBe(1);
+        expect(bytes.length).toBe((encodeServerMsg(v1) as Uint8Array).length - 3);
+        expect(decodeServerMsg(bytes)).toEqual(v1);
+    });
+
+    it("should round-trip every other message unchanged at wire 1", () => {
+        const msg: ServerMsg = { type: "apply", ops, version: 9, lamport: 7 };
+        expect(roundTrip(msg, 1)).toEqual(msg);
+    });
+
+    it("should round-trip catchup without a client clock", () => {
+        const msg: ServerMsg = {
+            type: "catchup",
+            playerId: "alice",
+            sessionId: "s1",
+            ops,
+            dims: [32, 16, 64],
+            version: 3,
+            lamport: 7,
+            now: 1_700_000_000_123,
+        };
+        expect(roundTrip(msg)).toEqual(msg);
+        // Wire 1 clients only ever join default-sized rooms
+        expect(roundTrip({ ...msg, dims: DEFAULT_DIMS }, 1)).toEqual({
+            ...msg,
+            dims: DEFAULT_DIMS,
+        });
+    });
+
+    it("should round-trip apply, keeping clears and optional fields", () => {
+        const msg: ServerMsg = { type: "apply", ops, version: 9, lamport: 7 };
+        expect(roundTrip(msg)).toEqual(msg);
+    });
+
+    it("should round-trip presence", () => {
+        const msg: ServerMsg = {
+            type: "presence",
+            players: [
+                { playerId: "alice", sessionId: "s1", cursor: [0, 19, -1] },
+                { playerId: "ålice ✨", sessionId: "s2" },
+            ],
+        };
+        expect(roundTrip(msg)).toEqual(msg);
+    });
+
+    it("should leave other messages to JSON", () => {
+        expect(encodeServerMsg({ type: "ack", ids: ["a"], version: 1 })).toBeNull();
+        expect(encodeServerMsg({ type: "pong", at: 1, now: 2 })).toBeNull();
+    });
+
+    it("should refuse frames from an unknown protocol version", () => {
+        const bytes = encodeServerMsg({ type: "presence", players: [] }) as Uint8Array;
+        bytes[0] = WIRE_VERSION + 1;
+        expect(() => decodeServerMsg(bytes)).toThrow("unsupported version");
+    });
+
+    it("should refuse truncated frames", () => {
+        const bytes = encodeServerMsg({ type: "apply", ops, version: 9, lamport: 7 }) as Uint8Array;
+        expect(() => decodeServerMsg(bytes.subarray(0, bytes.length - 3))).toThrow("truncated");
+    });
+});
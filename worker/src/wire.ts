@@ -0,0 +1,344 @@
+import {
+    DEFAULT_DIMS,
+    type Dims,
+    type OpSetVoxel,
+    type PackedState,
+    type PlayerPresence,
+    type RoomClock,
+    type ServerMsg,
+} from "./schema";
+
+// Binary encoding for the server messages that carry bulk voxel data: welcome
+// snapshots, op batches (apply/catchup) and presence. Clients opt in by sending
+// hello.wire; everything else, and every message to clients that don't, stays JSON.
+//
+// Every frame starts with [WIRE_VERSION, kind]. Integers are LEB128 varints
+// (zigzag where they can go negative), wall-clock times are float64 and strings
+// are length-prefixed UTF-8.
+//
+// Version 2 added the room's dims to welcome and catchup. Version 1 clients still
+// get the old layout, and rooms of any other size than DEFAULT_DIMS turn them away.
+export const WIRE_VERSION = 2;
+export const MIN_WIRE_VERSION = 1;
+export const DIMS_WIRE_VERSION = 2; // the first to carry dims
+
+function writeDims(w: Writer, dims: Dims, version: number) {
+    if (version >= DIMS_WIRE_VERSION) for (const d of dims) w.varint(d);
+}
+
+function readDims(r: Reader, version: number): Dims {
+    return version >= DIMS_WIRE_VERSION ? [r.varint(), r.varint(), r.varint()] : [...DEFAULT_DIMS];
+}
+
+const KIND = { welcome: 1, catchup: 2, apply: 3, presence: 4 } as const;
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+class Writer {
+    private bytes = new Uint8Array(256);
+    private view = new DataView(this.bytes.buffer);
+    private length = 0;
+
+    u8(v: number) {
+        this.reserve(1);
+        this.bytes[this.length++] = v;
+    }
+
+    varint(v: number) {
+        if (!Number.isSafeInteger(v) || v < 0) throw new Error(`wire: bad varint ${v}`);
+        while (v >= 0x80) {
+            this.u8((v % 0x80) | 0x80);
+            v = Math.floor(v / 0x80);
+        }
+        this.u8(v);
+    }
+
+    zigzag(v: number) {
+        this.varint(v < 0 ? -2 * v - 1 : 2 * v);
+    }
+
+    f64(v: number) {
+        this.reserve(8);
+        this.view.setFloat64(this.length, v, true);
+        this.length += 8;
+    }
+
+    string(s: string) {
+        const encoded = textEncoder.encode(s);
+        this.varint(encoded.length);
+        this.reserve(encoded.length);
+        this.bytes.set(encoded, this.length);
+        this.length += encoded.length;
+    }
+
+    finish(): Uint8Array {
+        return this.bytes.slice(0, this.length);
+    }
+
+    private reserve(n: number) {
+        if (this.length + n <= this.bytes.length) return;
+        const grown = new Uint8Array(Math.max(this.bytes.length * 2, this.length + n));
+        grown.set(this.bytes);
+        this.bytes = grown;
+        this.view = new DataView(grown.buffer);
+    }
+}
+
+class Reader {
+    private view: DataView;
+    private pos = 0;
+
+    constructor(private bytes: Uint8Array) {
+        this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    }
+
+    u8(): number {
+        if (this.pos >= this.bytes.length) throw new Error("wire: truncated frame");
+        return this.bytes[this.pos++];
+    }
+
+    varint(): number {
+        let v = 0;
+        let scale = 1;
+        for (;;) {
+            const b = this.u8();
+            v += (b & 0x7f) * scale;
+            if (b < 0x80) return v;
+            scale *= 0x80;
+        }
+    }
+
+    zigzag(): number {
+        const v = this.varint();
+        return v % 2 ? -(v + 1) / 2 : v / 2;
+    }
+
+    f64(): number {
+        if (this.pos + 8 > this.bytes.length) throw new Error("wire: truncated frame");
+        const v = this.view.getFloat64(this.pos, true);
+        this.pos += 8;
+        return v;
+    }
+
+    string(): string {
+        const n = this.varint();
+        if (this.pos + n > this.bytes.length) throw new Error("wire: truncated frame");
+        const s = textDecoder.decode(this.bytes.subarray(this.pos, this.pos + n));
+        this.pos += n;
+        return s;
+    }
+}
+
+// Snapshot: a palette of the distinct colours, then runs of consecutive keys
+// sharing a palette entry (neighbours along x are consecutive keys), then each
+// voxel's timestamp as a delta from the previous one in key order.
+function writeSnapshot(w: Writer, state: PackedState) {
+    const voxels = [...state].sort((a, b) => a[0] - b[0]);
+    const palette = new Map<string, number>();
+    const runs: [start: number, length: number, color: number][] = [];
+    for (const [k, color] of voxels) {
+        let index = palette.get(color);
+        if (index === undefined) {
+            index = palette.size;
+            palette.set(color, index);
+        }
+        const run = runs[runs.length - 1];
+        if (run && run[0] + run[1] === k && run[2] === index) {
+            run[1]++;
+        } else {
+            runs.push([k, 1, index]);
+        }
+    }
+
+    w.varint(palette.size);
+    for (const color of palette.keys()) w.string(color);
+    w.varint(runs.length);
+    let end = 0;
+    for (const [start, length, color] of runs) {
+        w.varint(start - end);
+        w.varint(length);
+        w.varint(color);
+        end = start + length;
+    }
+    let prev = 0;
+    for (const [, , t] of voxels) {
+        w.zigzag(t - prev);
+        prev = t;
+    }
+}
+
+function readSnapshot(r: Reader): PackedState {
+    const palette = Array.from({ length: r.varint() }, () => r.string());
+    const state: PackedState = [];
+    const runCount = r.varint();
+    let end = 0;
+    for (let i = 0; i < runCount; i++) {
+        const start = end + r.varint();
+        const length = r.varint();
+        const color = palette[r.varint()];
+        if (color === undefined) throw new Error("wire: palette index out of range");
+        for (let k = start; k < start + length; k++) state.push([k, color, 0]);
+        end = start + length;
+    }
+    let t = 0;
+    for (const entry of state) {
+        t += r.zigzag();
+        entry[2] = t;
+    }
+    return state;
+}
+
+const OP_BY = 1;
+const OP_ID = 2;
+
+// Op batch: a palette of the batch's colours, then per op its key, palette
+// index + 1 (0 clears the voxel), timestamp and optional attribution and id
+function writeOps(w: Writer, ops: OpSetVoxel[]) {
+    const palette = new Map<string, number>();
+    for (const op of ops) {
+        if (op.color !== null && !palette.has(op.color)) palette.set(op.color, palette.size);
+    }
+    w.varint(palette.size);
+    for (const color of palette.keys()) w.string(color);
+
+    w.varint(ops.length);
+    for (const op of ops) writeOp(w, op, palette);
+}
+
+function writeOp(w: Writer, op: OpSetVoxel, palette: Map<string, number>) {
+    w.varint(op.k);
+    w.varint(op.color === null ? 0 : (palette.get(op.color) ?? 0) + 1);
+    w.varint(op.t);
+    w.u8((op.by !== undefined ? OP_BY : 0) | (op.id !== undefined ? OP_ID : 0));
+    if (op.by !== undefined) w.string(op.by);
+    if (op.id !== undefined) w.string(op.id);
+}
+
+function readOps(r: Reader): OpSetVoxel[] {
+    const palette = Array.from({ length: r.varint() }, () => r.string());
+    return Array.from({ length: r.varint() }, () => {
+        const k = r.varint();
+        const index = r.varint();
+        const color = index === 0 ? null : palette[index - 1];
+        if (color === undefined) throw new Error("wire: palette index out of range");
+        const op: OpSetVoxel = { type: "set", k, color, t: r.varint() };
+        const flags = r.u8();
+        if (flags & OP_BY) op.by = r.string();
+        if (flags & OP_ID) op.id = r.string();
+        return op;
+    });
+}
+
+function writePresence(w: Writer, players: PlayerPresence[]) {
+    w.varint(players.length);
+    for (const p of players) {
+        w.string(p.playerId);
+        w.string(p.sessionId);
+        w.u8(p.cursor ? 1 : 0);
+        if (p.cursor) for (const c of p.cursor) w.zigzag(c);
+    }
+}
+
+function readPresence(r: Reader): PlayerPresence[] {
+    return Array.from({ length: r.varint() }, () => {
+        const player: PlayerPresence = { playerId: r.string(), sessionId: r.string() };
+        if (r.u8()) player.cursor = [r.zigzag(), r.zigzag(), r.zigzag()];
+        return player;
+    });
+}
+
+function writeClock(w: Writer, clock: RoomClock) {
+    w.varint(clock.version);
+    w.varint(clock.lamport);
+    w.f64(clock.now);
+    w.u8(clock.clientClock === undefined ? 0 : 1);
+    if (clock.clientClock !== undefined) w.f64(clock.clientClock);
+}
+
+function readClock(r: Reader): RoomClock {
+    const clock: RoomClock = { version: r.varint(), lamport: r.varint(), now: r.f64() };
+    if (r.u8()) clock.clientClock = r.f64();
+    return clock;
+}
+
+export function encodeSnapshot(state: PackedState): Uint8Array {
+    const w = new Writer();
+    writeSnapshot(w, state);
+    return w.finish();
+}
+
+export function decodeSnapshot(bytes: Uint8Array): PackedState {
+    return readSnapshot(new Reader(bytes));
+}
+
+// Returns null for messages the binary protocol doesn't cover; send those as JSON
+export function encodeServerMsg(msg: ServerMsg, version = WIRE_VERSION): Uint8Array | null {
+    const w = new Writer();
+    w.u8(version);
+    switch (msg.type) {
+        case "welcome":
+            w.u8(KIND.welcome);
+            w.string(msg.playerId);
+            w.string(msg.sessionId);
+            writeClock(w, msg);
+            writeDims(w, msg.dims, version);
+            writeSnapshot(w, msg.state);
+            break;
+        case "catchup":
+            w.u8(KIND.catchup);
+            w.string(msg.playerId);
+            w.string(msg.sessionId);
+            writeClock(w, msg);
+            writeDims(w, msg.dims, version);
+            writeOps(w, msg.ops);
+            break;
+        case "apply":
+            w.u8(KIND.apply);
+            w.varint(msg.version);
+            w.varint(msg.lamport);
+            writeOps(w, msg.ops);
+            break;
+        case "presence":
+            w.u8(KIND.presence);
+            writePresence(w, msg.players);
+            break;
+        default:
+            return null;
+    }
+    return w.finish();
+}
+
+export function decodeServerMsg(bytes: Uint8Array): ServerMsg {
+    const r = new Reader(bytes);
+    const version = r.u8();
+    if (version < MIN_WIRE_VERSION || version > WIRE_VERSION)
+        throw new Error(`wire: unsupported version ${version}`);
+
+    const kind = r.u8();
+    switch (kind) {
+        case KIND.welcome: {
+            const playerId = r.string();
+            const sessionId = r.string();
+            const clock = readClock(r);
+            const dims = readDims(r, version);
+            return { type: "welcome", playerId, sessionId, ...clock, dims, state: readSnapshot(r) };
+        }
+        case KIND.catchup: {
+            const playerId = r.string();
+            const sessionId = r.string();
+            const clock = readClock(r);
+            const dims = readDims(r, version);
+            return { type: "catchup", playerId, sessionId, ...clock, dims, ops: readOps(r) };
+        }
+        case KIND.apply: {
+            const version = r.varint();
+            const lamport = r.varint();
+            return { type: "apply", version, lamport, ops: readOps(r) };
+        }
+        case KIND.presence:
+            return { type: "presence", players: readPresence(r) };
+        default:
+            throw new Error(`wire: unknown message kind ${kind}`);
+    }
+}